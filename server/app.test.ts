@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_PRESET } from '../src/presets.ts';
+import { makeQuestion } from '../src/questions.ts';
+import { HistoryEntry, NewClass, PlayType, Result } from '../src/types.ts';
+import { createApp } from './app.ts';
+import { openDatabase } from './db.ts';
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  server = createApp(openDatabase(':memory:')).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const post = (path: string, body: unknown) =>
+  fetch(baseUrl + path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+const createClassWithKey = async () => (await (await post('/api/classes', { name: '4B' })).json()) as NewClass;
+
+const createClass = async () => (await createClassWithKey()).code;
+
+const getOverview = (code: string, teacherKey?: string) =>
+  fetch(`${baseUrl}/api/classes/${code}/overview`, { headers: teacherKey ? { 'X-Teacher-Key': teacherKey } : {} });
+
+const RESULTS: Result[] = [{ question: makeQuestion(6, 7), userAnswer: 42, isCorrect: true, timeTaken: 1.8, points: 5 }];
+
+const ENTRY: HistoryEntry = {
+  id: '1768204800000',
+  date: '2026-01-12 09:00',
+  type: PlayType.TEST,
+  score: 1,
+  total: 1,
+  points: 5,
+  isPassed: false,
+  timestamp: 1768204800000,
+  preset: DEFAULT_PRESET
+};
+
+describe('POST /api/sessions', () => {
+  it('stores a session once', async () => {
+    const classCode = await createClass();
+    const upload = { classCode, studentName: 'Alva', entry: ENTRY, results: RESULTS };
+    expect((await post('/api/sessions', upload)).status).toBe(201);
+    expect((await post('/api/sessions', upload)).status).toBe(200);
+  });
+
+  it.each([
+    ['integrity flags the overview cannot read', { integrityFlags: 'xyz' }],
+    ['a test code that is not text', { testCode: 42 }],
+    ['an unknown play type', { type: 'CHEAT' }],
+    ['a missing score', { score: undefined }]
+  ])('refuses an entry with %s as a client error', async (_, change) => {
+    const classCode = await createClass();
+    const response = await post('/api/sessions', { classCode, studentName: 'Alva', entry: { ...ENTRY, ...change }, results: RESULTS });
+    expect(response.status).toBe(400);
+  });
+
+  it('answers broken JSON and oversized bodies with a client error', async () => {
+    expect((await post('/api/sessions', '{')).status).toBe(400);
+    expect((await post('/api/sessions', { padding: 'x'.repeat(2 * 1024 * 1024) })).status).toBe(413);
+  });
+});
+
+describe('GET /api/classes/:code/overview', () => {
+  it('opens with the teacher key', async () => {
+    const { code, teacherKey } = await createClassWithKey();
+    const response = await getOverview(code, teacherKey);
+    expect(response.status).toBe(200);
+    expect((await response.json()).class).toMatchObject({ code, name: '4B' });
+  });
+
+  it('refuses the class code alone or a wrong key', async () => {
+    const { code, teacherKey } = await createClassWithKey();
+    expect((await getOverview(code)).status).toBe(403);
+    expect((await getOverview(code, code)).status).toBe(403);
+    expect((await getOverview(code, teacherKey.slice(1))).status).toBe(403);
+  });
+
+  it('keeps the key out of what students can look up', async () => {
+    const { code } = await createClassWithKey();
+    const info = await (await fetch(`${baseUrl}/api/classes/${code}`)).json();
+    expect(info).not.toHaveProperty('teacherKey');
+    expect(JSON.stringify(info)).not.toContain('teacher');
+  });
+});
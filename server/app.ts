@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { NextFunction, Request, Response } from 'express';
+import { ClassDatabase, ForbiddenError, NotFoundError } from './db.ts';
+import { isHistoryEntry, isResult } from '../src/exportImport.ts';
+import { SessionUpload } from '../src/types.ts';
+
+class BadRequestError extends Error {}
+
+// A row the database would refuse, or one the class overview cannot read, is turned away here
+// with a 400. The client drops a refused session rather than retrying it, so it cannot hold
+// up the ones queued after it. isHistoryEntry checks every field, the optional ones included.
+const isSessionUpload = (body: any): body is SessionUpload =>
+  typeof body?.classCode === 'string' &&
+  typeof body?.studentName === 'string' &&
+  body.studentName.trim() !== '' &&
+  isHistoryEntry(body?.entry) &&
+  Array.isArray(body?.results) &&
+  body.results.every(isResult);
+
+/** The status of a client error raised by middleware, e.g. 400 for broken JSON or 413 for a body too large. */
+const clientErrorStatus = (err: any): number | null =>
+  Number.isInteger(err?.status) && err.status >= 400 && err.status < 500 ? err.status : null;
+
+export interface AppOptions {
+  /** Origin allowed to call the API from another host, e.g. the deployed app. */
+  corsOrigin?: string;
+}
+
+export const createApp = (classes: ClassDatabase, { corsOrigin }: AppOptions = {}) => {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  if (corsOrigin) {
+    app.use((req, res, next) => {
+      res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Teacher-Key');
+      if (req.method === 'OPTIONS') res.sendStatus(204);
+      else next();
+    });
+  }
+
+  app.post('/api/classes', (req, res) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) throw new BadRequestError('Class name is required');
+    res.status(201).json(classes.createClass(name));
+  });
+
+  app.get('/api/classes/:code', (req, res) => {
+    res.json(classes.getClass(req.params.code));
+  });
+
+  app.get('/api/classes/:code/overview', (req, res) => {
+    res.json(classes.getClassOverview(req.params.code, req.get('X-Teacher-Key') ?? ''));
+  });
+
+  app.post('/api/sessions', (req, res) => {
+    if (!isSessionUpload(req.body)) throw new BadRequestError('Malformed session');
+    const { created } = classes.saveSession(req.body);
+    res.status(created ? 201 : 200).json({ ok: true });
+  });
+
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    const status = clientErrorStatus(err);
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: err.message });
+    } else if (err instanceof ForbiddenError) {
+      res.status(403).json({ error: err.message });
+    } else if (err instanceof BadRequestError) {
+      res.status(400).json({ error: err.message });
+    } else if (status) {
+      res.status(status).json({ error: err.message });
+    } else {
+      console.error(err);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return app;
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo, connect } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { COMPETITION_PATH, ServerMessage } from '../src/competition.ts';
+import { DEFAULT_PRESET } from '../src/presets.ts';
+import { attachCompetitionServer } from './competition.ts';
+
+let server: Server;
+let wss: WebSocketServer;
+let port: number;
+
+beforeEach(async () => {
+  server = createServer();
+  wss = attachCompetitionServer(server);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  wss.clients.forEach(client => client.terminate());
+  await new Promise(resolve => server.close(resolve));
+});
+
+/** Opens the WebSocket by hand and sends one frame the client forgot to mask, as no browser would. */
+const sendUnmaskedFrame = () =>
+  new Promise<void>((resolve, reject) => {
+    const socket = connect(port, 'localhost', () => {
+      socket.write([
+        `GET ${COMPETITION_PATH} HTTP/1.1`,
+        `Host: localhost:${port}`,
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version: 13',
+        '',
+        ''
+      ].join('\r\n'));
+    });
+    socket.once('data', response => {
+      expect(response.toString()).toMatch(/^HTTP\/1.1 101/);
+      socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+    });
+    socket.on('error', reject);
+    socket.on('close', () => resolve());
+  });
+
+const hostCompetition = () =>
+  new Promise<ServerMessage>((resolve, reject) => {
+    const socket = new WebSocket(`ws://localhost:${port}${COMPETITION_PATH}`);
+    socket.on('open', () => {
+      socket.send(JSON.stringify({
+        type: 'host',
+        setup: { preset: DEFAULT_PRESET, tables: [2, 3], kinds: ['multiply'], rounds: 5 }
+      }));
+    });
+    socket.on('message', data => resolve(JSON.parse(data.toString())));
+    socket.on('error', reject);
+  });
+
+describe('competition server', () => {
+  it('drops a socket that sends a broken frame and keeps hosting', async () => {
+    await sendUnmaskedFrame();
+    expect(server.listening).toBe(true);
+    expect(await hostCompetition()).toMatchObject({ type: 'hosted', rounds: 5 });
+  });
+
+  it('closes a socket that sends an oversized message', async () => {
+    const code = await new Promise<number>((resolve, reject) => {
+      const socket = new WebSocket(`ws://localhost:${port}${COMPETITION_PATH}`);
+      socket.on('open', () => socket.send('x'.repeat(64 * 1024)));
+      socket.on('close', resolve);
+      socket.on('error', reject);
+    });
+    expect(code).toBe(1009);
+    expect(await hostCompetition()).toMatchObject({ type: 'hosted' });
+  });
+});
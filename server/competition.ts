@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  COMPETITION_PATH,
+  CompetitionRoom,
+  CompetitionSetup,
+  ServerMessage,
+  answerRound,
+  askedQuestion,
+  closeRound,
+  connectedPlayers,
+  createRoom,
+  currentRoundQuestion,
+  isRoundOver,
+  joinError,
+  joinRoom,
+  leaveRoom,
+  parseClientMessage,
+  roundDeadline,
+  standings,
+  startRound
+} from '../src/competition.ts';
+
+// Digits only, so the code can be typed on the number keyboard of any tablet.
+const JOIN_CODE_LENGTH = 4;
+// The largest message is the teacher's setup, well under this.
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+export interface CompetitionServerOptions {
+  now?: () => number;
+}
+
+interface HostedRoom {
+  room: CompetitionRoom;
+  host: WebSocket;
+  players: Map<string, WebSocket>; // player id -> socket
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const send = (socket: WebSocket, msg: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+};
+
+/**
+ * Hosts live class competitions on the class server's port. Rooms only live in memory:
+ * a competition is over when the lesson is, and nothing of it is saved.
+ */
+export const attachCompetitionServer = (server: Server, { now = Date.now }: CompetitionServerOptions = {}) => {
+  const wss = new WebSocketServer({ server, path: COMPETITION_PATH, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, HostedRoom>();
+
+  const generateJoinCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: JOIN_CODE_LENGTH }, () => Math.floor(Math.random() * 10)).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const broadcast = (hosted: HostedRoom, msg: ServerMessage) => {
+    send(hosted.host, msg);
+    hosted.players.forEach(socket => send(socket, msg));
+  };
+
+  const sendLobby = (hosted: HostedRoom) =>
+    broadcast(hosted, { type: 'lobby', players: connectedPlayers(hosted.room).map(p => p.name) });
+
+  const sendProgress = ({ room, host }: HostedRoom) =>
+    send(host, { type: 'progress', answered: room.answers.length, players: connectedPlayers(room).length });
+
+  const finishRound = (hosted: HostedRoom) => {
+    clearTimeout(hosted.timer);
+    if (hosted.room.phase !== 'question') return;
+    hosted.room = closeRound(hosted.room);
+    const { room } = hosted;
+    const board = {
+      type: 'leaderboard' as const,
+      round: room.round,
+      rounds: room.questions.length,
+      question: currentRoundQuestion(room)!,
+      standings: standings(room),
+      final: room.phase === 'finished'
+    };
+    send(hosted.host, board);
+    hosted.players.forEach((socket, id) => {
+      const answer = room.answers.find(a => a.playerId === id);
+      send(socket, {
+        ...board,
+        you: { answered: !!answer, isCorrect: answer?.isCorrect ?? false, points: answer?.points ?? 0 }
+      });
+    });
+  };
+
+  const checkRound = (hosted: HostedRoom) => {
+    if (isRoundOver(hosted.room, now())) finishRound(hosted);
+  };
+
+  const nextQuestion = (hosted: HostedRoom) => {
+    const { phase } = hosted.room;
+    if (phase !== 'lobby' && phase !== 'leaderboard') return;
+    hosted.room = startRound(hosted.room, now());
+    const { room } = hosted;
+    broadcast(hosted, {
+      type: 'question',
+      round: room.round,
+      rounds: room.questions.length,
+      question: askedQuestion(room),
+      delay: room.startsAt - now(),
+      timePerQuestion: room.setup.preset.timePerQuestion
+    });
+    sendProgress(hosted);
+    hosted.timer = setTimeout(() => finishRound(hosted), roundDeadline(room) - now());
+  };
+
+  const hostRoom = (socket: WebSocket, setup: CompetitionSetup) => {
+    const code = generateJoinCode();
+    const hosted: HostedRoom = { room: createRoom(code, setup), host: socket, players: new Map() };
+    rooms.set(code, hosted);
+    send(socket, { type: 'hosted', code, rounds: hosted.room.questions.length });
+
+    socket.on('message', data => {
+      if (parseClientMessage(data.toString())?.type === 'next') nextQuestion(hosted);
+    });
+    socket.on('close', () => {
+      clearTimeout(hosted.timer);
+      rooms.delete(code);
+      hosted.players.forEach(player => {
+        send(player, { type: 'closed' });
+        player.close();
+      });
+    });
+  };
+
+  /** False when the student could not join, so the socket may try again. */
+  const joinPlayer = (socket: WebSocket, code: string, name: string) => {
+    const hosted = rooms.get(code.trim());
+    const error = hosted ? joinError(hosted.room, name) : 'unknown-code';
+    if (error) {
+      send(socket, { type: 'error', error });
+      return false;
+    }
+
+    const id = randomUUID();
+    hosted.room = joinRoom(hosted.room, id, name);
+    hosted.players.set(id, socket);
+    const { room } = hosted;
+    const player = room.players.find(p => p.id === id)!;
+    send(socket, { type: 'joined', code: room.code, name: player.name, rounds: room.questions.length });
+    sendLobby(hosted);
+    // Someone joining mid-question still gets to answer it
+    if (room.phase === 'question') {
+      send(socket, {
+        type: 'question',
+        round: room.round,
+        rounds: room.questions.length,
+        question: askedQuestion(room),
+        delay: room.startsAt - now(),
+        timePerQuestion: room.setup.preset.timePerQuestion
+      });
+      sendProgress(hosted);
+    }
+
+    socket.on('message', data => {
+      const msg = parseClientMessage(data.toString());
+      if (msg?.type !== 'answer') return;
+      const before = hosted.room;
+      hosted.room = answerRound(before, id, msg.round, msg.answer, now());
+      if (hosted.room === before) return;
+      sendProgress(hosted);
+      checkRound(hosted);
+    });
+    socket.on('close', () => {
+      if (!hosted.players.delete(id)) return;
+      hosted.room = leaveRoom(hosted.room, id);
+      sendLobby(hosted);
+      if (hosted.room.phase === 'question') {
+        sendProgress(hosted);
+        checkRound(hosted);
+      }
+    });
+    return true;
+  };
+
+  // The first message decides whether a socket is the teacher's screen or a student
+  const greet = (socket: WebSocket) => {
+    socket.once('message', data => {
+      const msg = parseClientMessage(data.toString());
+      if (msg?.type === 'host') {
+        hostRoom(socket, msg.setup);
+      } else if (msg?.type === 'join') {
+        if (!joinPlayer(socket, msg.code, msg.name)) greet(socket);
+      } else {
+        send(socket, { type: 'error', error: 'malformed' });
+        greet(socket);
+      }
+    });
+  };
+
+  wss.on('connection', socket => {
+    // A broken or oversized frame is reported here; without a listener it would end the whole server
+    socket.on('error', e => {
+      console.warn(`Closing a competition socket: ${e.message}`);
+      socket.terminate();
+    });
+    greet(socket);
+  });
+
+  return wss;
+};
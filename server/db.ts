@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  Accommodations, ClassInfo, ClassOverview, IntegrityFlag, NewClass, Result, SessionUpload, StudentOverview
+} from '../src/types.ts';
+import { getWeakTables } from '../src/stats.ts';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS classes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    code TEXT NOT NULL UNIQUE,
+    teacher_key TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS students (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (class_id, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT NOT NULL,
+    student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    total INTEGER NOT NULL,
+    points INTEGER NOT NULL,
+    is_passed INTEGER NOT NULL,
+    test_code TEXT,
+    accommodations_json TEXT,
+    integrity_flags_json TEXT,
+    results_json TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    PRIMARY KEY (student_id, id)
+  );
+
+  CREATE INDEX IF NOT EXISTS sessions_by_student ON sessions (student_id, received_at);
+`;
+
+// Unambiguous characters only, so codes survive being read aloud or copied from a whiteboard.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const generateClassCode = () =>
+  Array.from({ length: 6 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+
+// Every student knows the class code, so the overview needs a secret only the teacher was given.
+const generateTeacherKey = () => randomBytes(18).toString('base64url');
+
+const isTeacherKey = (expected: string | null, given: string) =>
+  expected !== null &&
+  Buffer.byteLength(given) === Buffer.byteLength(expected) &&
+  timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+interface ClassRow {
+  id: number;
+  name: string;
+  code: string;
+  teacher_key: string | null;
+  created_at: string;
+}
+
+interface SessionRow {
+  id: string;
+  date: string;
+  score: number;
+  total: number;
+  points: number;
+  is_passed: number;
+  test_code: string | null;
+  accommodations_json: string | null;
+  integrity_flags_json: string | null;
+  results_json: string;
+}
+
+const toClassInfo = (row: ClassRow): ClassInfo => ({
+  id: row.id,
+  name: row.name,
+  code: row.code,
+  createdAt: row.created_at
+});
+
+export class NotFoundError extends Error {}
+
+export class ForbiddenError extends Error {}
+
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  // Databases created by older versions lack the columns added since.
+  const sessionColumns = db.prepare('PRAGMA table_info(sessions)').all() as { name: string }[];
+  const addSessionColumn = (name: string, type: string) => {
+    if (!sessionColumns.some(c => c.name === name)) db.exec(`ALTER TABLE sessions ADD COLUMN ${name} ${type}`);
+  };
+  addSessionColumn('test_code', 'TEXT');
+  addSessionColumn('accommodations_json', 'TEXT');
+  addSessionColumn('integrity_flags_json', 'TEXT');
+
+  // Classes created before teacher keys get one now; the server log is the only place it is shown.
+  const classColumns = db.prepare('PRAGMA table_info(classes)').all() as { name: string }[];
+  if (!classColumns.some(c => c.name === 'teacher_key')) db.exec('ALTER TABLE classes ADD COLUMN teacher_key TEXT');
+  const keyless = db.prepare('SELECT * FROM classes WHERE teacher_key IS NULL').all() as ClassRow[];
+  for (const row of keyless) {
+    const teacherKey = generateTeacherKey();
+    db.prepare('UPDATE classes SET teacher_key = ? WHERE id = ?').run(teacherKey, row.id);
+    console.warn(`Class ${row.name} (${row.code}) was given the teacher key ${teacherKey}`);
+  }
+
+  const findClass = (code: string) =>
+    db.prepare('SELECT * FROM classes WHERE code = ?').get(code.toUpperCase()) as ClassRow | undefined;
+
+  const requireClass = (code: string) => {
+    const row = findClass(code);
+    if (!row) throw new NotFoundError(`Unknown class code ${code}`);
+    return row;
+  };
+
+  const createClass = (name: string): NewClass => {
+    let code = generateClassCode();
+    while (findClass(code)) code = generateClassCode();
+    const teacherKey = generateTeacherKey();
+    const createdAt = new Date().toISOString();
+    const { lastInsertRowid } = db
+      .prepare('INSERT INTO classes (name, code, teacher_key, created_at) VALUES (?, ?, ?, ?)')
+      .run(name, code, teacherKey, createdAt);
+    return { id: Number(lastInsertRowid), name, code, createdAt, teacherKey };
+  };
+
+  const getClass = (code: string): ClassInfo => toClassInfo(requireClass(code));
+
+  const upsertStudent = (classId: number, name: string): number => {
+    db.prepare('INSERT OR IGNORE INTO students (class_id, name, created_at) VALUES (?, ?, ?)')
+      .run(classId, name, new Date().toISOString());
+    const row = db.prepare('SELECT id FROM students WHERE class_id = ? AND name = ?').get(classId, name) as { id: number };
+    return row.id;
+  };
+
+  /** Stores a finished session. Re-sending the same session id is a no-op. */
+  const saveSession = db.transaction((upload: SessionUpload) => {
+    const classRow = requireClass(upload.classCode);
+    const studentId = upsertStudent(classRow.id, upload.studentName.trim());
+    const { entry } = upload;
+    const { changes } = db.prepare(`
+      INSERT INTO sessions
+        (id, student_id, type, date, score, total, points, is_passed, test_code, accommodations_json, integrity_flags_json,
+         results_json, received_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (student_id, id) DO NOTHING
+    `).run(
+      entry.id,
+      studentId,
+      entry.type,
+      entry.date,
+      entry.score,
+      entry.total,
+      entry.points,
+      entry.isPassed ? 1 : 0,
+      entry.testCode ?? null,
+      entry.accommodations ? JSON.stringify(entry.accommodations) : null,
+      entry.integrityFlags?.length ? JSON.stringify(entry.integrityFlags) : null,
+      JSON.stringify(upload.results),
+      new Date().toISOString()
+    );
+    return { studentId, created: changes > 0 };
+  });
+
+  /** The overview names every student and their results, so it takes the teacher key, not just the class code. */
+  const getClassOverview = (code: string, teacherKey: string): ClassOverview => {
+    const classRow = requireClass(code);
+    if (!isTeacherKey(classRow.teacher_key, teacherKey)) throw new ForbiddenError('Wrong teacher key');
+    const students = db.prepare(`
+      SELECT s.id, s.name, COUNT(ss.id) AS session_count
+      FROM students s
+      LEFT JOIN sessions ss ON ss.student_id = s.id
+      WHERE s.class_id = ?
+      GROUP BY s.id
+      ORDER BY s.name
+    `).all(classRow.id) as { id: number; name: string; session_count: number }[];
+
+    const latestTest = db.prepare(`
+      SELECT * FROM sessions
+      WHERE student_id = ? AND type = 'TEST'
+      ORDER BY received_at DESC
+      LIMIT 1
+    `);
+
+    const overview: StudentOverview[] = students.map(student => {
+      const row = latestTest.get(student.id) as SessionRow | undefined;
+      return {
+        studentId: student.id,
+        name: student.name,
+        sessionCount: student.session_count,
+        latestTest: row ? {
+          sessionId: row.id,
+          date: row.date,
+          score: row.score,
+          total: row.total,
+          points: row.points,
+          isPassed: row.is_passed === 1,
+          testCode: row.test_code,
+          accommodations: row.accommodations_json ? JSON.parse(row.accommodations_json) as Accommodations : null,
+          integrityFlags: row.integrity_flags_json ? JSON.parse(row.integrity_flags_json) as IntegrityFlag[] : null,
+          weakTables: getWeakTables(JSON.parse(row.results_json) as Result[])
+        } : null
+      };
+    });
+
+    return { class: toClassInfo(classRow), students: overview };
+  };
+
+  return { db, createClass, getClass, saveSession, getClassOverview };
+};
+
+export type ClassDatabase = ReturnType<typeof openDatabase>;
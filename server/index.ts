@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import { createApp } from './app.ts';
+import { attachCompetitionServer } from './competition.ts';
+import { openDatabase } from './db.ts';
+
+const PORT = Number(process.env.SERVER_PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH ?? 'data/plonninge.db';
+const CORS_ORIGIN = process.env.CORS_ORIGIN || undefined;
+
+const app = createApp(openDatabase(DATABASE_PATH), { corsOrigin: CORS_ORIGIN });
+
+const server = app.listen(PORT, () => {
+  console.log(`Plönninge class server listening on http://localhost:${PORT}`);
+});
+
+attachCompetitionServer(server);
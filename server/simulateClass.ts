@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import { WebSocket } from 'ws';
+import { COMPETITION_PATH, ClientMessage, ServerMessage } from '../src/competition.ts';
+import { DEFAULT_PRESET } from '../src/presets.ts';
+import { makeQuestion } from '../src/questions.ts';
+
+// Simulated students for trying out a class competition without a room full of tablets.
+//
+//   npm run simulate-class               hosts a competition and plays it through
+//   npm run simulate-class -- 4821 12    sends 12 students into the room the teacher's screen shows
+
+const PORT = Number(process.env.SERVER_PORT ?? 3001);
+const URL = `ws://localhost:${PORT}${COMPETITION_PATH}`;
+
+const [joinCode, countArg] = process.argv.slice(2);
+const STUDENT_COUNT = Number(countArg ?? 6);
+const LEADERBOARD_PAUSE_MS = 2000;
+
+const NAMES = ['Alva', 'Elias', 'Maja', 'Noah', 'Saga', 'Omar', 'Ella', 'Liam', 'Ebba', 'Hugo', 'Nora', 'Ali'];
+
+const connect = (hello: ClientMessage, onMessage: (msg: ServerMessage, socket: WebSocket) => void) =>
+  new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(URL);
+    socket.on('open', () => {
+      socket.send(JSON.stringify(hello));
+      resolve(socket);
+    });
+    socket.on('error', reject);
+    socket.on('message', data => onMessage(JSON.parse(data.toString()), socket));
+  });
+
+/** Answers after a random think time, and gets it right as often as its skill says. */
+const addStudent = (code: string, name: string, skill: number) =>
+  connect({ type: 'join', code, name }, (msg, socket) => {
+    if (msg.type === 'error') {
+      console.error(`${name} could not join: ${msg.error}`);
+      socket.close();
+    } else if (msg.type === 'question') {
+      const thinkTime = 500 + Math.random() * msg.timePerQuestion * 1000 * (1.2 - skill);
+      // The message leaves the answer out, so work it out like a student would
+      const { answer: right } = makeQuestion(msg.question.a, msg.question.b, msg.question.kind);
+      const answer = Math.random() < skill ? right : right + 1;
+      setTimeout(() => socket.send(JSON.stringify({ type: 'answer', round: msg.round, answer })), Math.max(0, msg.delay) + thinkTime);
+    } else if (msg.type === 'closed') {
+      socket.close();
+    }
+  });
+
+const addStudents = (code: string) =>
+  Promise.all(Array.from({ length: STUDENT_COUNT }, (_, i) =>
+    addStudent(code, NAMES[i % NAMES.length] + (i >= NAMES.length ? ` ${Math.floor(i / NAMES.length) + 1}` : ''), 0.5 + Math.random() * 0.5)
+  ));
+
+const printStandings = (msg: Extract<ServerMessage, { type: 'leaderboard' }>) => {
+  console.log(`\nRound ${msg.round + 1}/${msg.rounds}: ${msg.question.a} × ${msg.question.b}`);
+  msg.standings.forEach(s => console.log(`  ${s.rank}. ${s.name.padEnd(12)} ${String(s.points).padStart(4)} p  ${s.correct} correct`));
+};
+
+if (joinCode) {
+  await addStudents(joinCode);
+  console.log(`${STUDENT_COUNT} students joined ${joinCode}. Press Ctrl+C to take them out again.`);
+} else {
+  await connect(
+    { type: 'host', setup: { preset: DEFAULT_PRESET, tables: [2, 3, 4, 5, 6, 7, 8, 9], kinds: ['multiply'], rounds: 5 } },
+    async (msg, host) => {
+      if (msg.type === 'hosted') {
+        console.log(`Hosting ${msg.code} with ${msg.rounds} questions`);
+        await addStudents(msg.code);
+        host.send(JSON.stringify({ type: 'next' }));
+      } else if (msg.type === 'leaderboard') {
+        printStandings(msg);
+        if (msg.final) host.close();
+        else setTimeout(() => host.send(JSON.stringify({ type: 'next' })), LEADERBOARD_PAUSE_MS);
+      }
+    }
+  );
+}
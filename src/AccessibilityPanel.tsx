@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Accessibility, Keyboard, Music, Volume2 } from 'lucide-react';
+import { isSpeechAvailable, speak, spokenQuestion } from './accessibility.ts';
+import { SOUND_THEME_OPTIONS } from './audio.ts';
+import { ACCESSIBLE_PALETTES, getTableColor } from './colors.ts';
+import { useI18n } from './i18n.ts';
+import { makeQuestion } from './questions.ts';
+import { AccessibilitySettings, AudioSettings, Sound, SoundTheme, TablePalette } from './types.ts';
+
+interface AccessibilityPanelProps {
+  profileName: string;
+  settings: AccessibilitySettings;
+  audio: AudioSettings;
+  tableColors: Record<number, string>;
+  onChange: (settings: AccessibilitySettings) => void;
+  onAudioChange: (audio: AudioSettings) => void;
+  onPreviewSound: (sound: Sound, theme?: SoundTheme) => void;
+  onBack: () => void;
+}
+
+const MOTION_OPTIONS: AccessibilitySettings['motion'][] = ['system', 'reduce', 'full'];
+const PALETTE_OPTIONS: TablePalette[] = ['standard', 'colorblind', 'high-contrast'];
+const SWATCH_TABLES = [1, 2, 3, 4, 5, 6, 7];
+
+export default function AccessibilityPanel({
+  profileName,
+  settings,
+  audio,
+  tableColors,
+  onChange,
+  onAudioChange,
+  onPreviewSound,
+  onBack
+}: AccessibilityPanelProps) {
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+
+  const update = <K extends keyof AccessibilitySettings>(key: K, value: AccessibilitySettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const updateAudio = <K extends keyof AudioSettings>(key: K, value: AudioSettings[K]) => {
+    onAudioChange({ ...audio, [key]: value });
+  };
+
+  const swatches = (palette: TablePalette) => SWATCH_TABLES.map(table =>
+    palette === 'standard'
+      ? getTableColor(tableColors, table)
+      : ACCESSIBLE_PALETTES[palette][(table - 1) % ACCESSIBLE_PALETTES[palette].length]
+  );
+
+  const optionClass = (active: boolean) => `px-4 py-2 rounded-xl border-2 font-semibold text-sm transition-colors ${
+    active ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-300'
+  }`;
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <Accessibility className="text-indigo-500" size={32} />
+          <span>{t('a11y.title')}</span>
+        </h2>
+        <p className="text-slate-500 mt-2">{t('a11y.subtitle', { name: profileName })}</p>
+      </div>
+
+      <div className="w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-8">
+        <fieldset className="space-y-3">
+          <legend className="font-bold text-slate-800 mb-3">{t('a11y.motion')}</legend>
+          <div className="flex flex-wrap gap-2">
+            {MOTION_OPTIONS.map(option => (
+              <button
+                key={option}
+                onClick={() => update('motion', option)}
+                aria-pressed={settings.motion === option}
+                className={optionClass(settings.motion === option)}
+              >
+                {t(`a11y.motion.${option}`)}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={settings.highContrast}
+            onChange={(e) => update('highContrast', e.target.checked)}
+            className="w-5 h-5 mt-0.5 accent-indigo-500"
+          />
+          <span>
+            <span className="block font-bold text-slate-800">{t('a11y.highContrast')}</span>
+            <span className="block text-sm text-slate-500">{t('a11y.highContrastDescription')}</span>
+          </span>
+        </label>
+
+        <fieldset className="space-y-3">
+          <legend className="font-bold text-slate-800 mb-3">{t('a11y.palette')}</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {PALETTE_OPTIONS.map(palette => (
+              <button
+                key={palette}
+                onClick={() => update('palette', palette)}
+                aria-pressed={settings.palette === palette}
+                className={`p-3 rounded-2xl border-2 text-sm font-semibold text-start transition-colors ${
+                  settings.palette === palette ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-600 hover:border-indigo-300'
+                }`}
+              >
+                <span className="block mb-2">{t(`a11y.palette.${palette}`)}</span>
+                <span className="flex gap-1" aria-hidden="true">
+                  {swatches(palette).map((color, i) => (
+                    <span key={i} className="w-5 h-5 rounded-md" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={settings.readAloud}
+              disabled={!isSpeechAvailable()}
+              onChange={(e) => update('readAloud', e.target.checked)}
+              className="w-5 h-5 mt-0.5 accent-indigo-500"
+            />
+            <span>
+              <span className="block font-bold text-slate-800">{t('a11y.readAloud')}</span>
+              <span className="block text-sm text-slate-500">
+                {isSpeechAvailable() ? t('a11y.readAloudDescription') : t('a11y.readAloudUnavailable')}
+              </span>
+            </span>
+          </label>
+          {isSpeechAvailable() && (
+            <button
+              onClick={() => speak(spokenQuestion(i18n, makeQuestion(7, 8)), i18n.locale)}
+              className="flex items-center space-x-1 text-xs text-indigo-500 hover:text-indigo-600 font-bold uppercase tracking-widest"
+            >
+              <Volume2 size={14} />
+              <span>{t('a11y.tryIt')}</span>
+            </button>
+          )}
+        </div>
+
+        <fieldset className="space-y-4 pt-6 border-t border-slate-100">
+          <legend className="font-bold text-slate-800 mb-3 flex items-center space-x-2">
+            <Music size={18} className="text-indigo-500" />
+            <span>{t('a11y.sound')}</span>
+          </legend>
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={audio.muted}
+              onChange={(e) => updateAudio('muted', e.target.checked)}
+              className="w-5 h-5 mt-0.5 accent-indigo-500"
+            />
+            <span>
+              <span className="block font-bold text-slate-800">{t('a11y.mute')}</span>
+              <span className="block text-sm text-slate-500">{t('a11y.muteDescription')}</span>
+            </span>
+          </label>
+          <label className={`block space-y-1 ${audio.muted ? 'opacity-50' : ''}`}>
+            <span className="flex items-center justify-between text-sm font-semibold text-slate-600">
+              <span>{t('a11y.volume')}</span>
+              <span>{formatNumber(audio.volume, { style: 'percent' })}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(audio.volume * 100)}
+              disabled={audio.muted}
+              onChange={(e) => updateAudio('volume', Number(e.target.value) / 100)}
+              onPointerUp={() => onPreviewSound('correct')}
+              onKeyUp={() => onPreviewSound('correct')}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+          <div className={`space-y-2 ${audio.muted ? 'opacity-50' : ''}`}>
+            <span className="block text-sm font-semibold text-slate-600">{t('a11y.soundTheme')}</span>
+            <div className="flex flex-wrap gap-2">
+              {SOUND_THEME_OPTIONS.map(theme => (
+                <button
+                  key={theme}
+                  disabled={audio.muted}
+                  onClick={() => {
+                    updateAudio('theme', theme);
+                    onPreviewSound('complete', theme);
+                  }}
+                  aria-pressed={audio.theme === theme}
+                  className={optionClass(audio.theme === theme)}
+                >
+                  {t(`a11y.soundTheme.${theme}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={audio.spokenFeedback}
+              disabled={!isSpeechAvailable()}
+              onChange={(e) => updateAudio('spokenFeedback', e.target.checked)}
+              className="w-5 h-5 mt-0.5 accent-indigo-500"
+            />
+            <span>
+              <span className="block font-bold text-slate-800">{t('a11y.spokenFeedback')}</span>
+              <span className="block text-sm text-slate-500">
+                {isSpeechAvailable() ? t('a11y.spokenFeedbackDescription') : t('a11y.readAloudUnavailable')}
+              </span>
+            </span>
+          </label>
+        </fieldset>
+
+        <p className="flex items-start space-x-3 text-sm text-slate-500 pt-6 border-t border-slate-100">
+          <Keyboard size={18} className="shrink-0" />
+          <span>{t('a11y.keyboard')}</span>
+        </p>
+      </div>
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        {t('common.backToMenu')}
+      </button>
+    </div>
+  );
+}
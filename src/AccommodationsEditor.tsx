@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { HeartHandshake } from 'lucide-react';
+import { DEFAULT_ACCOMMODATIONS, TIME_MULTIPLIER_OPTIONS, applyAccommodations, hasAccommodations } from './accommodations.ts';
+import { Accommodations, TestPreset } from './types.ts';
+
+interface AccommodationsEditorProps {
+  profileName: string;
+  accommodations: Accommodations;
+  preset: TestPreset; // the student's selected test setting, for the preview
+  onChange: (accommodations: Accommodations) => void;
+  onBack: () => void;
+}
+
+const formatSeconds = (seconds: number) => `${String(Math.round(seconds * 10) / 10).replace('.', ',')} s`;
+
+export default function AccommodationsEditor({ profileName, accommodations, preset, onChange, onBack }: AccommodationsEditorProps) {
+  const update = <K extends keyof Accommodations>(key: K, value: Accommodations[K]) => {
+    onChange({ ...accommodations, [key]: value });
+  };
+
+  const adjusted = applyAccommodations(preset, accommodations);
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <HeartHandshake className="text-amber-500" size={32} />
+          <span>Anpassningar för {profileName}</span>
+        </h2>
+        <p className="text-slate-500 mt-2">
+          För elever med dokumenterade behov. Resultat med anpassningar märks som "anpassat" i historiken, exporterna och lärarvyn.
+        </p>
+      </div>
+
+      <div className="w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-8">
+        <fieldset disabled={accommodations.untimed} className="space-y-3 disabled:opacity-50">
+          <legend className="font-bold text-slate-800 mb-3">Förlängd tid</legend>
+          <div className="flex flex-wrap gap-2">
+            {TIME_MULTIPLIER_OPTIONS.map(multiplier => (
+              <button
+                key={multiplier}
+                onClick={() => update('timeMultiplier', multiplier)}
+                aria-pressed={accommodations.timeMultiplier === multiplier}
+                className={`px-4 py-2 rounded-xl border-2 font-semibold text-sm transition-colors ${
+                  accommodations.timeMultiplier === multiplier
+                    ? 'bg-amber-500 border-amber-500 text-white'
+                    : 'bg-white border-slate-100 text-slate-600 hover:border-amber-300'
+                }`}
+              >
+                {multiplier === 1 ? 'Ordinarie tid' : `${String(multiplier).replace('.', ',')} × tid`}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500">
+            Med "{preset.name}" blir det {formatSeconds(adjusted.timePerQuestion)} per fråga. Poängen räknas om efter den längre tiden.
+          </p>
+        </fieldset>
+
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={accommodations.untimed}
+            onChange={(e) => update('untimed', e.target.checked)}
+            className="w-5 h-5 mt-0.5 accent-amber-500"
+          />
+          <span>
+            <span className="block font-bold text-slate-800">Test utan tidsgräns</span>
+            <span className="block text-sm text-slate-500">
+              Ingen klocka. Varje rätt svar ger full poäng och eleven blir godkänd på {preset.passScore} rätt.
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={accommodations.largeTargets}
+            onChange={(e) => update('largeTargets', e.target.checked)}
+            className="w-5 h-5 mt-0.5 accent-amber-500"
+          />
+          <span>
+            <span className="block font-bold text-slate-800">Stora knappar</span>
+            <span className="block text-sm text-slate-500">Större svarsruta och sifferknappar, för den som har svårt att träffa.</span>
+          </span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4">
+        {hasAccommodations(accommodations) && (
+          <button
+            onClick={() => onChange(DEFAULT_ACCOMMODATIONS)}
+            className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-600 rounded-xl font-semibold hover:border-red-300 hover:text-red-500 transition-colors"
+          >
+            Ta bort alla anpassningar
+          </button>
+        )}
+        <button
+          onClick={onBack}
+          className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+        >
+          Tillbaka till menyn
+        </button>
+      </div>
+    </div>
+  );
+}
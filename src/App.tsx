@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
 import { 
   Calculator, 
   Trophy, 
@@ -17,7 +17,28 @@ import {
   BarChart3,
   GraduationCap,
   ChevronRight,
-  School
+  School,
+  UserCircle,
+  Brain,
+  Grid3x3,
+  SlidersHorizontal,
+  Printer,
+  KeyRound,
+  BookOpen,
+  Pause,
+  UserPlus,
+  Users,
+  Languages,
+  Lightbulb,
+  Repeat,
+  Accessibility,
+  HeartHandshake,
+  Swords,
+  TrendingUp,
+  Gauge,
+  Volume2,
+  VolumeX,
+  X
 } from 'lucide-react';
 import { 
   BarChart, 
@@ -31,138 +52,69 @@ import {
   ReferenceLine
 } from 'recharts';
 import confetti from 'canvas-confetti';
-
-// --- Types ---
-
-enum GameMode {
-  MENU = 'MENU',
-  PRACTICE_SETUP = 'PRACTICE_SETUP',
-  PLAYING = 'PLAYING',
-  RESULTS = 'RESULTS'
-}
-
-enum PlayType {
-  PRACTICE = 'PRACTICE',
-  TEST = 'TEST'
-}
-
-interface Question {
-  a: number;
-  b: number;
-  answer: number;
-  table: number;
-}
-
-interface Result {
-  question: Question;
-  userAnswer: number | null;
-  isCorrect: boolean;
-  timeTaken: number;
-  points: number;
-}
+import { GameMode, PlayType, QuestionKind, Result, HistoryEntry, LiveSession, Locale, PauseReason, Profile, ProfileStore, TestPreset } from './types.ts';
+import { DEFAULT_COLORS, COLOR_PALETTE, getTableColor, lightenColor, resolveTableColors } from './colors.ts';
+import { createProfile, loadProfileStore, saveProfileStore } from './profiles.ts';
+import { getFactMastery, getTroubleSpots } from './stats.ts';
+import { countDueFacts, updateFactStates } from './spacedRepetition.ts';
+import { QUESTION_KINDS, formatEquation, questionTokens } from './questions.ts';
+import { TestCodeConfig, decodeTestCode, encodeTestCode } from './testCode.ts';
+import { DEFAULT_PRESET, factorRange, findPreset, loadPresets, savePresets } from './presets.ts';
+import {
+  SessionState,
+  autoSubmits,
+  canPause,
+  createSessionEngine,
+  currentQuestion,
+  getSessionStats,
+  isSessionPassed,
+  isTimed,
+  totalPauseSeconds
+} from './sessionEngine.ts';
+import PresetEditor from './PresetEditor.tsx';
+import { clearLiveSession, loadLiveSession, saveLiveSession } from './liveSession.ts';
+import { mergeHistory } from './exportImport.ts';
+import { deleteHistory, useProfileHistory } from './historyStore.ts';
+import HistoryTransfer from './HistoryTransfer.tsx';
+import TeacherDashboard from './TeacherDashboard.tsx';
+import MasteryHeatmap from './MasteryHeatmap.tsx';
+import ProgressView from './ProgressView.tsx';
+import DifficultyCurve from './DifficultyCurve.tsx';
+import { levelBounds } from './adaptive.ts';
+import {
+  DEFAULT_WORKSHEET_COLUMNS,
+  MAX_WORKSHEET_PROBLEMS,
+  MAX_WORKSHEET_WEAK_FACTS,
+  MIN_WORKSHEET_PROBLEMS,
+  WorksheetConfig
+} from './worksheet.ts';
+import Worksheet from './Worksheet.tsx';
+import { createDefaultAiClient } from './ai.ts';
+import MistakeFeedback from './MistakeFeedback.tsx';
+import WordProblems from './WordProblems.tsx';
+import { uploadKey, useSyncQueue } from './syncQueue.ts';
+import SyncStatus from './SyncStatus.tsx';
+import { I18nContext, LOCALES, createTranslator, loadDeviceLocale, saveDeviceLocale } from './i18n.ts';
+import { DEFAULT_ACCESSIBILITY, shouldReduceMotion, speak, spokenQuestion, usePrefersReducedMotion } from './accessibility.ts';
+import AccessibilityPanel from './AccessibilityPanel.tsx';
+import { DEFAULT_ACCOMMODATIONS, applyAccommodations } from './accommodations.ts';
+import AccommodationsEditor from './AccommodationsEditor.tsx';
+import { canUseHints, hintSteps } from './hints.ts';
+import HintPanel from './HintPanel.tsx';
+import { retryProgress } from './retry.ts';
+import { Achievement, evaluateAchievements } from './achievements.ts';
+import BadgeCabinet, { ACHIEVEMENT_ICONS, achievementTitle } from './BadgeCabinet.tsx';
+import CompetitionHost from './CompetitionHost.tsx';
+import CompetitionPlay from './CompetitionPlay.tsx';
+import { integrityFlags } from './integrity.ts';
+import { DEFAULT_AUDIO, createAudioManager } from './audio.ts';
 
 // --- Constants ---
 
-const MAX_TIME_PER_QUESTION = 6; // seconds
-const MAX_POINTS_PER_QUESTION = 6;
-const TEST_QUESTION_COUNT = 40;
 const MIN_PRACTICE_QUESTIONS_PER_TABLE = 10;
-const PASS_SCORE_THRESHOLD = 36;
-const PASS_SPEED_THRESHOLD = 120;
-
-const DEFAULT_COLORS: Record<number, string> = {
-  1: '#64748b', // slate
-  2: '#3b82f6', // blue
-  3: '#6366f1', // indigo
-  4: '#8b5cf6', // violet
-  5: '#a855f7', // purple
-  6: '#d946ef', // fuchsia
-  7: '#ec4899', // pink
-  8: '#f43f5e', // rose
-  9: '#f97316', // orange
-  10: '#f59e0b', // amber
-};
-
-const COLOR_PALETTE = [
-  '#64748b', '#3b82f6', '#6366f1', '#8b5cf6', '#a855f7', 
-  '#d946ef', '#ec4899', '#f43f5e', '#ef4444', '#f97316', 
-  '#f59e0b', '#eab308', '#84cc16', '#22c55e', '#10b981', '#06b6d4'
-];
-
-const lightenColor = (hex: string, amount: number) => {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-  
-  const lr = Math.min(255, Math.floor(r + (255 - r) * amount));
-  const lg = Math.min(255, Math.floor(g + (255 - g) * amount));
-  const lb = Math.min(255, Math.floor(b + (255 - b) * amount));
-  
-  return `rgb(${lr}, ${lg}, ${lb})`;
-};
-
-// --- Sound Effects Helper ---
-const playSound = (type: 'correct' | 'wrong' | 'complete' | 'click') => {
-  try {
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const oscillator = audioCtx.createOscillator();
-    const gainNode = audioCtx.createGain();
-
-    oscillator.connect(gainNode);
-    gainNode.connect(audioCtx.destination);
-
-    if (type === 'correct') {
-      oscillator.type = 'sine';
-      oscillator.frequency.setValueAtTime(523.25, audioCtx.currentTime); // C5
-      oscillator.frequency.exponentialRampToValueAtTime(1046.50, audioCtx.currentTime + 0.1); // C6
-      gainNode.gain.setValueAtTime(0.1, audioCtx.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioCtx.currentTime + 0.2);
-      oscillator.start();
-      oscillator.stop(audioCtx.currentTime + 0.2);
-    } else if (type === 'wrong') {
-      oscillator.type = 'sawtooth';
-      oscillator.frequency.setValueAtTime(220, audioCtx.currentTime); // A3
-      oscillator.frequency.linearRampToValueAtTime(110, audioCtx.currentTime + 0.2); // A2
-      gainNode.gain.setValueAtTime(0.1, audioCtx.currentTime);
-      gainNode.gain.linearRampToValueAtTime(0.01, audioCtx.currentTime + 0.3);
-      oscillator.start();
-      oscillator.stop(audioCtx.currentTime + 0.3);
-    } else if (type === 'complete') {
-      const notes = [523.25, 659.25, 783.99, 1046.50];
-      notes.forEach((freq, i) => {
-        const osc = audioCtx.createOscillator();
-        const gain = audioCtx.createGain();
-        osc.connect(gain);
-        gain.connect(audioCtx.destination);
-        osc.type = 'triangle';
-        osc.frequency.setValueAtTime(freq, audioCtx.currentTime + i * 0.1);
-        gain.gain.setValueAtTime(0.1, audioCtx.currentTime + i * 0.1);
-        gain.gain.exponentialRampToValueAtTime(0.01, audioCtx.currentTime + i * 0.1 + 0.3);
-        osc.start(audioCtx.currentTime + i * 0.1);
-        osc.stop(audioCtx.currentTime + i * 0.1 + 0.3);
-      });
-    } else if (type === 'click') {
-      oscillator.type = 'sine';
-      oscillator.frequency.setValueAtTime(880, audioCtx.currentTime);
-      gainNode.gain.setValueAtTime(0.05, audioCtx.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioCtx.currentTime + 0.05);
-      oscillator.start();
-      oscillator.stop(audioCtx.currentTime + 0.05);
-    }
-  } catch (e) {
-    console.warn('Audio not supported or blocked', e);
-  }
-};
-
-interface HistoryEntry {
-  id: string;
-  date: string;
-  type: PlayType;
-  score: number;
-  total: number;
-  points: number;
-  isPassed: boolean;
-}
+const HISTORY_LIST_LENGTH = 20; // sessions listed on the menu
+const TABLE_RANGE_OPTIONS = [10, 12, 15, 20];
+const BADGE_FANFARE_DELAY = 900; // ms, lets the pass confetti settle first
 
 // --- Components ---
 
@@ -170,186 +122,425 @@ export default function App() {
   const [mode, setMode] = useState<GameMode>(GameMode.MENU);
   const [playType, setPlayType] = useState<PlayType>(PlayType.PRACTICE);
   const [selectedTables, setSelectedTables] = useState<number[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [results, setResults] = useState<Result[]>([]);
+  const [engine] = useState(() => createSessionEngine());
+  const [audio] = useState(createAudioManager);
+  const [session, setSession] = useState<SessionState | null>(null);
   const [userInput, setUserInput] = useState('');
-  const [timeLeft, setTimeLeft] = useState(MAX_TIME_PER_QUESTION);
-  const [showFeedback, setShowFeedback] = useState(false);
-  const [feedbackType, setFeedbackType] = useState<'correct' | 'wrong' | 'timeout' | null>(null);
-  const [lastFeedback, setLastFeedback] = useState<{ isCorrect: boolean; correctAnswer: number } | null>(null);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
-  const [tableColors, setTableColors] = useState<Record<number, string>>(DEFAULT_COLORS);
+  const [timeLeft, setTimeLeft] = useState(DEFAULT_PRESET.timePerQuestion);
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [presets, setPresets] = useState<TestPreset[]>(loadPresets);
+  const [uploadStatus, setUploadStatus] = useState<'idle' | 'sending' | 'sent' | 'queued' | 'failed'>('idle');
+  const [lastEntry, setLastEntry] = useState<HistoryEntry | null>(null);
+  const [newBadges, setNewBadges] = useState<Achievement[]>([]);
+  const [savedSession, setSavedSession] = useState<LiveSession | null>(null);
+  const [worksheetConfig, setWorksheetConfig] = useState<WorksheetConfig | null>(null);
+  const [testCodeInput, setTestCodeInput] = useState('');
+  const [testCodeError, setTestCodeError] = useState(false);
+  const [sharedTestCode, setSharedTestCode] = useState<string | null>(null);
+  const [aiClient] = useState(createDefaultAiClient);
+  const syncQueue = useSyncQueue();
+  const [deviceLocale, setDeviceLocale] = useState<Locale>(loadDeviceLocale);
+  const [announcement, setAnnouncement] = useState('');
+  const prefersReducedMotion = usePrefersReducedMotion();
   
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<number>(0);
+  const mainRef = useRef<HTMLElement>(null);
+  const answerInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profileStore.profiles.find(p => p.id === profileStore.activeProfileId) ?? null;
+  const { history, addEntries: addHistoryEntries, clearHistory } = useProfileHistory(activeProfile, (profileId, update) =>
+    setProfileStore(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => p.id === profileId ? { ...p, history: update(p.history) } : p)
+    })));
+  const accessibility = activeProfile?.settings.accessibility ?? DEFAULT_ACCESSIBILITY;
+  const audioSettings = activeProfile?.settings.audio ?? DEFAULT_AUDIO;
+  const playSound = audio.play;
+  const reduceMotion = shouldReduceMotion(accessibility, prefersReducedMotion);
+  const tableColors = resolveTableColors(activeProfile?.tableColors ?? DEFAULT_COLORS, accessibility.palette);
+  const questionKinds = activeProfile?.settings.questionKinds ?? ['multiply'];
+  const maxTable = activeProfile?.settings.maxTable ?? 10;
+  const availableTables = Array.from({ length: maxTable }, (_, i) => i + 1);
+  const selectedPreset = findPreset(presets, activeProfile?.settings.presetId ?? DEFAULT_PRESET.id);
+  const accommodations = activeProfile?.settings.accommodations ?? DEFAULT_ACCOMMODATIONS;
+  // Shorthands for the session the engine is running
+  const questions = session?.questions ?? [];
+  const currentIndex = session?.index ?? 0;
+  const results = session?.results ?? [];
+  const sessionPreset = session?.preset ?? DEFAULT_PRESET;
+  const feedbackType = session?.feedback ?? null;
+  const showFeedback = feedbackType !== null;
+  const isPaused = !!session?.pausedAt;
+  const timed = session !== null && isTimed(session);
+  const pausable = session !== null && canPause(session);
+  const locale = activeProfile?.settings.locale ?? deviceLocale;
+  const i18n = useMemo(() => createTranslator(locale), [locale]);
+  const { t, formatNumber, formatDateTime } = i18n;
+
+  // Restore the active student's last table selection on mount
+  useEffect(() => {
+    if (activeProfile) setSelectedTables(activeProfile.settings.lastSelectedTables);
+  }, []);
 
-  // Load history and colors on mount
+  // Save profiles to localStorage
   useEffect(() => {
-    const savedHistory = localStorage.getItem('plonninge_math_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error('Failed to parse history', e);
-      }
-    }
+    saveProfileStore(profileStore);
+  }, [profileStore]);
 
-    const savedColors = localStorage.getItem('plonninge_table_colors');
-    if (savedColors) {
-      try {
-        setTableColors(JSON.parse(savedColors));
-      } catch (e) {
-        console.error('Failed to parse colors', e);
-      }
-    }
-  }, []);
+  // The student's volume, mute and sound theme apply to every sound from here on
+  useEffect(() => {
+    audio.configure(audioSettings);
+  }, [audioSettings]);
 
-  // Save history to localStorage
+  // Save test presets to localStorage
   useEffect(() => {
-    localStorage.setItem('plonninge_math_history', JSON.stringify(history));
-  }, [history]);
+    savePresets(presets);
+  }, [presets]);
 
-  // Save colors to localStorage
+  // Save the session in progress after every answer, and again as the page is left, so it
+  // can be resumed after a reload with the time already spent on the current question
   useEffect(() => {
-    localStorage.setItem('plonninge_table_colors', JSON.stringify(tableColors));
-  }, [tableColors]);
+    if (mode !== GameMode.PLAYING || !activeProfile || session?.mode !== GameMode.PLAYING) return;
+    const save = () => saveLiveSession(engine.toLiveSession(session, activeProfile.id));
+    save();
+    window.addEventListener('pagehide', save);
+    return () => window.removeEventListener('pagehide', save);
+  }, [mode, session]);
+
+  // The engine decides when a session is over; save it once when that happens
+  useEffect(() => {
+    if (mode === GameMode.PLAYING && session?.mode === GameMode.RESULTS) finishSession(session);
+  }, [session]);
+
+  // Arabic switches the whole page to right-to-left
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = i18n.dir;
+  }, [locale]);
+
+  // Announce each question to screen readers, and read it aloud if the student asked for that
+  useEffect(() => {
+    const q = questions[currentIndex];
+    if (mode !== GameMode.PLAYING || isPaused || !q) return;
+    const spoken = spokenQuestion(i18n, q);
+    setAnnouncement(t('a11y.questionAnnouncement', { current: currentIndex + 1, total: questions.length, question: spoken }));
+    if (accessibility.readAloud) speak(spoken, locale);
+  }, [mode, currentIndex, questions, isPaused]);
+
+  // Look for an unfinished session whenever the menu is shown
+  useEffect(() => {
+    if (mode === GameMode.MENU) setSavedSession(activeProfile ? loadLiveSession(activeProfile.id) : null);
+  }, [mode, activeProfile?.id]);
+
+  // Pause automatically when the page is hidden, e.g. when switching tabs
+  useEffect(() => {
+    if (mode !== GameMode.PLAYING) return;
+    const onVisibilityChange = () => {
+      if (document.hidden) pauseSession('hidden');
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [mode]);
+
+  // Esc pauses, for students who only use the keyboard
+  useEffect(() => {
+    if (mode !== GameMode.PLAYING || !pausable || showFeedback) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') pauseSession('manual');
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [mode, pausable, showFeedback]);
+
+  // --- Profiles ---
+
+  const updateActiveProfile = (update: (profile: Profile) => Profile) => {
+    setProfileStore(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => p.id === prev.activeProfileId ? update(p) : p)
+    }));
+  };
+
+  const setTableColors = (update: (prev: Record<number, string>) => Record<number, string>) => {
+    updateActiveProfile(p => ({ ...p, tableColors: update(p.tableColors) }));
+  };
+
+  const selectProfile = (profile: Profile) => {
+    playSound('click');
+    setProfileStore(prev => ({ ...prev, activeProfileId: profile.id }));
+    setSelectedTables(profile.settings.lastSelectedTables);
+  };
+
+  const addProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    // A new student keeps the language already on screen
+    const created = createProfile(name);
+    const profile = { ...created, settings: { ...created.settings, locale } };
+    setProfileStore(prev => ({
+      activeProfileId: profile.id,
+      profiles: [...prev.profiles, profile]
+    }));
+    setSelectedTables([]);
+    setNewProfileName('');
+  };
+
+  const removeProfile = (profile: Profile) => {
+    if (!window.confirm(t('menu.confirmRemoveStudent', { name: profile.name }))) return;
+    setProfileStore(prev => {
+      const profiles = prev.profiles.filter(p => p.id !== profile.id);
+      const activeProfileId = prev.activeProfileId === profile.id ? profiles[0]?.id ?? null : prev.activeProfileId;
+      return { activeProfileId, profiles };
+    });
+    deleteHistory(profile.id).catch(e => console.error('Failed to delete history', e));
+    if (profileStore.activeProfileId === profile.id) setSelectedTables([]);
+  };
+
+  const updateAccessibility = (next: typeof accessibility) => {
+    updateActiveProfile(p => ({ ...p, settings: { ...p.settings, accessibility: next } }));
+  };
+
+  const updateAudio = (next: typeof audioSettings) => {
+    updateActiveProfile(p => ({ ...p, settings: { ...p.settings, audio: next } }));
+  };
+
+  const changeLocale = (next: Locale) => {
+    setDeviceLocale(next);
+    saveDeviceLocale(next);
+    if (activeProfile) updateActiveProfile(p => ({ ...p, settings: { ...p.settings, locale: next } }));
+  };
 
   // --- Logic ---
 
-  const generateQuestions = (type: PlayType, tables: number[]) => {
-    let qList: Question[] = [];
-    
-    // Both Practice and Test modes now use 40 questions from the selected tables
-    for (let i = 0; i < TEST_QUESTION_COUNT; i++) {
-      const a = tables[Math.floor(Math.random() * tables.length)];
-      const b = Math.floor(Math.random() * 10) + 1;
-      qList.push({ a, b, answer: a * b, table: a });
-    }
-    
-    return qList;
+  const celebrate = (options: confetti.Options) => {
+    if (!reduceMotion) confetti(options);
+  };
+
+  // Move keyboard and screen reader focus to the heading of a screen once it has appeared
+  const focusScreenHeading = () => {
+    if (mode === GameMode.PLAYING) return; // the answer field takes focus itself
+    const heading = mainRef.current?.querySelector<HTMLElement>('h1, h2');
+    if (!heading || mainRef.current?.contains(document.activeElement)) return;
+    heading.tabIndex = -1;
+    heading.focus();
   };
 
-  const startSession = (type: PlayType, tables: number[]) => {
-    const q = generateQuestions(type, tables);
-    setQuestions(q);
+  /** `shared` is a test code handed out by the teacher. */
+  const startSession = (type: PlayType, tables: number[], shared?: TestCodeConfig) => {
+    const started = engine.start({
+      playType: type,
+      tables,
+      preset: selectedPreset,
+      kinds: questionKinds,
+      facts: activeProfile?.facts ?? {},
+      accommodations,
+      shared
+    });
+    if (!shared) updateActiveProfile(p => ({ ...p, settings: { ...p.settings, lastSelectedTables: tables } }));
+    setSession(started);
     setPlayType(type);
-    setCurrentIndex(0);
-    setResults([]);
+    setUserInput('');
     setMode(GameMode.PLAYING);
-    resetQuestionState();
   };
 
-  const resetQuestionState = () => {
+  const startWithTestCode = () => {
+    const shared = decodeTestCode(testCodeInput);
+    setTestCodeError(!shared);
+    if (!shared) return;
+    setTestCodeInput('');
+    startSession(PlayType.TEST, shared.tables, shared);
+  };
+
+  const startRetry = (entry: HistoryEntry) => {
+    playSound('click');
+    setSession(engine.startRetry(entry, selectedPreset, accommodations));
+    setPlayType(PlayType.RETRY);
     setUserInput('');
-    setTimeLeft(MAX_TIME_PER_QUESTION);
-    setShowFeedback(false);
-    setFeedbackType(null);
-    startTimeRef.current = Date.now();
+    setMode(GameMode.PLAYING);
   };
 
-  useEffect(() => {
-    if (mode === GameMode.PLAYING && !showFeedback && playType === PlayType.TEST) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 0.1) {
-            handleAnswer(null); // Timeout
-            return 0;
-          }
-          return prev - 0.1;
-        });
-      }, 100);
-    } else {
-      if (timerRef.current) clearInterval(timerRef.current);
+  const resumeSavedSession = (saved: LiveSession) => {
+    const restored = engine.restore(saved);
+    setSession(restored);
+    setPlayType(saved.playType);
+    if (restored.mode === GameMode.RESULTS) {
+      finishSession(restored);
+      return;
     }
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, [mode, showFeedback, currentIndex, playType]);
+    setUserInput('');
+    setMode(GameMode.PLAYING);
+  };
 
-  const handleAnswer = (val: number | null) => {
-    if (showFeedback) return;
+  const discardSavedSession = () => {
+    if (!activeProfile || !window.confirm(t('menu.confirmDiscardSession'))) return;
+    clearLiveSession(activeProfile.id);
+    setSavedSession(null);
+  };
+
+  const pauseSession = (reason: PauseReason) => {
+    setSession(prev => prev && engine.pause(prev, reason));
+  };
+
+  const resumeSession = () => {
+    setSession(prev => prev && engine.resume(prev));
+  };
+
+  // The engine keeps the time; this only redraws the clock and reports the timeout
+  useEffect(() => {
+    if (mode !== GameMode.PLAYING || !session || !timed || session.feedback) return;
+    setTimeLeft(engine.timeLeft(session));
+    if (session.pausedAt) return;
+    const timer = setInterval(() => {
+      if (engine.hasTimedOut(session)) {
+        clearInterval(timer);
+        handleAnswer(null);
+      } else {
+        setTimeLeft(engine.timeLeft(session));
+      }
+    }, 100);
+    return () => clearInterval(timer);
+  }, [mode, session, timed]);
+
+  const handleAnswer = (val: number | null, from: SessionState | null = session) => {
+    const currentQ = from && currentQuestion(from);
+    if (!currentQ) return;
+    const answered = engine.answer(from, val);
+    if (answered === from) return;
+    setSession(answered);
+
+    const isCorrect = answered.feedback === 'correct';
+    const isTimeout = answered.feedback === 'timeout';
 
-    const currentQ = questions[currentIndex];
-    const isCorrect = val === currentQ.answer;
-    const isTimeout = val === null;
-    const timeTaken = (Date.now() - startTimeRef.current) / 1000;
-    
     if (isCorrect) {
       playSound('correct');
-      setFeedbackType('correct');
       // Small burst for every correct answer
-      confetti({
+      celebrate({
         particleCount: 40,
         spread: 50,
         origin: { y: 0.7 },
-        colors: [tableColors[currentQ.table], '#10b981', '#ffffff']
+        colors: [getTableColor(tableColors, currentQ.table), '#10b981', '#ffffff']
       });
-    } else if (isTimeout) {
-      playSound('wrong');
-      setFeedbackType('timeout');
     } else {
       playSound('wrong');
-      setFeedbackType('wrong');
     }
 
-    let points = 0;
-    if (isCorrect) {
-      points = Math.max(1, Math.ceil(MAX_POINTS_PER_QUESTION * (1 - (timeTaken / MAX_TIME_PER_QUESTION))));
-    }
-
-    const result: Result = {
-      question: currentQ,
-      userAnswer: val,
-      isCorrect,
-      timeTaken,
-      points
-    };
-
-    const newResults = [...results, result];
-    setResults(newResults);
-
-    setLastFeedback({ isCorrect, correctAnswer: currentQ.answer });
-    setShowFeedback(true);
+    setAnnouncement(isCorrect
+      ? t('playing.correct')
+      : `${t(isTimeout ? 'playing.timeout' : 'playing.wrong')} ${t('playing.answerIs', { answer: currentQ.answer })}`);
+    audio.sayFeedback(isCorrect ? t('speech.correct') : t('playing.answerIs', { answer: currentQ.answer }), locale);
 
     const delay = isCorrect ? 800 : 2000;
 
     setTimeout(() => {
-      nextQuestion(newResults);
+      setUserInput('');
+      setSession(prev => prev && engine.advance(prev));
     }, delay);
   };
 
-  const nextQuestion = (currentResults: Result[]) => {
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-      resetQuestionState();
-    } else {
-      setMode(GameMode.RESULTS);
-      const totalCorrect = currentResults.filter(r => r.isCorrect).length;
-      const totalPoints = currentResults.reduce((sum, r) => sum + r.points, 0);
-      const passed = playType === PlayType.TEST && (totalCorrect >= PASS_SCORE_THRESHOLD || totalPoints >= PASS_SPEED_THRESHOLD);
-      
-      if (passed) {
-        playSound('complete');
-        confetti({
-          particleCount: 150,
-          spread: 70,
-          origin: { y: 0.6 }
-        });
-      }
+  // Every change to the answer field is noted; practice answers as soon as the right number is in
+  const changeInput = (value: string) => {
+    if (!session || showFeedback) return;
+    setUserInput(value);
+    const typed = engine.recordInput(session, value);
+    const q = currentQuestion(typed);
+    if (autoSubmits(typed) && q && parseInt(value) === q.answer) handleAnswer(parseInt(value), typed);
+    else setSession(typed);
+  };
+
+  const finishSession = (finished: SessionState) => {
+    setMode(GameMode.RESULTS);
+    const currentResults = finished.results;
+    const { totalCorrect, totalPoints } = getSessionStats(currentResults);
+    const passed = isSessionPassed(finished);
+
+    if (passed) {
+      playSound('complete');
+      celebrate({
+        particleCount: 150,
+        spread: 70,
+        origin: { y: 0.6 }
+      });
+    }
+
+    // Save to history
+    const now = Date.now();
+    const flags = integrityFlags(finished.playType, currentResults, finished.pauses);
+    const newEntry: HistoryEntry = {
+      id: now.toString(),
+      date: formatDateTime(now),
+      type: finished.playType,
+      score: totalCorrect,
+      total: currentResults.length,
+      points: totalPoints,
+      isPassed: passed,
+      timestamp: now,
+      results: currentResults,
+      preset: finished.preset,
+      pauses: finished.pauses.length > 0 ? finished.pauses : undefined,
+      testCode: finished.testCode ?? undefined,
+      accommodations: finished.accommodations ?? undefined,
+      retryOf: finished.retryOf ?? undefined,
+      integrityFlags: flags.length > 0 ? flags : undefined
+    };
+    setLastEntry(newEntry);
+    addHistoryEntries([newEntry]);
+    updateActiveProfile(p => ({ ...p, facts: updateFactStates(p.facts, currentResults, now) }));
+    unlockAchievements(newEntry, updateFactStates(activeProfile?.facts ?? {}, currentResults, now), now);
+    if (activeProfile) clearLiveSession(activeProfile.id);
+    uploadSession(newEntry, currentResults);
+  };
 
-      // Save to history
-      const newEntry: HistoryEntry = {
-        id: Date.now().toString(),
-        date: new Date().toLocaleString('sv-SE'),
-        type: playType,
-        score: totalCorrect,
-        total: questions.length,
-        points: totalPoints,
-        isPassed: passed
-      };
-      setHistory(prev => [newEntry, ...prev].slice(0, 20)); // Keep last 20
+  // Checked after every session. New badges get their own fanfare, just after the one for passing.
+  const unlockAchievements = (entry: HistoryEntry, facts: Profile['facts'], now: number) => {
+    const earned = activeProfile
+      ? evaluateAchievements({ entry, history: [entry, ...history], facts, now }, activeProfile.achievements)
+      : [];
+    setNewBadges(earned);
+    if (earned.length === 0) return;
+    updateActiveProfile(p => ({
+      ...p,
+      achievements: { ...p.achievements, ...Object.fromEntries(earned.map(a => [a.id, now])) }
+    }));
+    setTimeout(() => {
+      playSound('complete');
+      celebrate({
+        particleCount: 100,
+        spread: 100,
+        origin: { y: 0.4 },
+        shapes: ['star'],
+        colors: ['#f59e0b', '#fbbf24', '#fde68a']
+      });
+      setAnnouncement(`${t('results.newBadges', { count: earned.length })} ${earned.map(a => achievementTitle(i18n, a)).join(', ')}`);
+    }, BADGE_FANFARE_DELAY);
+  };
+
+  const uploadSession = (entry: HistoryEntry, sessionResults: Result[]) => {
+    const classCode = activeProfile?.settings.classCode.trim();
+    if (!activeProfile || !classCode) {
+      setUploadStatus('idle');
+      return;
     }
+    setUploadStatus('sending');
+    // The per-question rows travel separately, no need to send them twice.
+    const { results: _, ...summary } = entry;
+    const upload = { classCode, studentName: activeProfile.name, entry: summary, results: sessionResults };
+    // Queued first, so a session finished offline is sent when the network is back
+    const key = uploadKey(upload);
+    syncQueue.queueUpload(upload).then(({ sent, rejected }) => {
+      setUploadStatus(sent.includes(key) ? 'sent' : rejected.includes(key) ? 'failed' : 'queued');
+    });
+  };
+
+  // "efter Test med 31/40 rätt", for a retry round whose first session is still in the history
+  const describeRetryOf = (id: string) => {
+    const original = history.find(e => e.id === id);
+    return original && t('common.retryOf', { type: t(`playType.${original.type}`), score: original.score, total: original.total });
+  };
+
+  const importHistory = (entries: HistoryEntry[]) => {
+    const { added } = mergeHistory(history, entries);
+    addHistoryEntries(added);
+    return added.length;
   };
 
   const toggleTable = (t: number) => {
@@ -359,11 +550,43 @@ export default function App() {
     );
   };
 
+  const changeMaxTable = (n: number) => {
+    playSound('click');
+    updateActiveProfile(p => ({ ...p, settings: { ...p.settings, maxTable: n } }));
+    setSelectedTables(prev => prev.filter(t => t <= n));
+  };
+
+  const toggleQuestionKind = (kind: QuestionKind) => {
+    playSound('click');
+    updateActiveProfile(p => {
+      const current = p.settings.questionKinds;
+      const next = current.includes(kind) ? current.filter(k => k !== kind) : [...current, kind];
+      // At least one kind has to stay selected
+      if (next.length === 0) return p;
+      return { ...p, settings: { ...p.settings, questionKinds: QUESTION_KINDS.filter(k => next.includes(k)) } };
+    });
+  };
+
+  const openWorksheet = () => {
+    playSound('click');
+    const weakFacts = getTroubleSpots(getFactMastery(history))
+      .slice(0, MAX_WORKSHEET_WEAK_FACTS)
+      .map(m => ({ a: m.a, b: m.b }));
+    const { rules: _, ...base } = engine.buildTestCode(selectedTables, selectedPreset, questionKinds);
+    setWorksheetConfig({
+      ...base,
+      count: Math.min(MAX_WORKSHEET_PROBLEMS, Math.max(MIN_WORKSHEET_PROBLEMS, base.count)),
+      columns: DEFAULT_WORKSHEET_COLUMNS,
+      weakFacts
+    });
+    setMode(GameMode.WORKSHEET);
+  };
+
   const cycleTableColor = (t: number, e: React.MouseEvent) => {
     e.stopPropagation();
     playSound('click');
     setTableColors(prev => {
-      const currentColor = prev[t];
+      const currentColor = getTableColor(prev, t);
       const currentIndex = COLOR_PALETTE.indexOf(currentColor);
       const nextIndex = (currentIndex + 1) % COLOR_PALETTE.length;
       return { ...prev, [t]: COLOR_PALETTE[nextIndex] };
@@ -372,30 +595,9 @@ export default function App() {
 
   // --- Statistics ---
 
-  const stats = useMemo(() => {
-    if (results.length === 0) return null;
-    
-    const totalCorrect = results.filter(r => r.isCorrect).length;
-    const totalPoints = results.reduce((sum, r) => sum + r.points, 0);
-    
-    const tableStats: Record<number, { correct: number; total: number }> = {};
-    results.forEach(r => {
-      const t = r.question.table;
-      if (!tableStats[t]) tableStats[t] = { correct: 0, total: 0 };
-      tableStats[t].total++;
-      if (r.isCorrect) tableStats[t].correct++;
-    });
-
-    const needsPractice = Object.entries(tableStats)
-      .filter(([_, s]) => s.correct / s.total < 0.8)
-      .map(([t]) => t);
-
-    const wrongAnswers = results.filter(r => !r.isCorrect);
+  const stats = useMemo(() => results.length === 0 ? null : getSessionStats(results), [results]);
 
-    return { totalCorrect, totalPoints, needsPractice, wrongAnswers };
-  }, [results]);
-
-  const isPassed = playType === PlayType.TEST && stats && (stats.totalCorrect >= PASS_SCORE_THRESHOLD || stats.totalPoints >= PASS_SPEED_THRESHOLD);
+  const isPassed = session !== null && isSessionPassed(session);
 
   // --- Render Helpers ---
 
@@ -405,131 +607,515 @@ export default function App() {
         <div className="inline-flex items-center justify-center p-4 bg-emerald-100 rounded-full text-emerald-600 mb-4">
           <School size={48} />
         </div>
-        <h1 className="text-4xl font-bold tracking-tight text-slate-900">Plönninge multiplikationskoll</h1>
-        <p className="text-slate-500 text-lg">Välj ett läge för att börja träna!</p>
+        <h1 className="text-4xl font-bold tracking-tight text-slate-900">{t('app.title')}</h1>
+        <p className="text-slate-500 text-lg">{t('menu.subtitle')}</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 w-full max-w-2xl">
+      {/* Profile Picker */}
+      <div className="w-full max-w-2xl bg-white rounded-3xl border border-slate-100 p-6 shadow-sm">
+        <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center space-x-2">
+          <Users size={20} className="text-emerald-500" />
+          <span>{t('menu.whoIsPlaying')}</span>
+        </h3>
+        <div className="flex flex-wrap gap-3">
+          {profileStore.profiles.map(profile => (
+            <div key={profile.id} className="relative group">
+              <button
+                onClick={() => selectProfile(profile)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-xl border-2 font-semibold transition-all ${
+                  profile.id === activeProfile?.id
+                    ? 'bg-emerald-500 border-emerald-500 text-white shadow-sm'
+                    : 'bg-white border-slate-100 text-slate-600 hover:border-emerald-300'
+                }`}
+              >
+                <UserCircle size={18} />
+                <span>{profile.name}</span>
+              </button>
+              <button
+                onClick={() => removeProfile(profile)}
+                className="absolute -top-2 -right-2 w-6 h-6 bg-white rounded-full shadow-md border border-slate-100 flex items-center justify-center text-slate-400 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title={t('menu.removeStudent')}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addProfile();
+          }}
+          className="mt-4 flex space-x-2"
+        >
+          <input
+            type="text"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            maxLength={24}
+            placeholder={t('menu.newStudentPlaceholder')}
+            className="flex-1 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-emerald-500 focus:outline-none text-slate-700"
+          />
+          <button
+            type="submit"
+            disabled={!newProfileName.trim()}
+            className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+          >
+            <UserPlus size={18} />
+            <span>{t('menu.addStudent')}</span>
+          </button>
+        </form>
+        {activeProfile && (
+          <label className="mt-4 flex items-center space-x-3 text-sm text-slate-500">
+            <span className="font-semibold">{t('menu.classCode', { name: activeProfile.name })}</span>
+            <input
+              type="text"
+              value={activeProfile.settings.classCode}
+              onChange={(e) => {
+                const classCode = e.target.value.toUpperCase();
+                updateActiveProfile(p => ({ ...p, settings: { ...p.settings, classCode } }));
+              }}
+              maxLength={6}
+              placeholder={t('menu.classCodePlaceholder')}
+              className="w-32 px-3 py-1 rounded-lg border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-mono tracking-widest uppercase text-slate-700"
+            />
+          </label>
+        )}
+      </div>
+
+      {/* Unfinished Session */}
+      {savedSession && (
+        <div className="w-full max-w-2xl bg-indigo-50 rounded-3xl border border-indigo-100 p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-indigo-900">{t('menu.unfinishedTitle')}</h3>
+            <p className="text-indigo-700 text-sm">
+              {t('menu.unfinishedProgress', {
+                type: t(`playType.${savedSession.playType}`),
+                answered: savedSession.results.length,
+                count: savedSession.questions.length
+              })}
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={discardSavedSession}
+              className="px-4 py-2 bg-white text-slate-500 rounded-xl font-semibold hover:text-red-500 transition-colors"
+            >
+              {t('menu.discardSession')}
+            </button>
+            <button
+              onClick={() => resumeSavedSession(savedSession)}
+              className="px-6 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors flex items-center space-x-2"
+            >
+              <Play size={18} />
+              <span>{t('common.continue')}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 w-full max-w-3xl">
         <motion.button 
           whileHover={{ scale: 1.05, y: -5 }}
           whileTap={{ scale: 0.95 }}
+          disabled={!activeProfile}
           onClick={() => {
             setPlayType(PlayType.PRACTICE);
             setMode(GameMode.PRACTICE_SETUP);
           }}
-          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-emerald-500 hover:shadow-md transition-all duration-300"
+          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-emerald-500 hover:shadow-md transition-all duration-300 disabled:opacity-50 disabled:pointer-events-none"
         >
           <div className="p-3 sm:p-4 bg-emerald-50 rounded-2xl text-emerald-600 group-hover:bg-emerald-500 group-hover:text-white transition-colors mb-4">
             <Calculator size={28} className="sm:w-8 sm:h-8" />
           </div>
-          <span className="text-lg sm:text-xl font-semibold text-slate-800">Öva</span>
-          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">Välj specifika tabeller och få direkt feedback.</p>
+          <span className="text-lg sm:text-xl font-semibold text-slate-800">{t('menu.practice')}</span>
+          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">{t('menu.practiceDescription')}</p>
         </motion.button>
 
         <motion.button 
           whileHover={{ scale: 1.05, y: -5 }}
           whileTap={{ scale: 0.95 }}
+          disabled={!activeProfile}
           onClick={() => {
             setPlayType(PlayType.TEST);
             setMode(GameMode.PRACTICE_SETUP);
           }}
-          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-indigo-500 hover:shadow-md transition-all duration-300"
+          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-indigo-500 hover:shadow-md transition-all duration-300 disabled:opacity-50 disabled:pointer-events-none"
         >
           <div className="p-3 sm:p-4 bg-indigo-50 rounded-2xl text-indigo-600 group-hover:bg-indigo-500 group-hover:text-white transition-colors mb-4">
             <Trophy size={28} className="sm:w-8 sm:h-8" />
           </div>
-          <span className="text-lg sm:text-xl font-semibold text-slate-800">Test</span>
-          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">40 frågor på tid. Kan du bli godkänd?</p>
+          <span className="text-lg sm:text-xl font-semibold text-slate-800">{t('menu.test')}</span>
+          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">{t('menu.testDescription', { count: selectedPreset.questionCount })}</p>
+        </motion.button>
+
+        <motion.button 
+          whileHover={{ scale: 1.05, y: -5 }}
+          whileTap={{ scale: 0.95 }}
+          disabled={!activeProfile}
+          onClick={() => {
+            setPlayType(PlayType.SMART);
+            setMode(GameMode.PRACTICE_SETUP);
+          }}
+          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-amber-500 hover:shadow-md transition-all duration-300 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <div className="p-3 sm:p-4 bg-amber-50 rounded-2xl text-amber-600 group-hover:bg-amber-500 group-hover:text-white transition-colors mb-4">
+            <Brain size={28} className="sm:w-8 sm:h-8" />
+          </div>
+          <span className="text-lg sm:text-xl font-semibold text-slate-800">{t('menu.smart')}</span>
+          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">{t('menu.smartDescription')}</p>
+        </motion.button>
+
+        <motion.button 
+          whileHover={{ scale: 1.05, y: -5 }}
+          whileTap={{ scale: 0.95 }}
+          disabled={!activeProfile}
+          onClick={() => {
+            setPlayType(PlayType.ADAPTIVE);
+            setMode(GameMode.PRACTICE_SETUP);
+          }}
+          className="group flex flex-col items-center p-6 sm:p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-sky-500 hover:shadow-md transition-all duration-300 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <div className="p-3 sm:p-4 bg-sky-50 rounded-2xl text-sky-600 group-hover:bg-sky-500 group-hover:text-white transition-colors mb-4">
+            <Gauge size={28} className="sm:w-8 sm:h-8" />
+          </div>
+          <span className="text-lg sm:text-xl font-semibold text-slate-800">{t('menu.adaptive')}</span>
+          <p className="text-slate-500 text-center mt-2 text-xs sm:text-sm">{t('menu.adaptiveDescription')}</p>
         </motion.button>
       </div>
 
+      <button
+        onClick={() => setMode(GameMode.COMPETITION_JOIN)}
+        className="w-full max-w-3xl flex items-center justify-center space-x-4 p-4 bg-white border-2 border-slate-100 rounded-3xl shadow-sm hover:border-indigo-500 transition-colors"
+      >
+        <div className="p-2 bg-indigo-50 rounded-xl text-indigo-600">
+          <Swords size={24} />
+        </div>
+        <div className="text-start">
+          <span className="block text-lg font-semibold text-slate-800">{t('menu.competition')}</span>
+          <span className="block text-slate-500 text-xs sm:text-sm">{t('menu.competitionDescription')}</span>
+        </div>
+      </button>
+
+      {activeProfile && (
+        <BadgeCabinet unlocked={activeProfile.achievements} history={history} maxTable={maxTable} />
+      )}
+
       {/* History Section */}
-      {history.length > 0 && (
+      {activeProfile && (
         <div className="w-full max-w-2xl bg-white rounded-3xl border border-slate-100 p-6 shadow-sm">
           <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center space-x-2">
             <BarChart3 size={20} className="text-indigo-500" />
-            <span>Senaste resultat</span>
+            <span>{t('menu.recentResults')}</span>
           </h3>
+          {history.length === 0 && (
+            <p className="text-sm text-slate-500">{t('menu.noResults')}</p>
+          )}
           <div className="space-y-3">
-            {history.map(entry => (
+            {history.slice(0, HISTORY_LIST_LENGTH).map(entry => (
               <div key={entry.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-xl">
                 <div className="flex items-center space-x-3">
                   <div className={`p-2 rounded-lg ${entry.isPassed ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-200 text-slate-500'}`}>
-                    {entry.type === PlayType.TEST ? <Trophy size={16} /> : <Calculator size={16} />}
+                    {entry.type === PlayType.TEST ? <Trophy size={16} />
+                      : entry.type === PlayType.SMART ? <Brain size={16} />
+                      : entry.type === PlayType.RETRY ? <Repeat size={16} />
+                      : entry.type === PlayType.ADAPTIVE ? <Gauge size={16} />
+                      : <Calculator size={16} />}
                   </div>
                   <div>
                     <span className="block text-sm font-bold text-slate-700">
-                      {entry.type === PlayType.TEST ? 'Test' : 'Övning'} - {entry.score}/{entry.total}
+                      {t(`playType.${entry.type}`)} - <span dir="ltr">{entry.score}/{entry.total}</span>
+                    </span>
+                    <span className="block text-[10px] text-slate-400 uppercase font-bold">
+                      {entry.timestamp ? formatDateTime(entry.timestamp) : entry.date}{entry.preset && ` · ${entry.preset.name}`}
+                      {entry.pauses && ` · ${t('menu.pauses', { count: entry.pauses.length })}`}
+                      {entry.accommodations && ` · ${t('common.accommodated')}`}
+                      {entry.integrityFlags && (
+                        <span className="text-amber-600" title={entry.integrityFlags.map(f => t(`integrity.${f}`)).join(', ')}>
+                          {` · ${t('common.flagged')}`}
+                        </span>
+                      )}
+                      {entry.retryOf && describeRetryOf(entry.retryOf) && ` · ${describeRetryOf(entry.retryOf)}`}
                     </span>
-                    <span className="block text-[10px] text-slate-400 uppercase font-bold">{entry.date}</span>
                   </div>
                 </div>
-                <div className="text-right">
+                <div className="text-end">
                   <span className={`text-sm font-black ${entry.isPassed ? 'text-emerald-500' : 'text-slate-400'}`}>
-                    {entry.isPassed ? 'GODKÄND' : `${entry.points}p`}
+                    {entry.isPassed ? t('common.passed') : t('common.points', { count: entry.points })}
                   </span>
                 </div>
               </div>
             ))}
           </div>
-          <button 
-            onClick={() => setHistory([])}
-            className="mt-4 text-xs text-slate-400 hover:text-red-400 transition-colors font-bold uppercase tracking-widest"
-          >
-            Rensa historik
-          </button>
+          {history.length > 0 && (
+            <div className="mt-4 flex items-center justify-between">
+              <button 
+                onClick={clearHistory}
+                className="text-xs text-slate-400 hover:text-red-400 transition-colors font-bold uppercase tracking-widest"
+              >
+                {t('menu.clearHistory')}
+              </button>
+              <button
+                onClick={() => setMode(GameMode.MASTERY)}
+                className="flex items-center space-x-1 text-xs text-indigo-500 hover:text-indigo-600 transition-colors font-bold uppercase tracking-widest"
+              >
+                <Grid3x3 size={14} />
+                <span>{t('menu.masteryMap')}</span>
+              </button>
+              <button
+                onClick={() => setMode(GameMode.PROGRESS)}
+                className="flex items-center space-x-1 text-xs text-indigo-500 hover:text-indigo-600 transition-colors font-bold uppercase tracking-widest"
+              >
+                <TrendingUp size={14} />
+                <span>{t('menu.progress')}</span>
+              </button>
+            </div>
+          )}
+          <div className="mt-4 pt-4 border-t border-slate-100">
+            <HistoryTransfer profileName={activeProfile.name} history={history} onImport={importHistory} />
+          </div>
         </div>
       )}
+
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+        <button
+          onClick={() => setMode(GameMode.TEACHER)}
+          className="flex items-center space-x-2 text-sm text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest"
+        >
+          <GraduationCap size={16} />
+          <span>{t('menu.teacherView')}</span>
+        </button>
+        <button
+          onClick={() => setMode(GameMode.COMPETITION_HOST)}
+          className="flex items-center space-x-2 text-sm text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest"
+        >
+          <Swords size={16} />
+          <span>{t('menu.hostCompetition')}</span>
+        </button>
+        <button
+          onClick={() => setMode(GameMode.PRESETS)}
+          className="flex items-center space-x-2 text-sm text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest"
+        >
+          <SlidersHorizontal size={16} />
+          <span>{t('menu.testSettings')}</span>
+        </button>
+        {activeProfile && (
+          <button
+            onClick={() => setMode(GameMode.ACCESSIBILITY)}
+            className="flex items-center space-x-2 text-sm text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest"
+          >
+            <Accessibility size={16} />
+            <span>{t('menu.accessibility')}</span>
+          </button>
+        )}
+        {activeProfile && (
+          <button
+            onClick={() => setMode(GameMode.ACCOMMODATIONS)}
+            className="flex items-center space-x-2 text-sm text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest"
+          >
+            <HeartHandshake size={16} />
+            <span>{t('menu.accommodations')}</span>
+          </button>
+        )}
+      </div>
     </div>
   );
 
   const renderPracticeSetup = () => (
     <div className="flex flex-col items-center space-y-8 py-8">
       <div className="text-center">
-        <h2 className="text-3xl font-bold text-slate-900">Vilka tabeller vill du {playType === PlayType.TEST ? 'testa' : 'öva'}?</h2>
-        <p className="text-slate-500 mt-2">Välj en eller flera tabeller mellan 1 och 10.</p>
+        <h2 className="text-3xl font-bold text-slate-900">{t(playType === PlayType.TEST ? 'setup.titleTest' : 'setup.titlePractice')}</h2>
+        <p className="text-slate-500 mt-2">{t('setup.chooseTables', { max: maxTable })}</p>
+        {playType === PlayType.SMART && selectedTables.length > 0 && (
+          <p className="text-amber-600 font-semibold mt-2">
+            {t('setup.dueFacts', {
+              count: countDueFacts(activeProfile?.facts ?? {}, selectedTables, factorRange(selectedPreset), Date.now())
+            })}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+        <span className="font-semibold text-slate-500">{t('setup.tablesUpTo')}</span>
+        {TABLE_RANGE_OPTIONS.map(n => (
+          <button
+            key={n}
+            onClick={() => changeMaxTable(n)}
+            aria-pressed={maxTable === n}
+            className={`w-10 h-10 rounded-xl border-2 font-bold transition-colors ${
+              maxTable === n ? 'bg-slate-800 border-slate-800 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-slate-300'
+            }`}
+          >
+            {n}
+          </button>
+        ))}
+        <button
+          onClick={() => {
+            playSound('click');
+            setSelectedTables(selectedTables.length === availableTables.length ? [] : availableTables);
+          }}
+          className="px-3 h-10 rounded-xl bg-slate-100 text-slate-600 font-semibold hover:bg-slate-200 transition-colors"
+        >
+          {t(selectedTables.length === availableTables.length ? 'setup.deselectAll' : 'setup.selectAll')}
+        </button>
       </div>
 
-      <div className="grid grid-cols-3 sm:grid-cols-5 gap-4">
-        {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(t => (
-          <div key={t} className="relative group">
+      <div className={`grid gap-3 sm:gap-4 ${maxTable > 12 ? 'grid-cols-4 sm:grid-cols-5 md:grid-cols-10' : 'grid-cols-3 sm:grid-cols-5'}`}>
+        {availableTables.map(table => (
+          <div key={table} className="relative group">
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
-              onClick={() => toggleTable(t)}
+              onClick={() => toggleTable(table)}
               style={{ 
-                backgroundColor: selectedTables.includes(t) ? tableColors[t] : 'white',
-                borderColor: selectedTables.includes(t) ? tableColors[t] : '#f1f5f9',
-                color: selectedTables.includes(t) ? 'white' : '#475569'
+                backgroundColor: selectedTables.includes(table) ? getTableColor(tableColors, table) : 'white',
+                borderColor: selectedTables.includes(table) ? getTableColor(tableColors, table) : '#f1f5f9',
+                color: selectedTables.includes(table) ? 'white' : '#475569'
               }}
               className={`w-16 h-16 rounded-2xl flex items-center justify-center text-xl font-bold border-2 transition-all shadow-sm`}
             >
-              {t}
+              {table}
             </motion.button>
+            {accessibility.palette === 'standard' && (
+              <button
+                onClick={(e) => cycleTableColor(table, e)}
+                className="absolute -top-2 -right-2 w-6 h-6 bg-white rounded-full shadow-md border border-slate-100 flex items-center justify-center text-slate-400 hover:text-indigo-500 transition-colors z-10"
+                title={t('setup.changeColor')}
+              >
+                <Settings size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center space-y-2">
+        <span className="text-sm font-semibold text-slate-500">{t('setup.questionKinds')}</span>
+        <div className="flex flex-wrap justify-center gap-2">
+          {QUESTION_KINDS.map(kind => {
+            const active = questionKinds.includes(kind);
+            return (
+              <button
+                key={kind}
+                onClick={() => toggleQuestionKind(kind)}
+                aria-pressed={active}
+                className={`px-4 py-2 rounded-xl border-2 font-semibold text-sm transition-colors ${
+                  active ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-300'
+                }`}
+              >
+                {t(`kind.${kind}`)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="flex flex-col items-center space-y-2">
+        <span className="text-sm font-semibold text-slate-500">{t('setup.preset')}</span>
+        <select
+          value={selectedPreset.id}
+          onChange={(e) => {
+            const presetId = e.target.value;
+            updateActiveProfile(p => ({ ...p, settings: { ...p.settings, presetId } }));
+          }}
+          className="px-4 py-2 rounded-xl border-2 border-slate-100 bg-white font-semibold text-slate-700 focus:border-indigo-500 focus:outline-none"
+        >
+          {presets.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-400">
+          {t('common.questions', { count: selectedPreset.questionCount })}
+          {' · '}{t('setup.factorRange', { min: selectedPreset.minFactor, max: selectedPreset.maxFactor })}
+          {playType === PlayType.TEST && ` · ${accommodations.untimed
+            ? t('setup.untimed')
+            : t('setup.secondsPerQuestion', { seconds: applyAccommodations(selectedPreset, accommodations).timePerQuestion })}`}
+        </span>
+      </label>
+
+      {playType === PlayType.TEST && (
+        <div className="w-full max-w-md bg-white rounded-2xl border border-slate-100 p-4 shadow-sm space-y-3">
+          <div className="flex items-center space-x-2 text-sm font-semibold text-slate-500">
+            <KeyRound size={16} />
+            <span>{t('setup.sharedTest')}</span>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              startWithTestCode();
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={testCodeInput}
+              onChange={(e) => {
+                setTestCodeInput(e.target.value);
+                setTestCodeError(false);
+              }}
+              placeholder={t('setup.testCodePlaceholder')}
+              className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-mono text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!testCodeInput.trim()}
+              className="px-4 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {t('setup.start')}
+            </button>
+          </form>
+          {testCodeError && <p className="text-sm font-medium text-red-600">{t('setup.testCodeInvalid')}</p>}
+          <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-100">
+            {sharedTestCode ? (
+              <span className="font-mono font-bold text-slate-800 select-all break-all">{sharedTestCode}</span>
+            ) : (
+              <span className="text-xs text-slate-400">{t('setup.testCodeHelp')}</span>
+            )}
             <button
-              onClick={(e) => cycleTableColor(t, e)}
-              className="absolute -top-2 -right-2 w-6 h-6 bg-white rounded-full shadow-md border border-slate-100 flex items-center justify-center text-slate-400 hover:text-indigo-500 transition-colors z-10"
-              title="Ändra färg"
+              disabled={selectedTables.length === 0}
+              onClick={() => setSharedTestCode(encodeTestCode(engine.buildTestCode(selectedTables, selectedPreset, questionKinds)))}
+              className="shrink-0 text-xs text-indigo-500 hover:text-indigo-600 font-bold uppercase tracking-widest disabled:opacity-50"
             >
-              <Settings size={12} />
+              {t('setup.createCode')}
             </button>
           </div>
-        ))}
-      </div>
+        </div>
+      )}
 
-      <div className="flex space-x-4">
+      <div className="flex flex-wrap justify-center gap-4">
         <button 
           onClick={() => setMode(GameMode.MENU)}
           className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
         >
-          Avbryt
+          {t('common.cancel')}
         </button>
+        <button
+          disabled={selectedTables.length === 0}
+          onClick={openWorksheet}
+          className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-600 rounded-xl font-semibold hover:border-indigo-300 hover:text-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+        >
+          <Printer size={18} />
+          <span>{t('setup.worksheet')}</span>
+        </button>
+        {playType !== PlayType.TEST && (
+          <button
+            disabled={selectedTables.length === 0}
+            onClick={() => {
+              playSound('click');
+              setMode(GameMode.WORD_PROBLEMS);
+            }}
+            className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-600 rounded-xl font-semibold hover:border-indigo-300 hover:text-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <BookOpen size={18} />
+            <span>{t('setup.wordProblems')}</span>
+          </button>
+        )}
         <button 
           disabled={selectedTables.length === 0}
           onClick={() => startSession(playType, selectedTables)}
           className="px-8 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
         >
-          <span>Starta {playType === PlayType.TEST ? 'testet' : 'övningen'}</span>
+          <span>{t(playType === PlayType.TEST ? 'setup.startTest' : 'setup.startPractice')}</span>
           <ChevronRight size={20} />
         </button>
       </div>
@@ -539,22 +1125,66 @@ export default function App() {
   const renderPlaying = () => {
     const currentQ = questions[currentIndex];
     if (!currentQ) return null;
-
-    return (
-      <div className="flex flex-col items-center justify-center py-12 space-y-12">
-        {/* Header Info */}
-        <div className="w-full max-w-md flex items-center justify-between px-4">
-          <div className="flex items-center space-x-2 text-slate-500 font-medium">
-            <GraduationCap size={20} />
-            <span>Fråga {currentIndex + 1} av {questions.length}</span>
-          </div>
+    const keyHeight = accommodations.largeTargets ? 'h-24' : 'h-16';
+    const hintsShown = session?.hintsShown ?? 0;
+    const hintCount = canUseHints(playType) ? hintSteps(currentQ).length : 0;
+
+    const headerInfo = (
+      <div className="w-full max-w-md flex items-center justify-between px-4">
+        <div className="flex items-center space-x-2 text-slate-500 font-medium">
+          <GraduationCap size={20} />
+          <span>{t('playing.questionOf', { current: currentIndex + 1, total: questions.length })}</span>
+        </div>
+        <div className="flex items-center space-x-2">
           {playType === PlayType.TEST && (
             <div className="flex items-center space-x-2 text-indigo-600 font-bold bg-indigo-50 px-3 py-1 rounded-full">
               <Trophy size={16} />
-              <span>Testläge</span>
+              <span>{t('playing.testMode')}</span>
             </div>
           )}
+          {pausable && !isPaused && (
+            <button
+              onClick={() => pauseSession('manual')}
+              disabled={showFeedback}
+              className="p-2 rounded-full bg-white border border-slate-200 text-slate-500 hover:text-indigo-500 transition-colors disabled:opacity-50"
+              title={t('playing.pause')}
+            >
+              <Pause size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+
+    if (isPaused) {
+      return (
+        <div className="flex flex-col items-center justify-center py-12 space-y-12">
+          {headerInfo}
+          <div className="w-full max-w-lg bg-white rounded-[32px] sm:rounded-[40px] shadow-2xl border border-slate-100 p-10 flex flex-col items-center space-y-6 text-center">
+            <div className="p-4 bg-indigo-50 text-indigo-500 rounded-full">
+              <Pause size={40} />
+            </div>
+            <h2 className="text-3xl font-black text-slate-900">{t('playing.paused')}</h2>
+            <p className="text-slate-500">
+              {t(playType === PlayType.TEST ? 'playing.pausedTest' : 'playing.pausedPractice')}
+            </p>
+            <button
+              autoFocus
+              onClick={resumeSession}
+              className="px-8 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-all flex items-center space-x-2"
+            >
+              <Play size={20} />
+              <span>{t('common.continue')}</span>
+            </button>
+          </div>
         </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col items-center justify-center py-12 space-y-12">
+        {/* Header Info */}
+        {headerInfo}
 
         {/* Question Card */}
         <motion.div 
@@ -576,7 +1206,7 @@ export default function App() {
             x: { duration: 0.4 },
             scale: { duration: 0.3 }
           }}
-          style={{ borderTopColor: tableColors[currentQ.table], borderTopWidth: '8px' }}
+          style={{ borderTopColor: getTableColor(tableColors, currentQ.table), borderTopWidth: '8px' }}
           className="relative w-full max-w-lg rounded-[32px] sm:rounded-[40px] shadow-2xl border border-slate-100 p-6 sm:p-10 md:p-12 flex flex-col items-center space-y-6 sm:space-y-8 overflow-hidden"
         >
           {/* Feedback Overlay */}
@@ -586,6 +1216,7 @@ export default function App() {
                 initial={{ opacity: 0, scale: 0.5, y: 20 }}
                 animate={{ opacity: 1, scale: 1, y: 0 }}
                 exit={{ opacity: 0, scale: 1.5 }}
+                aria-hidden="true"
                 className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none"
               >
                 {feedbackType === 'correct' && (
@@ -594,25 +1225,25 @@ export default function App() {
                     className="bg-emerald-500 text-white px-8 py-4 rounded-2xl shadow-2xl flex items-center space-x-3"
                   >
                     <CheckCircle2 size={32} />
-                    <span className="text-3xl font-black italic">RÄTT!</span>
+                    <span className="text-3xl font-black italic">{t('playing.correct')}</span>
                   </motion.div>
                 )}
                 {feedbackType === 'wrong' && (
                   <motion.div className="bg-red-500 text-white px-8 py-4 rounded-2xl shadow-2xl flex flex-col items-center">
                     <div className="flex items-center space-x-3">
                       <XCircle size={32} />
-                      <span className="text-3xl font-black italic">FEL!</span>
+                      <span className="text-3xl font-black italic">{t('playing.wrong')}</span>
                     </div>
-                    <span className="text-lg font-bold mt-2">Svaret är {currentQ.answer}</span>
+                    <span className="text-lg font-bold mt-2">{t('playing.answerIs', { answer: currentQ.answer })}</span>
                   </motion.div>
                 )}
                 {feedbackType === 'timeout' && (
                   <motion.div className="bg-orange-500 text-white px-8 py-4 rounded-2xl shadow-2xl flex flex-col items-center">
                     <div className="flex items-center space-x-3">
                       <Timer size={32} className="animate-bounce" />
-                      <span className="text-3xl font-black italic">TIDEN UTE!</span>
+                      <span className="text-3xl font-black italic">{t('playing.timeout')}</span>
                     </div>
-                    <span className="text-lg font-bold mt-2">Svaret är {currentQ.answer}</span>
+                    <span className="text-lg font-bold mt-2">{t('playing.answerIs', { answer: currentQ.answer })}</span>
                   </motion.div>
                 )}
               </motion.div>
@@ -620,42 +1251,43 @@ export default function App() {
           </AnimatePresence>
 
           {/* Timer Bar - Only in Test */}
-          {playType === PlayType.TEST && (
+          {timed && (
             <div className="absolute top-0 left-0 w-full h-2 bg-slate-100">
               <motion.div 
                 className={`h-full ${timeLeft < 2 ? 'bg-red-500' : 'bg-emerald-500'}`}
                 initial={{ width: '100%' }}
-                animate={{ width: `${(timeLeft / MAX_TIME_PER_QUESTION) * 100}%` }}
+                animate={{ width: `${(timeLeft / sessionPreset.timePerQuestion) * 100}%` }}
                 transition={{ duration: 0.1, ease: 'linear' }}
               />
             </div>
           )}
 
-          <div className="flex items-center space-x-4 sm:space-x-8 text-5xl sm:text-7xl md:text-8xl font-black text-slate-900 tracking-tighter">
-            <span>{currentQ.a}</span>
-            <span className="text-slate-300">×</span>
-            <span>{currentQ.b}</span>
-            <span className="text-slate-300">=</span>
+          {/* Equations read left to right in every language */}
+          <div dir="ltr" className={`flex items-center space-x-4 sm:space-x-8 font-black text-slate-900 tracking-tighter ${
+            questionTokens(currentQ).join('').length > 7 ? 'text-4xl sm:text-6xl md:text-7xl' : 'text-5xl sm:text-7xl md:text-8xl'
+          }`}>
+            {questionTokens(currentQ).map((token, i) => (
+              <span key={i} className={typeof token === 'string' ? 'text-slate-300' : undefined}>{token}</span>
+            ))}
           </div>
 
-          <div className="w-full max-w-xs relative">
+          <div className={`w-full relative ${accommodations.largeTargets ? 'max-w-md' : 'max-w-xs'}`}>
             <input
+              ref={answerInputRef}
               autoFocus
               type="number"
               value={userInput}
-              onChange={(e) => {
-                setUserInput(e.target.value);
-                if (parseInt(e.target.value) === currentQ.answer) {
-                  handleAnswer(parseInt(e.target.value));
-                }
-              }}
+              onChange={(e) => changeInput(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && userInput !== '') {
                   handleAnswer(parseInt(userInput));
                 }
               }}
               disabled={showFeedback}
-              className={`w-full text-center text-4xl sm:text-5xl font-bold py-3 sm:py-4 rounded-2xl border-4 transition-all focus:outline-none ${
+              aria-label={t('playing.answer')}
+              className={`w-full text-center text-4xl sm:text-5xl font-bold rounded-2xl border-4 transition-all focus:outline-none ${
+                accommodations.largeTargets ? 'py-6 sm:py-8' : 'py-3 sm:py-4'
+              } ${
                 showFeedback 
                   ? feedbackType === 'correct'
                     ? 'border-emerald-500 bg-emerald-50 text-emerald-600' 
@@ -666,56 +1298,77 @@ export default function App() {
             />
             
             <AnimatePresence>
-              {showFeedback && !lastFeedback?.isCorrect && (
+              {showFeedback && feedbackType !== 'correct' && (
                 <motion.div 
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   className="absolute -bottom-10 left-0 w-full text-center text-red-500 font-bold text-xl"
                 >
-                  Rätt svar: {lastFeedback?.correctAnswer}
+                  {t('playing.correctAnswer', { answer: currentQ.answer })}
                 </motion.div>
               )}
             </AnimatePresence>
           </div>
 
-          {playType === PlayType.TEST && (
+          {session && !autoSubmits(session) && !showFeedback && (
+            <p className="text-sm font-semibold text-slate-400">{t('playing.submitHint')}</p>
+          )}
+
+          {timed && (
             <div className="flex items-center space-x-2 text-slate-400">
               <Timer size={18} />
-              <span className="font-mono text-lg">{timeLeft.toFixed(1)}s</span>
+              <span className="font-mono text-lg">
+                {t('playing.seconds', { seconds: formatNumber(timeLeft, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
+              </span>
             </div>
           )}
         </motion.div>
 
+        {/* Hints, practice only */}
+        {hintCount > 0 && (
+          <div className="w-full flex flex-col items-center space-y-4">
+            <HintPanel question={currentQ} shown={hintsShown} color={getTableColor(tableColors, currentQ.table)} />
+            {hintsShown < hintCount && (
+              <button
+                onClick={() => {
+                  setSession(prev => prev && engine.showHint(prev));
+                  answerInputRef.current?.focus();
+                }}
+                disabled={showFeedback}
+                className="flex items-center space-x-2 px-4 py-2 bg-amber-50 border-2 border-amber-100 text-amber-700 rounded-xl font-semibold hover:border-amber-300 transition-colors disabled:opacity-50"
+              >
+                <Lightbulb size={18} />
+                <span>{t(hintsShown === 0 ? 'playing.hint' : 'playing.moreHelp')}</span>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Numpad for touch devices */}
-        <div className="grid grid-cols-3 gap-3 w-full max-w-xs">
+        <div dir="ltr" className={`grid grid-cols-3 w-full ${accommodations.largeTargets ? 'gap-4 max-w-md' : 'gap-3 max-w-xs'}`}>
           {[1, 2, 3, 4, 5, 6, 7, 8, 9, 0].map(num => (
             <motion.button
               key={num}
               whileTap={{ scale: 0.9 }}
-              onClick={() => {
-                if (showFeedback) return;
-                const newVal = userInput + num;
-                setUserInput(newVal);
-                if (parseInt(newVal) === currentQ.answer) {
-                  handleAnswer(parseInt(newVal));
-                }
-              }}
-              className="h-16 bg-white border border-slate-200 rounded-xl text-2xl font-bold text-slate-700 hover:bg-slate-50 active:scale-95 transition-all"
+              onClick={() => changeInput(userInput + num)}
+              className={`${keyHeight} bg-white border border-slate-200 rounded-xl text-2xl font-bold text-slate-700 hover:bg-slate-50 active:scale-95 transition-all`}
             >
               {num}
             </motion.button>
           ))}
           <motion.button
             whileTap={{ scale: 0.9 }}
-            onClick={() => setUserInput('')}
-            className="h-16 bg-slate-100 rounded-xl text-xl font-bold text-slate-500 hover:bg-slate-200 active:scale-95 transition-all"
+            onClick={() => changeInput('')}
+            aria-label={t('playing.clear')}
+            className={`${keyHeight} bg-slate-100 rounded-xl text-xl font-bold text-slate-500 hover:bg-slate-200 active:scale-95 transition-all`}
           >
             C
           </motion.button>
           <motion.button
             whileTap={{ scale: 0.9 }}
-            onClick={() => handleAnswer(parseInt(userInput))}
-            className="h-16 bg-indigo-500 rounded-xl text-white font-bold hover:bg-indigo-600 active:scale-95 transition-all"
+            onClick={() => userInput !== '' && handleAnswer(parseInt(userInput))}
+            aria-label={t('playing.answer')}
+            className={`${keyHeight} bg-indigo-500 rounded-xl text-white font-bold hover:bg-indigo-600 active:scale-95 transition-all`}
           >
             OK
           </motion.button>
@@ -728,13 +1381,13 @@ export default function App() {
     if (!stats) return null;
 
     const chartData = [
-      { name: 'Ditt resultat', value: playType === PlayType.TEST ? stats.totalCorrect : stats.totalCorrect },
-      { name: 'Godkänd gräns', value: PASS_SCORE_THRESHOLD }
+      { name: t('results.yourResult'), value: playType === PlayType.TEST ? stats.totalCorrect : stats.totalCorrect },
+      { name: t('results.passLimit'), value: sessionPreset.passScore }
     ];
 
     const speedData = [
-      { name: 'Din snabbhet', value: stats.totalPoints },
-      { name: 'Godkänd gräns', value: PASS_SPEED_THRESHOLD }
+      { name: t('results.yourSpeed'), value: stats.totalPoints },
+      { name: t('results.passLimit'), value: sessionPreset.passPoints }
     ];
 
     return (
@@ -748,29 +1401,91 @@ export default function App() {
               <div className="inline-flex items-center justify-center p-4 sm:p-6 bg-emerald-500 text-white rounded-full shadow-lg">
                 <CheckCircle2 size={48} className="sm:w-16 sm:h-16" />
               </div>
-              <h2 className="text-3xl sm:text-5xl font-black text-emerald-600 tracking-tight">DU ÄR GODKÄND!</h2>
-              <p className="text-emerald-700 text-xl sm:text-2xl font-medium">Visa detta för din lärare nu! 🌟</p>
+              <h2 className="text-3xl sm:text-5xl font-black text-emerald-600 tracking-tight">{t('results.passed')}</h2>
+              <p className="text-emerald-700 text-xl sm:text-2xl font-medium">
+                {t(`results.upload.${uploadStatus}`)}
+              </p>
             </div>
           ) : (
             <div className="space-y-4 sm:space-y-6">
               <div className="inline-flex items-center justify-center p-4 sm:p-6 bg-slate-100 text-slate-400 rounded-full">
                 <RotateCcw size={48} className="sm:w-16 sm:h-16" />
               </div>
-              <h2 className="text-2xl sm:text-4xl font-bold text-slate-800">Bra kämpat!</h2>
-              <p className="text-slate-500 text-lg sm:text-xl">Du behöver lite mer träning för att nå hela vägen.</p>
+              <h2 className="text-2xl sm:text-4xl font-bold text-slate-800">{t('results.wellFought')}</h2>
+              <p className="text-slate-500 text-lg sm:text-xl">{t('results.needsMorePractice')}</p>
             </div>
           )}
         </div>
 
+        {playType === PlayType.TEST && session && session.pauses.length > 0 && (
+          <div className="w-full flex items-center justify-center space-x-2 text-sm font-semibold text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-2xl p-3">
+            <Pause size={16} />
+            <span>
+              {t('results.paused', {
+                count: session.pauses.length,
+                seconds: totalPauseSeconds(session)
+              })}
+            </span>
+          </div>
+        )}
+
+        {newBadges.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.6 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: BADGE_FANFARE_DELAY / 1000, type: 'spring', stiffness: 260, damping: 18 }}
+            className="w-full bg-amber-50 border-2 border-amber-200 rounded-3xl p-6 text-center space-y-4"
+          >
+            <h3 className="text-2xl font-black text-amber-700">{t('results.newBadges', { count: newBadges.length })}</h3>
+            <div className="flex flex-wrap justify-center gap-4">
+              {newBadges.map(badge => {
+                const Icon = ACHIEVEMENT_ICONS[badge.kind];
+                return (
+                  <div key={badge.id} className="flex flex-col items-center space-y-1 w-28">
+                    <span className="p-3 bg-amber-400 text-white rounded-full shadow-md">
+                      <Icon size={28} />
+                    </span>
+                    <span className="text-sm font-bold text-amber-800">{achievementTitle(i18n, badge)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+
+        {session?.retryOf && (
+          <div className="w-full flex items-center justify-center space-x-2 text-sm font-semibold text-amber-800 bg-amber-50 border border-amber-100 rounded-2xl p-3">
+            <Repeat size={16} />
+            <span>
+              {t('results.retryProgress', retryProgress(results))}
+              {describeRetryOf(session.retryOf) && ` (${describeRetryOf(session.retryOf)})`}
+            </span>
+          </div>
+        )}
+
+        {session?.accommodations && (
+          <p className="flex items-center space-x-2 text-sm font-semibold text-amber-700">
+            <HeartHandshake size={14} />
+            <span>{t('common.accommodated')}</span>
+          </p>
+        )}
+
+        {playType === PlayType.TEST && session?.testCode && (
+          <p className="flex items-center space-x-2 text-sm text-slate-400">
+            <KeyRound size={14} />
+            <span>{t('results.testCode')} <span className="font-mono font-semibold text-slate-500 select-all">{session.testCode}</span></span>
+          </p>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 w-full">
           <div className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm space-y-6">
             <div className="flex items-center justify-between">
               <h3 className="text-xl font-bold text-slate-800 flex items-center space-x-2">
                 <CheckCircle2 className="text-emerald-500" size={24} />
-                <span>Antal rätt</span>
+                <span>{t('results.correctCount')}</span>
               </h3>
-              <span className="text-3xl font-black text-slate-900">{stats.totalCorrect} / {questions.length}</span>
+              <span dir="ltr" className="text-3xl font-black text-slate-900">{stats.totalCorrect} / {questions.length}</span>
             </div>
             <div className="h-64 w-full">
               <ResponsiveContainer width="100%" height="100%">
@@ -793,16 +1508,16 @@ export default function App() {
             <div className="flex items-center justify-between">
               <h3 className="text-xl font-bold text-slate-800 flex items-center space-x-2">
                 <Timer className="text-indigo-500" size={24} />
-                <span>Snabbhetspoäng</span>
+                <span>{t('results.speedPoints')}</span>
               </h3>
-              <span className="text-3xl font-black text-slate-900">{stats.totalPoints} / {questions.length * MAX_POINTS_PER_QUESTION}</span>
+              <span dir="ltr" className="text-3xl font-black text-slate-900">{stats.totalPoints} / {questions.length * sessionPreset.maxPoints}</span>
             </div>
             <div className="h-64 w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={speedData} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                   <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
-                  <YAxis hide domain={[0, questions.length * MAX_POINTS_PER_QUESTION]} />
+                  <YAxis hide domain={[0, questions.length * sessionPreset.maxPoints]} />
                   <Tooltip cursor={{ fill: 'transparent' }} />
                   <Bar dataKey="value" radius={[8, 8, 0, 0]} barSize={60}>
                     {speedData.map((entry, index) => (
@@ -815,18 +1530,37 @@ export default function App() {
           </div>
         </div>
 
+        {session?.adaptive && (
+          <DifficultyCurve results={results} bounds={levelBounds(session.adaptive, factorRange(sessionPreset))} />
+        )}
+
+        {/* Per Question Kind */}
+        {Object.keys(stats.kindStats).length > 1 && (
+          <div className="w-full bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+            <h3 className="text-xl font-bold text-slate-800 mb-4">{t('results.perKind')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {QUESTION_KINDS.filter(kind => stats.kindStats[kind]).map(kind => (
+                <div key={kind} className="p-4 bg-slate-50 rounded-2xl flex items-center justify-between">
+                  <span className="text-sm font-semibold text-slate-600">{t(`kind.${kind}`)}</span>
+                  <span dir="ltr" className="text-xl font-black text-slate-900">{stats.kindStats[kind]!.correct}/{stats.kindStats[kind]!.total}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Needs Practice & Wrong Answers */}
         <div className="w-full space-y-8">
           {stats.needsPractice.length > 0 && (
             <div className="bg-orange-50 p-8 rounded-3xl border border-orange-100">
               <h3 className="text-xl font-bold text-orange-800 mb-4 flex items-center space-x-2">
                 <Settings size={24} />
-                <span>Tabeller du behöver träna mer på:</span>
+                <span>{t('results.needsPracticeTitle')}</span>
               </h3>
               <div className="flex flex-wrap gap-3">
-                {stats.needsPractice.map(t => (
-                  <span key={t} className="px-6 py-2 bg-white text-orange-600 font-bold rounded-xl border border-orange-200 shadow-sm">
-                    {t}:ans tabell
+                {stats.needsPractice.map(table => (
+                  <span key={table} className="px-6 py-2 bg-white text-orange-600 font-bold rounded-xl border border-orange-200 shadow-sm">
+                    {t('results.table', { table })}
                   </span>
                 ))}
               </div>
@@ -837,14 +1571,34 @@ export default function App() {
             <div className="bg-red-50 p-8 rounded-3xl border border-red-100">
               <h3 className="text-xl font-bold text-red-800 mb-4 flex items-center space-x-2">
                 <XCircle size={24} />
-                <span>Frågor du svarade fel på:</span>
+                <span>{t('results.wrongTitle')}</span>
               </h3>
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
                 {stats.wrongAnswers.map((r, i) => (
                   <div key={i} className="bg-white p-4 rounded-2xl border border-red-100 shadow-sm flex flex-col items-center">
-                    <span className="text-slate-400 text-xs mb-1">Fråga {results.indexOf(r) + 1}</span>
-                    <span className="text-xl font-bold text-slate-800">{r.question.a} × {r.question.b} = {r.question.answer}</span>
-                    <span className="text-xs text-red-500 mt-1">Ditt svar: {r.userAnswer === null ? 'Inget' : r.userAnswer}</span>
+                    <span className="text-slate-400 text-xs mb-1">{t('results.questionNumber', { number: results.indexOf(r) + 1 })}</span>
+                    <span dir="ltr" className="text-xl font-bold text-slate-800">{formatEquation(r.question)}</span>
+                    <span className="text-xs text-red-500 mt-1">{t('results.yourAnswer', { answer: r.userAnswer ?? t('results.noAnswer') })}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-6">
+                <MistakeFeedback client={aiClient} mistakes={stats.wrongAnswers.map(r => r.question)} />
+              </div>
+            </div>
+          )}
+
+          {stats.hintedAnswers.length > 0 && (
+            <div className="bg-amber-50 p-8 rounded-3xl border border-amber-100">
+              <h3 className="text-xl font-bold text-amber-800 mb-4 flex items-center space-x-2">
+                <Lightbulb size={24} />
+                <span>{t('results.hintsTitle')}</span>
+              </h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {stats.hintedAnswers.map((r, i) => (
+                  <div key={i} className="bg-white p-4 rounded-2xl border border-amber-100 shadow-sm flex flex-col items-center">
+                    <span dir="ltr" className="text-xl font-bold text-slate-800">{formatEquation(r.question)}</span>
+                    <span className="text-xs text-amber-600 mt-1">{t('results.hintSteps', { count: r.hintsUsed ?? 0 })}</span>
                   </div>
                 ))}
               </div>
@@ -852,13 +1606,29 @@ export default function App() {
           )}
         </div>
 
-        <div className="flex space-x-4">
+        {activeProfile && (
+          <div className="flex flex-col items-center space-y-2">
+            <span className="text-xs text-slate-400 font-bold uppercase tracking-widest">{t('results.saveAsFile')}</span>
+            <HistoryTransfer profileName={activeProfile.name} history={history} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-4">
+          {lastEntry && stats.wrongAnswers.length > 0 && (
+            <button
+              onClick={() => startRetry(lastEntry)}
+              className="px-10 py-4 bg-amber-500 text-white rounded-2xl font-bold hover:bg-amber-600 transition-all flex items-center space-x-2 shadow-lg hover:shadow-xl active:scale-95"
+            >
+              <Repeat size={20} />
+              <span>{t('results.retryMistakes')}</span>
+            </button>
+          )}
           <button 
             onClick={() => setMode(GameMode.MENU)}
             className="px-10 py-4 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all flex items-center space-x-2 shadow-lg hover:shadow-xl active:scale-95"
           >
             <RotateCcw size={20} />
-            <span>Tillbaka till menyn</span>
+            <span>{t('common.backToMenu')}</span>
           </button>
         </div>
       </div>
@@ -873,7 +1643,7 @@ export default function App() {
     if (mode === GameMode.PRACTICE_SETUP) {
       if (selectedTables.length > 0) {
         const lastTable = selectedTables[selectedTables.length - 1];
-        const color = tableColors[lastTable];
+        const color = getTableColor(tableColors, lastTable);
         return `linear-gradient(135deg, #ffffff 0%, ${lightenColor(color, 0.8)} 100%)`;
       }
       return 'linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%)';
@@ -883,7 +1653,7 @@ export default function App() {
       const currentQ = questions[currentIndex];
       if (!currentQ) return 'linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%)';
       
-      const color = tableColors[currentQ.table];
+      const color = getTableColor(tableColors, currentQ.table);
       const progress = currentIndex / questions.length;
       
       if (showFeedback) {
@@ -909,65 +1679,173 @@ export default function App() {
   };
 
   return (
-    <motion.div 
-      animate={{ 
-        background: getBackgroundGradient() 
-      }}
-      transition={{ duration: 1 }}
-      className="min-h-screen font-sans text-slate-900"
-    >
-      {/* Navigation / Header */}
-      <nav className="bg-white/80 backdrop-blur-md border-b border-slate-100 px-6 py-4 sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto flex items-center justify-between">
-          <div className="flex items-center space-x-3 cursor-pointer" onClick={() => setMode(GameMode.MENU)}>
-            <div className="w-10 h-10 bg-emerald-500 rounded-xl flex items-center justify-center text-white shadow-sm">
-              <School size={24} />
-            </div>
-            <div>
-              <span className="font-black text-xl tracking-tight">PLÖNNINGE</span>
-              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest -mt-1">Multiplikation</span>
-            </div>
-          </div>
-          
-          {mode === GameMode.PLAYING && (
-            <div className="hidden md:flex items-center space-x-6">
-              <div className="flex items-center space-x-2 text-slate-500">
-                <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-                <span className="text-sm font-semibold uppercase tracking-wider">Session pågår</span>
+    <I18nContext.Provider value={i18n}>
+      <MotionConfig reducedMotion={reduceMotion ? 'always' : 'never'}>
+        <motion.div 
+          animate={{ 
+            background: getBackgroundGradient() 
+          }}
+          transition={{ duration: 1 }}
+          className={`app-root min-h-screen font-sans text-slate-900 ${accessibility.highContrast ? 'high-contrast' : ''} ${reduceMotion ? 'reduce-motion' : ''}`}
+        >
+          {/* Navigation / Header */}
+          <nav className="bg-white/80 backdrop-blur-md border-b border-slate-100 px-6 py-4 sticky top-0 z-50 print:hidden">
+            <div className="max-w-7xl mx-auto flex items-center justify-between">
+              <button className="flex items-center space-x-3 text-start" onClick={() => setMode(GameMode.MENU)}>
+                <div className="w-10 h-10 bg-emerald-500 rounded-xl flex items-center justify-center text-white shadow-sm">
+                  <School size={24} />
+                </div>
+                <div>
+                  <span className="font-black text-xl tracking-tight">PLÖNNINGE</span>
+                  <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest -mt-1">{t('nav.subtitle')}</span>
+                </div>
+              </button>
+              
+              <div className="flex items-center space-x-6">
+                {mode === GameMode.PLAYING && (
+                  <div className="hidden md:flex items-center space-x-2 text-slate-500">
+                    <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+                    <span className="text-sm font-semibold uppercase tracking-wider">{t('nav.sessionInProgress')}</span>
+                  </div>
+                )}
+                {(activeProfile?.settings.classCode || syncQueue.pending > 0 || !syncQueue.isOnline) && (
+                  <SyncStatus
+                    pending={syncQueue.pending}
+                    isOnline={syncQueue.isOnline}
+                    isSyncing={syncQueue.isSyncing}
+                    onRetry={syncQueue.flush}
+                  />
+                )}
+                {activeProfile && (
+                  <button
+                    onClick={() => updateAudio({ ...audioSettings, muted: !audioSettings.muted })}
+                    aria-pressed={audioSettings.muted}
+                    className="text-slate-400 hover:text-slate-600 transition-colors"
+                    title={t(audioSettings.muted ? 'nav.unmute' : 'nav.mute')}
+                  >
+                    {audioSettings.muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                    <span className="sr-only">{t(audioSettings.muted ? 'nav.unmute' : 'nav.mute')}</span>
+                  </button>
+                )}
+                <label className="flex items-center space-x-1.5 text-slate-400" title={t('nav.language')}>
+                  <Languages size={16} />
+                  <select
+                    value={locale}
+                    onChange={(e) => changeLocale(e.target.value as Locale)}
+                    aria-label={t('nav.language')}
+                    className="bg-transparent text-xs font-bold uppercase tracking-wider text-slate-500 focus:outline-none cursor-pointer"
+                  >
+                    {(Object.keys(LOCALES) as Locale[]).map(l => (
+                      <option key={l} value={l}>{LOCALES[l].name}</option>
+                    ))}
+                  </select>
+                </label>
+                {activeProfile && (
+                  <button
+                    onClick={() => mode !== GameMode.PLAYING && setMode(GameMode.MENU)}
+                    className="flex items-center space-x-2 px-3 py-1.5 bg-emerald-50 text-emerald-700 rounded-full font-semibold text-sm"
+                    title={t('nav.switchStudent')}
+                  >
+                    <UserCircle size={18} />
+                    <span>{activeProfile.name}</span>
+                  </button>
+                )}
               </div>
             </div>
-          )}
-        </div>
-      </nav>
+          </nav>
 
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
-        <AnimatePresence mode="wait">
-          <motion.div
-            key={mode}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -20 }}
-            transition={{ duration: 0.3 }}
-          >
-            {mode === GameMode.MENU && renderMenu()}
-            {mode === GameMode.PRACTICE_SETUP && renderPracticeSetup()}
-            {mode === GameMode.PLAYING && renderPlaying()}
-            {mode === GameMode.RESULTS && renderResults()}
-          </motion.div>
-        </AnimatePresence>
-      </main>
-
-      {/* Footer */}
-      <footer className="py-12 border-t border-slate-100 mt-12">
-        <div className="max-w-7xl mx-auto px-6 flex flex-col md:flex-row items-center justify-between text-slate-400 text-sm">
-          <p>© 2026 Plönningeskolan - Matematik är kul!</p>
-          <div className="flex items-center space-x-4 mt-4 md:mt-0">
-            <span>Utvecklad för mellanstadiet</span>
-            <div className="w-1 h-1 rounded-full bg-slate-200" />
-            <span>Version 1.0</span>
-          </div>
-        </div>
-      </footer>
-    </motion.div>
+          <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+          <main ref={mainRef} className="max-w-7xl mx-auto px-4 sm:px-6 py-8 sm:py-12 print:p-0">
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={mode}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.3 }}
+                onAnimationComplete={focusScreenHeading}
+              >
+                {mode === GameMode.MENU && renderMenu()}
+                {mode === GameMode.PRACTICE_SETUP && renderPracticeSetup()}
+                {mode === GameMode.PLAYING && renderPlaying()}
+                {mode === GameMode.RESULTS && renderResults()}
+                {mode === GameMode.TEACHER && <TeacherDashboard onBack={() => setMode(GameMode.MENU)} />}
+                {mode === GameMode.MASTERY && <MasteryHeatmap history={history} onBack={() => setMode(GameMode.MENU)} />}
+                {mode === GameMode.PROGRESS && (
+                  <ProgressView history={history} tableColors={tableColors} onBack={() => setMode(GameMode.MENU)} />
+                )}
+                {mode === GameMode.WORKSHEET && worksheetConfig && (
+                  <Worksheet initialConfig={worksheetConfig} onBack={() => setMode(GameMode.PRACTICE_SETUP)} />
+                )}
+                {mode === GameMode.WORD_PROBLEMS && (
+                  <WordProblems
+                    client={aiClient}
+                    tables={selectedTables}
+                    factors={factorRange(selectedPreset)}
+                    onBack={() => setMode(GameMode.PRACTICE_SETUP)}
+                  />
+                )}
+                {mode === GameMode.ACCOMMODATIONS && activeProfile && (
+                  <AccommodationsEditor
+                    profileName={activeProfile.name}
+                    accommodations={accommodations}
+                    preset={selectedPreset}
+                    onChange={(next) => updateActiveProfile(p => ({ ...p, settings: { ...p.settings, accommodations: next } }))}
+                    onBack={() => setMode(GameMode.MENU)}
+                  />
+                )}
+                {mode === GameMode.ACCESSIBILITY && activeProfile && (
+                  <AccessibilityPanel
+                    profileName={activeProfile.name}
+                    settings={accessibility}
+                    audio={audioSettings}
+                    tableColors={activeProfile.tableColors}
+                    onChange={updateAccessibility}
+                    onAudioChange={updateAudio}
+                    onPreviewSound={audio.play}
+                    onBack={() => setMode(GameMode.MENU)}
+                  />
+                )}
+                {mode === GameMode.COMPETITION_HOST && (
+                  <CompetitionHost
+                    presets={presets}
+                    initialPresetId={selectedPreset.id}
+                    tableColors={tableColors}
+                    onBack={() => setMode(GameMode.MENU)}
+                  />
+                )}
+                {mode === GameMode.COMPETITION_JOIN && (
+                  <CompetitionPlay
+                    defaultName={activeProfile?.name ?? ''}
+                    tableColors={tableColors}
+                    onBack={() => setMode(GameMode.MENU)}
+                  />
+                )}
+                {mode === GameMode.PRESETS && (
+                  <PresetEditor
+                    presets={presets}
+                    onChange={setPresets}
+                    onBack={() => setMode(GameMode.MENU)}
+                  />
+                )}
+              </motion.div>
+            </AnimatePresence>
+          </main>
+
+          {/* Footer */}
+          <footer className="py-12 border-t border-slate-100 mt-12 print:hidden">
+            <div className="max-w-7xl mx-auto px-6 flex flex-col md:flex-row items-center justify-between text-slate-400 text-sm">
+              <p>{t('footer.copyright')}</p>
+              <div className="flex items-center space-x-4 mt-4 md:mt-0">
+                <span>{t('footer.audience')}</span>
+                <div className="w-1 h-1 rounded-full bg-slate-200" />
+                <span>{t('footer.version', { version: '1.0' })}</span>
+              </div>
+            </div>
+          </footer>
+        </motion.div>
+      </MotionConfig>
+    </I18nContext.Provider>
   );
 }
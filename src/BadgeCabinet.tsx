@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Award, CalendarCheck, Crown, Flame, Lock, Medal, Sparkles, Star, Zap } from 'lucide-react';
+import {
+  Achievement,
+  AchievementKind,
+  LIGHTNING_MIN_QUESTIONS,
+  LIGHTNING_SECONDS,
+  allAchievements,
+  practiceStreak
+} from './achievements.ts';
+import { Translator, useI18n } from './i18n.ts';
+import { HistoryEntry } from './types.ts';
+
+export const ACHIEVEMENT_ICONS: Record<AchievementKind, typeof Award> = {
+  'first-session': Sparkles,
+  'first-pass': Award,
+  'perfect-test': Star,
+  'lightning': Zap,
+  'streak-3': CalendarCheck,
+  'streak-7': Flame,
+  'pass-table': Medal,
+  'master-table': Crown
+};
+
+const messageParams = (a: Achievement) => ({
+  table: a.table ?? '',
+  seconds: LIGHTNING_SECONDS,
+  count: LIGHTNING_MIN_QUESTIONS
+});
+
+export const achievementTitle = ({ t }: Translator, a: Achievement) => t(`achievement.${a.kind}`, messageParams(a));
+
+const achievementDescription = ({ t }: Translator, a: Achievement) =>
+  t(`achievement.${a.kind}.description`, messageParams(a));
+
+interface BadgeCabinetProps {
+  unlocked: Record<string, number>; // achievement id -> unlocked at
+  history: HistoryEntry[];
+  maxTable: number;
+}
+
+export default function BadgeCabinet({ unlocked, history, maxTable }: BadgeCabinetProps) {
+  const i18n = useI18n();
+  const { t, formatDateTime } = i18n;
+  const badges = allAchievements(maxTable);
+  const streak = practiceStreak(history, Date.now());
+
+  return (
+    <div className="w-full max-w-2xl bg-white rounded-3xl border border-slate-100 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center space-x-2">
+          <Award size={20} className="text-amber-500" />
+          <span>{t('menu.badges')}</span>
+        </h3>
+        <div className="flex items-center space-x-4 text-sm font-semibold">
+          {streak > 0 && (
+            <span className="flex items-center space-x-1 text-orange-500">
+              <Flame size={16} />
+              <span>{t('menu.streak', { count: streak })}</span>
+            </span>
+          )}
+          <span className="text-slate-400">
+            {t('menu.badgesCount', { unlocked: badges.filter(b => b.id in unlocked).length, total: badges.length })}
+          </span>
+        </div>
+      </div>
+      <ul className="grid grid-cols-4 sm:grid-cols-6 gap-3">
+        {badges.map(badge => {
+          const unlockedAt = unlocked[badge.id];
+          const Icon = unlockedAt ? ACHIEVEMENT_ICONS[badge.kind] : Lock;
+          const title = achievementTitle(i18n, badge);
+          const status = unlockedAt
+            ? t('menu.badgeUnlocked', { date: formatDateTime(unlockedAt) })
+            : t('menu.badgeLocked');
+          return (
+            <li
+              key={badge.id}
+              title={`${title}: ${achievementDescription(i18n, badge)} (${status})`}
+              className={`flex flex-col items-center text-center p-2 rounded-2xl border-2 ${
+                unlockedAt ? 'border-amber-200 bg-amber-50 text-amber-600' : 'border-slate-100 bg-slate-50 text-slate-300'
+              }`}
+            >
+              <Icon size={24} />
+              <span className={`mt-1 text-[10px] font-bold leading-tight ${unlockedAt ? 'text-amber-800' : 'text-slate-400'}`}>
+                {title}
+              </span>
+              <span className="sr-only">{achievementDescription(i18n, badge)} {status}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
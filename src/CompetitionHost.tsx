@@ -0,0 +1,328 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronRight, Crown, Play, Swords, Timer, Users, WifiOff } from 'lucide-react';
+import { getTableColor } from './colors.ts';
+import { COMPETITION_ROUNDS, LeaderboardMessage, ServerMessage } from './competition.ts';
+import { ShownQuestion, showQuestion, useCompetitionSocket, useQuestionClock } from './competitionClient.ts';
+import { findPreset } from './presets.ts';
+import { QUESTION_KINDS, formatEquation, questionTokens } from './questions.ts';
+import { QuestionKind, TestPreset } from './types.ts';
+
+interface CompetitionHostProps {
+  presets: TestPreset[];
+  initialPresetId: string;
+  tableColors: Record<number, string>;
+  onBack: () => void;
+}
+
+const TABLE_OPTIONS = Array.from({ length: 12 }, (_, i) => i + 1);
+const DEFAULT_TABLES = [2, 3, 4, 5, 6, 7, 8, 9];
+const DEFAULT_ROUNDS = 10;
+const LEADERBOARD_LENGTH = 10;
+
+const KIND_LABELS: Record<QuestionKind, string> = {
+  'multiply': 'Multiplikation',
+  'divide': 'Division',
+  'missing-factor': 'Saknad faktor'
+};
+
+const PODIUM_COLORS = ['text-amber-500', 'text-slate-400', 'text-orange-400'];
+
+export default function CompetitionHost({ presets, initialPresetId, tableColors, onBack }: CompetitionHostProps) {
+  const [presetId, setPresetId] = useState(initialPresetId);
+  const [tables, setTables] = useState<number[]>(DEFAULT_TABLES);
+  const [kinds, setKinds] = useState<QuestionKind[]>(['multiply']);
+  const [rounds, setRounds] = useState(DEFAULT_ROUNDS);
+  const [code, setCode] = useState<string | null>(null);
+  const [players, setPlayers] = useState<string[]>([]);
+  const [question, setQuestion] = useState<ShownQuestion | null>(null);
+  const [answered, setAnswered] = useState(0);
+  const [board, setBoard] = useState<LeaderboardMessage | null>(null);
+  const { countdown, timeLeft } = useQuestionClock(question);
+  const preset = findPreset(presets, presetId);
+
+  const { status, connect, send, disconnect } = useCompetitionSocket((msg: ServerMessage) => {
+    switch (msg.type) {
+      case 'hosted':
+        setCode(msg.code);
+        break;
+      case 'lobby':
+        setPlayers(msg.players);
+        break;
+      case 'question':
+        setQuestion(showQuestion(msg));
+        setAnswered(0);
+        setBoard(null);
+        break;
+      case 'progress':
+        setAnswered(msg.answered);
+        break;
+      case 'leaderboard':
+        setBoard(msg);
+        setQuestion(null);
+        break;
+    }
+  });
+
+  const toggle = <T,>(list: T[], item: T, order: T[]) =>
+    list.includes(item) ? list.filter(x => x !== item) : order.filter(x => x === item || list.includes(x));
+
+  const openRoom = () => {
+    connect({ type: 'host', setup: { preset, tables, kinds, rounds } });
+  };
+
+  const endCompetition = () => {
+    disconnect();
+    setCode(null);
+    setPlayers([]);
+    setQuestion(null);
+    setBoard(null);
+  };
+
+  const card = 'w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm';
+
+  const optionClass = (active: boolean) => `px-4 py-2 rounded-xl border-2 font-semibold text-sm transition-colors ${
+    active ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-300'
+  }`;
+
+  const renderSetup = () => (
+    <div className={`${card} space-y-6`}>
+      <div className="space-y-2">
+        <label htmlFor="competition-preset" className="block font-bold text-slate-800">Inställning</label>
+        <select
+          id="competition-preset"
+          value={preset.id}
+          onChange={(e) => setPresetId(e.target.value)}
+          className="w-full px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-semibold"
+        >
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <p className="text-sm text-slate-500">
+          {preset.timePerQuestion} sekunder per fråga, upp till {preset.maxPoints} poäng för snabba svar.
+        </p>
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="font-bold text-slate-800 mb-2">Tabeller</legend>
+        <div className="flex flex-wrap gap-2">
+          {TABLE_OPTIONS.map(table => (
+            <button
+              key={table}
+              onClick={() => setTables(prev => toggle(prev, table, TABLE_OPTIONS))}
+              aria-pressed={tables.includes(table)}
+              className={`${optionClass(tables.includes(table))} w-12`}
+            >
+              {table}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+      <fieldset className="space-y-2">
+        <legend className="font-bold text-slate-800 mb-2">Frågetyper</legend>
+        <div className="flex flex-wrap gap-2">
+          {QUESTION_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKinds(prev => toggle(prev, kind, QUESTION_KINDS))}
+              aria-pressed={kinds.includes(kind)}
+              className={optionClass(kinds.includes(kind))}
+            >
+              {KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+      <fieldset className="space-y-2">
+        <legend className="font-bold text-slate-800 mb-2">Antal frågor</legend>
+        <div className="flex flex-wrap gap-2">
+          {COMPETITION_ROUNDS.map(n => (
+            <button key={n} onClick={() => setRounds(n)} aria-pressed={rounds === n} className={optionClass(rounds === n)}>
+              {n}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+      <button
+        onClick={openRoom}
+        disabled={tables.length === 0 || kinds.length === 0 || status === 'connecting'}
+        className="w-full py-4 bg-indigo-500 text-white rounded-2xl font-bold text-lg hover:bg-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status === 'connecting' ? 'Ansluter …' : 'Öppna tävlingen'}
+      </button>
+    </div>
+  );
+
+  const renderLobby = () => (
+    <div className={`${card} flex flex-col items-center space-y-6 text-center`}>
+      <p className="text-slate-500 font-semibold">Eleverna väljer Klasstävling i menyn och skriver koden:</p>
+      <span dir="ltr" className="text-7xl sm:text-8xl font-black font-mono tracking-[0.2em] text-indigo-600">{code}</span>
+      <div className="flex items-center space-x-2 text-slate-600 font-bold">
+        <Users size={20} />
+        <span>{players.length} {players.length === 1 ? 'elev' : 'elever'} med</span>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        {players.map(player => (
+          <motion.span
+            key={player}
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-sm font-semibold"
+          >
+            {player}
+          </motion.span>
+        ))}
+      </div>
+      <button
+        onClick={() => send({ type: 'next' })}
+        disabled={players.length === 0}
+        className="px-8 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Play size={20} />
+        <span>Starta</span>
+      </button>
+    </div>
+  );
+
+  const renderQuestion = (q: ShownQuestion) => (
+    <div
+      style={{ borderTopColor: getTableColor(tableColors, q.question.table), borderTopWidth: '8px' }}
+      className={`${card} relative overflow-hidden flex flex-col items-center space-y-8 py-12 text-center`}
+    >
+      <span className="text-slate-500 font-semibold">Fråga {q.round + 1} av {q.rounds}</span>
+      {countdown > 0 ? (
+        <motion.span
+          key={countdown}
+          initial={{ scale: 1.6, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="text-9xl font-black text-indigo-500"
+        >
+          {countdown}
+        </motion.span>
+      ) : (
+        <>
+          <div className="absolute top-0 left-0 w-full h-2 bg-slate-100">
+            <div
+              className={`h-full transition-[width] duration-100 ease-linear ${timeLeft < 2 ? 'bg-red-500' : 'bg-emerald-500'}`}
+              style={{ width: `${(timeLeft / q.timePerQuestion) * 100}%` }}
+            />
+          </div>
+          <div dir="ltr" className="flex items-center space-x-6 sm:space-x-10 text-6xl sm:text-8xl md:text-9xl font-black text-slate-900 tracking-tighter">
+            {questionTokens(q.question).map((token, i) => (
+              <span key={i} className={typeof token === 'string' ? 'text-slate-300' : undefined}>{token}</span>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2 text-slate-400">
+            <Timer size={20} />
+            <span className="font-mono text-xl">{timeLeft.toFixed(1).replace('.', ',')} s</span>
+          </div>
+        </>
+      )}
+      <span className="text-slate-600 font-bold">{answered} av {players.length} har svarat</span>
+    </div>
+  );
+
+  const renderLeaderboard = (b: LeaderboardMessage) => (
+    <div className={`${card} flex flex-col items-center space-y-6`}>
+      <p className="text-slate-500 font-semibold">
+        Rätt svar: <span dir="ltr" className="text-slate-900 font-black">{formatEquation(b.question)}</span>
+      </p>
+      <h3 className="text-3xl font-black text-slate-900">{b.final ? 'Slutresultat' : `Topplista efter fråga ${b.round + 1} av ${b.rounds}`}</h3>
+      <ol className="w-full max-w-xl space-y-2">
+        {b.standings.slice(0, LEADERBOARD_LENGTH).map(s => (
+          <motion.li
+            key={s.name}
+            layout
+            className="flex items-center justify-between px-5 py-3 rounded-2xl bg-slate-50 text-lg"
+          >
+            <span className="flex items-center space-x-3 font-bold text-slate-800">
+              <span className="w-8 text-slate-400">{s.rank}.</span>
+              {b.final && s.rank <= PODIUM_COLORS.length && <Crown size={20} className={PODIUM_COLORS[s.rank - 1]} />}
+              <span>{s.name}</span>
+            </span>
+            <span className="flex items-center space-x-4">
+              <span className="text-sm text-slate-400">{s.correct} rätt</span>
+              <span className="font-black text-indigo-600">{s.points} p</span>
+            </span>
+          </motion.li>
+        ))}
+      </ol>
+      {b.standings.length > LEADERBOARD_LENGTH && (
+        <p className="text-sm text-slate-400">och {b.standings.length - LEADERBOARD_LENGTH} till</p>
+      )}
+      {b.final ? (
+        <button
+          onClick={endCompetition}
+          className="px-8 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors"
+        >
+          Ny tävling
+        </button>
+      ) : (
+        <button
+          autoFocus
+          onClick={() => send({ type: 'next' })}
+          className="px-8 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors flex items-center space-x-2"
+        >
+          <span>Nästa fråga</span>
+          <ChevronRight size={20} />
+        </button>
+      )}
+    </div>
+  );
+
+  const renderScreen = () => {
+    if (board?.final) return renderLeaderboard(board);
+    if (status === 'closed') {
+      return (
+        <div className={`${card} flex flex-col items-center space-y-4 text-center`}>
+          <WifiOff size={40} className="text-red-400" />
+          <p className="text-red-700 font-medium">
+            {code
+              ? 'Anslutningen till klassservern bröts och tävlingen är avslutad.'
+              : 'Kunde inte nå klassservern. Är den igång?'}
+          </p>
+          <button
+            onClick={endCompetition}
+            className="px-6 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors"
+          >
+            Börja om
+          </button>
+        </div>
+      );
+    }
+    if (!code) return renderSetup();
+    if (question) return renderQuestion(question);
+    if (board) return renderLeaderboard(board);
+    return renderLobby();
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-3xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <Swords className="text-indigo-500" size={32} />
+          <span>Klasstävling</span>
+        </h2>
+        <p className="text-slate-500 mt-2">
+          Alla får samma fråga samtidigt på sina egna enheter. Snabba rätta svar ger mest poäng.
+        </p>
+      </div>
+
+      {renderScreen()}
+
+      <button
+        onClick={() => {
+          if (code && !board?.final && !window.confirm('Vill du avsluta tävlingen för hela klassen?')) return;
+          endCompetition();
+          onBack();
+        }}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        Tillbaka till menyn
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2, Send, Swords, Timer, Trophy, WifiOff, XCircle } from 'lucide-react';
+import { getTableColor } from './colors.ts';
+import { CompetitionError, LeaderboardMessage, MAX_NAME_LENGTH, ServerMessage } from './competition.ts';
+import { ShownQuestion, showQuestion, useCompetitionSocket, useQuestionClock } from './competitionClient.ts';
+import { useI18n } from './i18n.ts';
+import { formatEquation, questionTokens } from './questions.ts';
+
+interface CompetitionPlayProps {
+  defaultName: string; // the active student, so most children only type the code
+  tableColors: Record<number, string>;
+  onBack: () => void;
+}
+
+export default function CompetitionPlay({ defaultName, tableColors, onBack }: CompetitionPlayProps) {
+  const { t, formatNumber } = useI18n();
+  const [code, setCode] = useState('');
+  const [name, setName] = useState(defaultName);
+  const [joined, setJoined] = useState<{ code: string; name: string } | null>(null);
+  const [players, setPlayers] = useState<string[]>([]);
+  const [question, setQuestion] = useState<ShownQuestion | null>(null);
+  const [sentAnswer, setSentAnswer] = useState<number | null>(null);
+  const [userInput, setUserInput] = useState('');
+  const [board, setBoard] = useState<LeaderboardMessage | null>(null);
+  const [error, setError] = useState<CompetitionError | null>(null);
+  const [closed, setClosed] = useState(false);
+  const { countdown, timeLeft } = useQuestionClock(question);
+
+  const { status, connect, send } = useCompetitionSocket((msg: ServerMessage) => {
+    switch (msg.type) {
+      case 'joined':
+        setJoined({ code: msg.code, name: msg.name });
+        setError(null);
+        break;
+      case 'lobby':
+        setPlayers(msg.players);
+        break;
+      case 'question':
+        setQuestion(showQuestion(msg));
+        setSentAnswer(null);
+        setUserInput('');
+        setBoard(null);
+        break;
+      case 'leaderboard':
+        setBoard(msg);
+        setQuestion(null);
+        break;
+      case 'closed':
+        setClosed(true);
+        break;
+      case 'error':
+        setError(msg.error);
+        break;
+    }
+  });
+
+  const join = (joinCode: string, joinName: string) => {
+    setError(null);
+    const hello = { type: 'join' as const, code: joinCode.trim(), name: joinName };
+    // A refused join leaves the socket open for another try
+    if (status === 'open') send(hello);
+    else connect(hello);
+  };
+
+  const submitAnswer = () => {
+    if (!question || sentAnswer !== null || userInput === '' || countdown > 0) return;
+    const answer = parseInt(userInput);
+    send({ type: 'answer', round: question.round, answer });
+    setSentAnswer(answer);
+  };
+
+  const card = 'w-full max-w-lg bg-white rounded-[32px] sm:rounded-[40px] shadow-2xl border border-slate-100 p-8 sm:p-10 flex flex-col items-center space-y-6 text-center';
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      className="px-6 py-3 bg-white text-slate-600 border-2 border-slate-100 rounded-xl font-semibold hover:border-slate-300 transition-colors"
+    >
+      {t('common.backToMenu')}
+    </button>
+  );
+
+  const renderJoin = () => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.trim() && name.trim()) join(code, name);
+      }}
+      className={card}
+    >
+      <p className="text-slate-500">{t('competition.joinDescription')}</p>
+      <label className="w-full text-start space-y-1">
+        <span className="block text-sm font-bold text-slate-700">{t('competition.code')}</span>
+        <input
+          autoFocus
+          type="text"
+          inputMode="numeric"
+          autoComplete="off"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          dir="ltr"
+          className="w-full text-center text-4xl font-black font-mono tracking-[0.5em] py-3 rounded-2xl border-4 border-slate-200 focus:border-indigo-500 focus:outline-none"
+        />
+      </label>
+      <label className="w-full text-start space-y-1">
+        <span className="block text-sm font-bold text-slate-700">{t('competition.name')}</span>
+        <input
+          type="text"
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-4 py-3 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-semibold"
+        />
+      </label>
+      {error && <p role="alert" className="text-red-600 font-semibold">{t(`competition.error.${error}`)}</p>}
+      {status === 'closed' && <p role="alert" className="text-red-600 font-semibold">{t('competition.serverDown')}</p>}
+      <button
+        type="submit"
+        disabled={!code.trim() || !name.trim() || status === 'connecting'}
+        className="w-full py-4 bg-indigo-500 text-white rounded-2xl font-bold text-lg hover:bg-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t(status === 'connecting' ? 'competition.connecting' : 'competition.join')}
+      </button>
+    </form>
+  );
+
+  const renderQuestion = (q: ShownQuestion) => {
+    if (countdown > 0) {
+      return (
+        <div className={card}>
+          <span className="text-slate-500 font-semibold">{t('competition.getReady')}</span>
+          <motion.span
+            key={countdown}
+            initial={{ scale: 1.6, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="text-8xl font-black text-indigo-500"
+          >
+            {countdown}
+          </motion.span>
+        </div>
+      );
+    }
+    const tokens = questionTokens(q.question);
+    return (
+      <div
+        style={{ borderTopColor: getTableColor(tableColors, q.question.table), borderTopWidth: '8px' }}
+        className={`${card} relative overflow-hidden`}
+      >
+        <div className="absolute top-0 left-0 w-full h-2 bg-slate-100">
+          <div
+            className={`h-full transition-[width] duration-100 ease-linear ${timeLeft < 2 ? 'bg-red-500' : 'bg-emerald-500'}`}
+            style={{ width: `${(timeLeft / q.timePerQuestion) * 100}%` }}
+          />
+        </div>
+        <div dir="ltr" className={`flex items-center space-x-4 sm:space-x-8 font-black text-slate-900 tracking-tighter ${
+          tokens.join('').length > 7 ? 'text-4xl sm:text-6xl' : 'text-5xl sm:text-7xl'
+        }`}>
+          {tokens.map((token, i) => (
+            <span key={i} className={typeof token === 'string' ? 'text-slate-300' : undefined}>{token}</span>
+          ))}
+        </div>
+        {sentAnswer === null && timeLeft > 0 ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitAnswer();
+            }}
+            className="w-full max-w-xs flex space-x-2"
+          >
+            <input
+              autoFocus
+              type="number"
+              inputMode="numeric"
+              value={userInput}
+              onChange={(e) => setUserInput(e.target.value)}
+              aria-label={t('playing.answer')}
+              placeholder="?"
+              className="flex-1 min-w-0 text-center text-4xl font-bold py-3 rounded-2xl border-4 border-slate-200 focus:border-indigo-500 focus:outline-none text-slate-800"
+            />
+            <button
+              type="submit"
+              disabled={userInput === ''}
+              title={t('competition.send')}
+              className="px-5 bg-emerald-500 text-white rounded-2xl hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              <Send size={24} />
+              <span className="sr-only">{t('competition.send')}</span>
+            </button>
+          </form>
+        ) : (
+          <p role="status" className="text-slate-500 font-semibold">
+            {sentAnswer === null ? t('playing.timeout') : t('competition.answerSent')}
+          </p>
+        )}
+        <div className="flex items-center space-x-2 text-slate-400">
+          <Timer size={18} />
+          <span className="font-mono text-lg">
+            {t('playing.seconds', { seconds: formatNumber(timeLeft, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderLeaderboard = (b: LeaderboardMessage) => {
+    const mine = b.standings.find(s => s.name === joined?.name);
+    return (
+      <div className={card}>
+        {b.you && (
+          <div
+            role="status"
+            className={`w-full rounded-2xl p-4 flex flex-col items-center space-y-1 ${
+              b.you.isCorrect ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'
+            }`}
+          >
+            <span className="flex items-center space-x-2 text-xl font-black">
+              {b.you.isCorrect ? <CheckCircle2 size={24} /> : <XCircle size={24} />}
+              <span>
+                {b.you.isCorrect
+                  ? t('competition.correct', { points: b.you.points })
+                  : t(b.you.answered ? 'competition.wrong' : 'competition.noAnswer')}
+              </span>
+            </span>
+            {!b.you.isCorrect && (
+              <span className="font-semibold">
+                {t('competition.rightAnswer')} <span dir="ltr">{formatEquation(b.question)}</span>
+              </span>
+            )}
+          </div>
+        )}
+        <h3 className="text-2xl font-black text-slate-900 flex items-center space-x-2">
+          <Trophy className="text-amber-500" size={24} />
+          <span>{t(b.final ? 'competition.finished' : 'competition.leaderboard')}</span>
+        </h3>
+        {mine && (
+          <p className="text-indigo-600 font-bold">{t('competition.yourPlace', { rank: mine.rank, count: b.standings.length })}</p>
+        )}
+        <ol className="w-full space-y-2">
+          {b.standings.slice(0, 5).map(s => (
+            <li
+              key={s.name}
+              className={`flex items-center justify-between px-4 py-2 rounded-xl ${
+                s.name === joined?.name ? 'bg-indigo-50 text-indigo-800' : 'bg-slate-50 text-slate-700'
+              }`}
+            >
+              <span className="font-bold">{s.rank}. {s.name}</span>
+              <span className="font-black">{t('common.points', { count: s.points })}</span>
+            </li>
+          ))}
+        </ol>
+        {b.final ? backButton : <p className="text-slate-500">{t('competition.waitNext')}</p>}
+      </div>
+    );
+  };
+
+  const renderScreen = () => {
+    // The final leaderboard stays up after the host has gone
+    if (board?.final) return renderLeaderboard(board);
+    if (closed) {
+      return (
+        <div className={card}>
+          <p className="text-slate-600 font-semibold">{t('competition.closed')}</p>
+          {backButton}
+        </div>
+      );
+    }
+    if (!joined) return renderJoin();
+    if (status === 'closed') {
+      return (
+        <div className={card}>
+          <WifiOff size={40} className="text-red-400" />
+          <p className="text-slate-600 font-semibold">{t('competition.lost')}</p>
+          <button
+            onClick={() => join(joined.code, joined.name)}
+            className="px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors"
+          >
+            {t('competition.reconnect')}
+          </button>
+        </div>
+      );
+    }
+    if (question) return renderQuestion(question);
+    if (board) return renderLeaderboard(board);
+    return (
+      <div className={card}>
+        <p className="text-xl font-bold text-slate-800">{t('competition.waiting', { name: joined.name })}</p>
+        <p className="text-slate-500">{t('competition.players', { count: players.length })}</p>
+        <div className="flex flex-wrap justify-center gap-2">
+          {players.map(player => (
+            <span key={player} className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-sm font-semibold">{player}</span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <Swords className="text-indigo-500" size={32} />
+          <span>{t('competition.title')}</span>
+        </h2>
+        {question && (
+          <p className="text-slate-500 mt-2">{t('playing.questionOf', { current: question.round + 1, total: question.rounds })}</p>
+        )}
+      </div>
+      {renderScreen()}
+      {!joined && !closed && backButton}
+    </div>
+  );
+}
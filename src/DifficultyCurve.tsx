@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { CartesianGrid, Cell, ComposedChart, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from 'recharts';
+import { LevelBounds, difficultyCurve, factDifficulty } from './adaptive.ts';
+import { useI18n } from './i18n.ts';
+import { formatEquation } from './questions.ts';
+import { Result } from './types.ts';
+
+interface DifficultyCurveProps {
+  results: Result[];
+  bounds: LevelBounds;
+}
+
+const AXIS_TICK = { fill: '#64748b', fontSize: 12 };
+const percent = (share: number) => Math.round(share * 100);
+
+/** The level adaptive practice picked each question at, with the facts asked and whether they were right. */
+export default function DifficultyCurve({ results, bounds }: DifficultyCurveProps) {
+  const { t } = useI18n();
+  const levels = difficultyCurve(results, bounds);
+  const data = results.map((r, i) => ({
+    number: i + 1,
+    level: percent(levels[i]),
+    difficulty: percent(factDifficulty(r.question.a, r.question.b)),
+    equation: formatEquation(r.question),
+    isCorrect: r.isCorrect
+  }));
+
+  return (
+    <div className="w-full bg-white p-8 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center space-x-2">
+          <Gauge className="text-indigo-500" size={24} />
+          <span>{t('results.difficultyCurve')}</span>
+        </h3>
+        <span className="text-sm font-semibold text-slate-500">
+          {t('results.levelChange', { start: percent(levels[0]), end: percent(levels[levels.length - 1]) })}
+        </span>
+      </div>
+      <p className="text-sm text-slate-500">{t('results.difficultyDescription')}</p>
+      <div className="h-64 w-full" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="number" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+            <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={AXIS_TICK} width={40} />
+            <Tooltip
+              labelFormatter={(number) => {
+                const point = data[Number(number) - 1];
+                return point ? `${t('results.questionNumber', { number: point.number })}: ${point.equation}` : '';
+              }}
+              formatter={(value, name) => [value, t(name === 'level' ? 'results.level' : 'results.questionDifficulty')]}
+            />
+            <Line type="stepAfter" dataKey="level" stroke="#6366f1" strokeWidth={3} dot={false} isAnimationActive={false} />
+            <Scatter dataKey="difficulty" isAnimationActive={false}>
+              {data.map(point => (
+                <Cell key={point.number} fill={point.isCorrect ? '#10b981' : '#ef4444'} />
+              ))}
+            </Scatter>
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-500">
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-4 h-1 rounded-full bg-indigo-500" />
+          <span>{t('results.level')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 rounded-full bg-emerald-500" />
+          <span>{t('results.correctQuestion')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 rounded-full bg-red-500" />
+          <span>{t('results.wrongQuestion')}</span>
+        </span>
+      </div>
+    </div>
+  );
+}
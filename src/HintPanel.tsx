@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { Lightbulb } from 'lucide-react';
+import { HintStep, hintSteps, skipCounts, splitFactor } from './hints.ts';
+import { useI18n } from './i18n.ts';
+import { questionKind } from './questions.ts';
+import { Question } from './types.ts';
+
+interface HintPanelProps {
+  question: Question;
+  shown: number; // how many steps to reveal
+  color: string; // the table colour, so the picture matches the card
+}
+
+// Dots are drawn in groups of five so they can be counted without starting over.
+const DotArray = ({ rows, columns, color }: { rows: number; columns: number; color: string }) => (
+  <div dir="ltr" className="inline-flex flex-col gap-1" aria-hidden="true">
+    {Array.from({ length: rows }, (_, row) => (
+      <div key={row} className={`flex gap-1 ${row > 0 && row % 5 === 0 ? 'mt-1.5' : ''}`}>
+        {Array.from({ length: columns }, (_, column) => (
+          <span
+            key={column}
+            className={`w-2.5 h-2.5 rounded-full ${column > 0 && column % 5 === 0 ? 'ms-1.5' : ''}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export default function HintPanel({ question, shown, color }: HintPanelProps) {
+  const { t } = useI18n();
+  const { a, b } = question;
+  const product = a * b;
+  // Division and missing factors are shown as the same picture, read the other way
+  const way = questionKind(question) === 'multiply' ? 'multiply' : 'reverse';
+  const steps = hintSteps(question);
+  const [first, second] = splitFactor(b) ?? [b, 0];
+
+  const renderStep = (step: HintStep) => {
+    switch (step) {
+      case 'array':
+        return (
+          <>
+            <p>{t(`hint.array.${way}`, { a, b, product })}</p>
+            <DotArray rows={a} columns={b} color={color} />
+          </>
+        );
+      case 'number-line':
+        return (
+          <>
+            <p>{t(`hint.numberLine.${way}`, { a, b, product })}</p>
+            <div dir="ltr" className="flex flex-wrap items-center gap-1 font-mono font-bold text-slate-700">
+              <span>0</span>
+              {skipCounts(a, b).map((value, i) => (
+                <React.Fragment key={i}>
+                  <span className="text-xs text-slate-400">+{a}→</span>
+                  <span>{way === 'multiply' && i === b - 1 ? '?' : value}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </>
+        );
+      case 'decomposition':
+        return way === 'multiply' ? (
+          <>
+            <p>{t('hint.decomposition.multiply', { a, b, first, second })}</p>
+            <p dir="ltr" className="font-mono font-bold text-slate-700">
+              {a} × {b} = {a} × {first} + {a} × {second} = {a * first} + {a * second}
+            </p>
+          </>
+        ) : (
+          <>
+            <p>{t('hint.decomposition.reverse', { a, product, first: a * first, second: a * second })}</p>
+            <p dir="ltr" className="font-mono font-bold text-slate-700">
+              {product} = {a * first} + {a * second} → {a * first} ÷ {a} + {a * second} ÷ {a}
+            </p>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full max-w-lg space-y-3" aria-live="polite">
+      {steps.slice(0, shown).map((step, i) => (
+        <motion.div
+          key={step}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-amber-50 border border-amber-100 rounded-2xl p-4 space-y-3 text-sm text-amber-900"
+        >
+          <span className="flex items-center space-x-2 text-xs font-bold uppercase tracking-widest text-amber-600">
+            <Lightbulb size={14} />
+            <span>{t('hint.title', { step: i + 1, total: steps.length })}</span>
+          </span>
+          {renderStep(step)}
+        </motion.div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import {
+  ImportError,
+  downloadFile,
+  exportFilename,
+  historyToCsv,
+  historyToJson,
+  parseHistoryImport
+} from './exportImport.ts';
+import { useI18n } from './i18n.ts';
+import { HistoryEntry } from './types.ts';
+
+interface HistoryTransferProps {
+  profileName: string;
+  history: HistoryEntry[];
+  /** Called with the parsed sessions; returns how many were new. Omit to hide the import button. */
+  onImport?: (entries: HistoryEntry[]) => number;
+}
+
+export default function HistoryTransfer({ profileName, history, onImport }: HistoryTransferProps) {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const data = parseHistoryImport(await file.text());
+      const added = onImport!(data.entries);
+      const skipped = data.entries.length - added;
+      setMessage({
+        text: [
+          t('transfer.imported', { count: added }),
+          skipped > 0 ? t('transfer.skipped', { count: skipped }) : ''
+        ].join(' ').trim(),
+        isError: false
+      });
+    } catch (e) {
+      setMessage({
+        text: e instanceof ImportError ? t(`transfer.${e.reason}`) : t('transfer.unreadable'),
+        isError: true
+      });
+    }
+  };
+
+  const buttonClass = 'flex items-center space-x-1 text-xs text-slate-400 hover:text-indigo-500 transition-colors font-bold uppercase tracking-widest disabled:opacity-50 disabled:pointer-events-none';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          disabled={history.length === 0}
+          onClick={() => downloadFile(exportFilename(profileName, 'csv'), historyToCsv(history), 'text/csv;charset=utf-8')}
+          className={buttonClass}
+        >
+          <Download size={14} />
+          <span>CSV</span>
+        </button>
+        <button
+          disabled={history.length === 0}
+          onClick={() => downloadFile(exportFilename(profileName, 'json'), historyToJson(profileName, history), 'application/json')}
+          className={buttonClass}
+        >
+          <Download size={14} />
+          <span>JSON</span>
+        </button>
+        {onImport && (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <Upload size={14} />
+              <span>{t('transfer.import')}</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+      </div>
+      {message && (
+        <p className={`text-xs font-semibold ${message.isError ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
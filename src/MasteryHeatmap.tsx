@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Grid3x3, RotateCcw } from 'lucide-react';
+import { useI18n } from './i18n.ts';
+import { factKey } from './spacedRepetition.ts';
+import {
+  FactMastery,
+  HistoryFilter,
+  TROUBLE_MEDIAN_SECONDS,
+  filterHistory,
+  getFactMastery,
+  getTroubleSpots
+} from './stats.ts';
+import { HistoryEntry, PlayType } from './types.ts';
+
+interface MasteryHeatmapProps {
+  history: HistoryEntry[];
+  onBack: () => void;
+}
+
+// The grid always shows at least the classic 10 × 10 and grows with the data.
+const MIN_GRID_SIZE = 10;
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i + 1);
+
+const TYPE_FILTERS: HistoryFilter['type'][] = ['ALL', ...Object.values(PlayType)];
+
+const cellColor = (mastery: FactMastery | undefined) => {
+  if (!mastery) return '#f1f5f9';
+  // Red at 0 % through amber to emerald at 100 %
+  const hue = Math.round(mastery.accuracy * 140);
+  return `hsl(${hue}, 75%, ${mastery.medianTime > TROUBLE_MEDIAN_SECONDS ? 62 : 50}%)`;
+};
+
+const parseDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export default function MasteryHeatmap({ history, onBack }: MasteryHeatmapProps) {
+  const { t } = useI18n();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [type, setType] = useState<HistoryFilter['type']>('ALL');
+
+  const mastery = useMemo(() => {
+    const filter: HistoryFilter = {
+      from: parseDateInput(fromDate, false),
+      to: parseDateInput(toDate, true),
+      type
+    };
+    return getFactMastery(filterHistory(history, filter));
+  }, [history, fromDate, toDate, type]);
+
+  const facts = Object.values(mastery) as FactMastery[];
+  const hasData = facts.length > 0;
+
+  const troubleSpots = getTroubleSpots(mastery).slice(0, 8);
+
+  const tables = range(Math.max(MIN_GRID_SIZE, ...facts.map(m => m.a)));
+  const factors = range(Math.max(MIN_GRID_SIZE, ...facts.map(m => m.b)));
+  const compact = factors.length > 12;
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-4xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <Grid3x3 className="text-indigo-500" size={32} />
+          <span>{t('menu.masteryMap')}</span>
+        </h2>
+        <p className="text-slate-500 mt-2">{t('mastery.description')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm flex flex-wrap items-end gap-4">
+        <label className="flex flex-col text-sm font-semibold text-slate-600">
+          {t('mastery.from')}
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="mt-1 px-3 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col text-sm font-semibold text-slate-600">
+          {t('mastery.to')}
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="mt-1 px-3 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none"
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {TYPE_FILTERS.map(option => (
+            <button
+              key={option}
+              onClick={() => setType(option)}
+              className={`px-4 py-2 rounded-xl font-semibold text-sm border-2 transition-colors ${
+                type === option ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-300'
+              }`}
+            >
+              {t(`playType.${option}`)}
+            </button>
+          ))}
+        </div>
+        {(fromDate || toDate || type !== 'ALL') && (
+          <button
+            onClick={() => {
+              setFromDate('');
+              setToDate('');
+              setType('ALL');
+            }}
+            className="p-2 text-slate-400 hover:text-indigo-500 transition-colors"
+            title={t('mastery.clearFilters')}
+          >
+            <RotateCcw size={18} />
+          </button>
+        )}
+      </div>
+
+      {/* Grid */}
+      <div className="w-full bg-white rounded-3xl border border-slate-100 p-4 sm:p-6 shadow-sm overflow-x-auto">
+        {!hasData && (
+          <p className="text-slate-500 mb-4">{t('mastery.noAnswers')}</p>
+        )}
+        <table className="mx-auto border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="w-8 text-slate-300 font-black">×</th>
+              {factors.map(b => (
+                <th key={b} className={`${compact ? 'w-9' : 'w-12'} text-sm font-bold text-slate-500`}>{b}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {tables.map(a => (
+              <tr key={a}>
+                <th className="text-sm font-bold text-slate-500">{a}</th>
+                {factors.map(b => {
+                  const m = mastery[factKey(a, b)];
+                  return (
+                    <td
+                      key={b}
+                      style={{ backgroundColor: cellColor(m) }}
+                      className={`${compact ? 'w-9 h-9' : 'w-12 h-12'} rounded-lg text-center align-middle leading-tight ${m ? 'text-white' : 'text-slate-300'}`}
+                      title={m
+                        ? t('mastery.cell', { fact: `${a} × ${b}`, correct: m.correct, attempts: m.attempts, seconds: m.medianTime.toFixed(1) })
+                        : t('mastery.cellEmpty', { fact: `${a} × ${b}` })}
+                    >
+                      {m ? (
+                        <>
+                          <span className={`block font-black ${compact ? 'text-[10px]' : 'text-xs'}`}>{Math.round(m.accuracy * 100)}%</span>
+                          {!compact && (
+                            <span className="block text-[10px] font-semibold opacity-90">{m.medianTime.toFixed(1)}s</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-xs">–</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center justify-center space-x-3 mt-4 text-xs text-slate-500">
+          <span>{t('mastery.legendWrong')}</span>
+          <div className="h-3 w-40 rounded-full" style={{ background: 'linear-gradient(90deg, hsl(0,75%,50%), hsl(70,75%,50%), hsl(140,75%,50%))' }} />
+          <span>{t('mastery.legendRight')}</span>
+          <span className="text-slate-300">·</span>
+          <span>{t('mastery.legendSlow')}</span>
+        </div>
+      </div>
+
+      {troubleSpots.length > 0 && (
+        <div className="w-full bg-orange-50 p-6 rounded-3xl border border-orange-100">
+          <h3 className="text-lg font-bold text-orange-800 mb-4">{t('mastery.trouble')}</h3>
+          <div className="flex flex-wrap gap-3">
+            {troubleSpots.map(m => (
+              <span key={factKey(m.a, m.b)} className="px-4 py-2 bg-white text-orange-600 font-bold rounded-xl border border-orange-200 shadow-sm">
+                {m.a} × {m.b} · {Math.round(m.accuracy * 100)}% · {m.medianTime.toFixed(1)}s
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        {t('common.backToMenu')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Lightbulb, Sparkles } from 'lucide-react';
+import { AiClient, AiSource, getMistakeFeedback } from './ai.ts';
+import { useI18n } from './i18n.ts';
+import { Question } from './types.ts';
+
+interface MistakeFeedbackProps {
+  client: AiClient | null;
+  mistakes: Question[];
+}
+
+export default function MistakeFeedback({ client, mistakes }: MistakeFeedbackProps) {
+  const { t } = useI18n();
+  const [feedback, setFeedback] = useState<{ text: string; source: AiSource } | null>(null);
+
+  // The results screen re-renders often; only ask again when the mistakes change
+  const mistakeKey = mistakes.map(q => `${q.kind}:${q.a}x${q.b}`).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setFeedback(null);
+    getMistakeFeedback(client, mistakes).then(result => {
+      if (!cancelled) setFeedback(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, mistakeKey]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-red-100 p-5 shadow-sm" aria-live="polite">
+      <h4 className="font-bold text-slate-800 flex items-center space-x-2 mb-2">
+        {feedback?.source === 'ai' ? <Sparkles size={18} className="text-indigo-500" /> : <Lightbulb size={18} className="text-amber-500" />}
+        <span>{t('feedback.title')}</span>
+      </h4>
+      {feedback ? (
+        <>
+          <p className="text-slate-600 whitespace-pre-line leading-relaxed">{feedback.text}</p>
+          {feedback.source === 'ai' && <p className="text-[10px] text-slate-400 mt-2 uppercase tracking-widest font-bold">{t('feedback.byAi')}</p>}
+        </>
+      ) : (
+        <p className="text-slate-400 animate-pulse">{t('feedback.loading')}</p>
+      )}
+    </div>
+  );
+}
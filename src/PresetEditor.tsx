@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Copy, Plus, Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { DEFAULT_PRESET, DEFAULT_PRESET_ID, SCORING_CURVE_LABELS, createPreset, validatePreset } from './presets.ts';
+import { TestPreset } from './types.ts';
+
+interface PresetEditorProps {
+  presets: TestPreset[];
+  onChange: (presets: TestPreset[]) => void;
+  onBack: () => void;
+}
+
+type NumericField = 'questionCount' | 'timePerQuestion' | 'minFactor' | 'maxFactor' | 'maxPoints' | 'passScore' | 'passPoints';
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; step?: number }[] = [
+  { key: 'questionCount', label: 'Antal frågor' },
+  { key: 'timePerQuestion', label: 'Sekunder per fråga', step: 0.5 },
+  { key: 'minFactor', label: 'Minsta faktor' },
+  { key: 'maxFactor', label: 'Största faktor' },
+  { key: 'maxPoints', label: 'Maxpoäng per fråga' },
+  { key: 'passScore', label: 'Godkänt: antal rätt' },
+  { key: 'passPoints', label: 'Godkänt: snabbhetspoäng' }
+];
+
+export default function PresetEditor({ presets, onChange, onBack }: PresetEditorProps) {
+  const [draft, setDraft] = useState<TestPreset>(presets[0] ?? DEFAULT_PRESET);
+  const [error, setError] = useState<string | null>(null);
+
+  const isNew = !presets.some(p => p.id === draft.id);
+
+  const updateDraft = <K extends keyof TestPreset>(key: K, value: TestPreset[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const savePreset = () => {
+    const validationError = validatePreset(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onChange(isNew ? [...presets, draft] : presets.map(p => p.id === draft.id ? draft : p));
+  };
+
+  const deletePreset = () => {
+    if (!window.confirm(`Vill du ta bort "${draft.name}"?`)) return;
+    const remaining = presets.filter(p => p.id !== draft.id);
+    onChange(remaining);
+    setDraft(remaining[0] ?? DEFAULT_PRESET);
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-4xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <SlidersHorizontal className="text-indigo-500" size={32} />
+          <span>Testinställningar</span>
+        </h2>
+        <p className="text-slate-500 mt-2">Anpassa testet efter årskursen. Eleverna väljer inställning innan de startar.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full">
+        {/* Preset List */}
+        <div className="bg-white rounded-3xl border border-slate-100 p-4 shadow-sm space-y-2">
+          {presets.map(p => (
+            <button
+              key={p.id}
+              onClick={() => {
+                setDraft(p);
+                setError(null);
+              }}
+              className={`w-full text-left px-4 py-3 rounded-xl font-semibold transition-colors ${
+                p.id === draft.id ? 'bg-indigo-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              <span className="block">{p.name}</span>
+              <span className={`block text-xs ${p.id === draft.id ? 'text-indigo-100' : 'text-slate-400'}`}>
+                {p.questionCount} frågor · {p.timePerQuestion} s · {p.minFactor}–{p.maxFactor}
+              </span>
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setDraft(createPreset(DEFAULT_PRESET, 'Ny inställning'));
+              setError(null);
+            }}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-3 rounded-xl border-2 border-dashed border-slate-200 text-slate-500 font-semibold hover:border-indigo-300 hover:text-indigo-500 transition-colors"
+          >
+            <Plus size={18} />
+            <span>Ny inställning</span>
+          </button>
+        </div>
+
+        {/* Preset Form */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            savePreset();
+          }}
+          className="md:col-span-2 bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-4"
+        >
+          <label className="block text-sm font-semibold text-slate-600">
+            Namn
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft('name', e.target.value)}
+              className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none text-slate-800"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            {NUMERIC_FIELDS.map(field => (
+              <label key={field.key} className="block text-sm font-semibold text-slate-600">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step ?? 1}
+                  value={draft[field.key]}
+                  onChange={(e) => updateDraft(field.key, Number(e.target.value))}
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none text-slate-800"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm font-semibold text-slate-600">
+              Poängkurva
+              <select
+                value={draft.scoringCurve}
+                onChange={(e) => updateDraft('scoringCurve', e.target.value as TestPreset['scoringCurve'])}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 bg-white focus:border-indigo-500 focus:outline-none text-slate-800"
+              >
+                {(Object.keys(SCORING_CURVE_LABELS) as TestPreset['scoringCurve'][]).map(curve => (
+                  <option key={curve} value={curve}>{SCORING_CURVE_LABELS[curve]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-semibold text-slate-600">
+              Godkänt när
+              <select
+                value={draft.passRule}
+                onChange={(e) => updateDraft('passRule', e.target.value as TestPreset['passRule'])}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 bg-white focus:border-indigo-500 focus:outline-none text-slate-800"
+              >
+                <option value="either">någon av gränserna nås</option>
+                <option value="both">båda gränserna nås</option>
+              </select>
+            </label>
+            <label className="block text-sm font-semibold text-slate-600">
+              Paus under test
+              <select
+                value={draft.pausePolicy}
+                onChange={(e) => updateDraft('pausePolicy', e.target.value as TestPreset['pausePolicy'])}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 bg-white focus:border-indigo-500 focus:outline-none text-slate-800"
+              >
+                <option value="forbid">Inte tillåten</option>
+                <option value="record">Tillåten, sparas i historiken</option>
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">
+            Testet pausas alltid om eleven lämnar sidan, och pausen sparas i historiken.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-100 text-red-700 rounded-xl p-3 text-sm font-medium">{error}</div>
+          )}
+
+          <div className="flex flex-wrap gap-3 pt-2">
+            <button
+              type="submit"
+              className="px-6 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors flex items-center space-x-2"
+            >
+              <Save size={18} />
+              <span>{isNew ? 'Skapa' : 'Spara'}</span>
+            </button>
+            {!isNew && (
+              <button
+                type="button"
+                onClick={() => setDraft(createPreset(draft, `${draft.name} (kopia)`))}
+                className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors flex items-center space-x-2"
+              >
+                <Copy size={18} />
+                <span>Kopiera</span>
+              </button>
+            )}
+            {!isNew && draft.id !== DEFAULT_PRESET_ID && (
+              <button
+                type="button"
+                onClick={deletePreset}
+                className="px-6 py-3 bg-red-50 text-red-600 rounded-xl font-semibold hover:bg-red-100 transition-colors flex items-center space-x-2"
+              >
+                <Trash2 size={18} />
+                <span>Ta bort</span>
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        Tillbaka till menyn
+      </button>
+    </div>
+  );
+}
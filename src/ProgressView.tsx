@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, Grid3x3, Timer, TrendingUp } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { getTableColor } from './colors.ts';
+import { useI18n } from './i18n.ts';
+import { tableAccuracyTrend, testProgress, testedPresets } from './stats.ts';
+import { HistoryEntry } from './types.ts';
+
+interface ProgressViewProps {
+  history: HistoryEntry[];
+  tableColors: Record<number, string>;
+  onBack: () => void;
+}
+
+const AXIS_TICK = { fill: '#64748b', fontSize: 12 };
+
+export default function ProgressView({ history, tableColors, onBack }: ProgressViewProps) {
+  const { t, formatDate, formatDateTime } = useI18n();
+  const presets = useMemo(() => testedPresets(history), [history]);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const preset = presets.find(p => p.id === presetId) ?? presets[0];
+  const tests = useMemo(() => preset ? testProgress(history, preset.id) : [], [history, preset]);
+  const trend = useMemo(() => tableAccuracyTrend(history), [history]);
+  const [hiddenTables, setHiddenTables] = useState<number[]>([]);
+
+  const trendData = trend.points.map(p => ({
+    week: p.week,
+    ...Object.fromEntries(trend.tables.map(table => {
+      const accuracy = p.accuracy[table];
+      return [table, accuracy === null ? null : Math.round(accuracy * 100)];
+    }))
+  }));
+
+  const toggleTable = (table: number) => {
+    setHiddenTables(prev => prev.includes(table) ? prev.filter(x => x !== table) : [...prev, table]);
+  };
+
+  const renderTestChart = (dataKey: 'score' | 'points', max: number, passMark: number, icon: React.ReactNode, title: string) => (
+    <div className="w-full bg-white p-6 sm:p-8 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+      <h3 className="text-xl font-bold text-slate-800 flex items-center space-x-2">
+        {icon}
+        <span>{title}</span>
+      </h3>
+      <div className="h-64 w-full" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={tests} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="time" tickFormatter={formatDate} axisLine={false} tickLine={false} tick={AXIS_TICK} minTickGap={20} />
+            <YAxis domain={[0, max]} allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} width={40} />
+            <Tooltip labelFormatter={(time) => formatDateTime(Number(time))} formatter={(value) => [value, title]} />
+            <ReferenceLine
+              y={passMark}
+              stroke="#10b981"
+              strokeDasharray="6 4"
+              label={{ value: t('progress.passMark', { mark: passMark }), position: 'insideTopLeft', fill: '#059669', fontSize: 12 }}
+            />
+            <Line type="monotone" dataKey={dataKey} stroke="#6366f1" strokeWidth={3} dot={{ r: 4 }} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-4xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <TrendingUp className="text-indigo-500" size={32} />
+          <span>{t('progress.title')}</span>
+        </h2>
+        <p className="text-slate-500 mt-2">{t('progress.description')}</p>
+      </div>
+
+      {preset ? (
+        <>
+          {presets.length > 1 && (
+            <div className="w-full flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold text-slate-600">{t('progress.preset')}</span>
+              {presets.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setPresetId(p.id)}
+                  className={`px-4 py-2 rounded-xl font-semibold text-sm border-2 transition-colors ${
+                    p.id === preset.id ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-300'
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="w-full text-sm text-slate-500">
+            {t('progress.testCount', { count: tests.length })} · {t('progress.passedCount', { count: tests.filter(p => p.isPassed).length })}
+          </p>
+          {renderTestChart(
+            'score',
+            preset.questionCount,
+            preset.passScore,
+            <CheckCircle2 className="text-emerald-500" size={24} />,
+            t('results.correctCount')
+          )}
+          {renderTestChart(
+            'points',
+            preset.questionCount * preset.maxPoints,
+            preset.passPoints,
+            <Timer className="text-indigo-500" size={24} />,
+            t('results.speedPoints')
+          )}
+        </>
+      ) : (
+        <p className="w-full bg-white p-6 rounded-3xl border border-slate-100 text-slate-500">{t('progress.noTests')}</p>
+      )}
+
+      <div className="w-full bg-white p-6 sm:p-8 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center space-x-2">
+          <Grid3x3 className="text-indigo-500" size={24} />
+          <span>{t('progress.perTable')}</span>
+        </h3>
+        {trend.points.length === 0 ? (
+          <p className="text-slate-500">{t('progress.noAnswers')}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {trend.tables.map(table => {
+                const color = getTableColor(tableColors, table);
+                const shown = !hiddenTables.includes(table);
+                return (
+                  <button
+                    key={table}
+                    onClick={() => toggleTable(table)}
+                    aria-pressed={shown}
+                    style={shown ? { backgroundColor: color, borderColor: color } : { borderColor: color, color }}
+                    className={`w-10 h-10 rounded-xl border-2 font-bold transition-colors ${shown ? 'text-white' : 'bg-white'}`}
+                  >
+                    {table}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="h-72 w-full" dir="ltr">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trendData} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis
+                    dataKey="week"
+                    tickFormatter={formatDate}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={AXIS_TICK}
+                    minTickGap={20}
+                  />
+                  <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={AXIS_TICK} width={48} />
+                  <Tooltip
+                    labelFormatter={(week) => t('progress.week', { date: formatDate(Number(week)) })}
+                    formatter={(value, table) => [`${value} %`, t('results.table', { table: String(table) })]}
+                  />
+                  {trend.tables.filter(table => !hiddenTables.includes(table)).map(table => (
+                    <Line
+                      key={table}
+                      type="monotone"
+                      dataKey={String(table)}
+                      stroke={getTableColor(tableColors, table)}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-white text-slate-600 border-2 border-slate-100 rounded-xl font-semibold hover:border-slate-300 transition-colors"
+      >
+        {t('common.backToMenu')}
+      </button>
+    </div>
+  );
+}
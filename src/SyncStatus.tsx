@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Cloud, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { useI18n } from './i18n.ts';
+
+interface SyncStatusProps {
+  pending: number;
+  isOnline: boolean;
+  isSyncing: boolean;
+  onRetry: () => void;
+}
+
+export default function SyncStatus({ pending, isOnline, isSyncing, onRetry }: SyncStatusProps) {
+  const { t } = useI18n();
+  const waiting = t('sync.waiting', { count: pending });
+
+  let icon = <Cloud size={16} />;
+  let label = t('sync.allSent');
+  let tone = 'text-slate-400';
+  if (isSyncing) {
+    icon = <RefreshCw size={16} className="animate-spin" />;
+    label = t('sync.sending');
+    tone = 'text-indigo-500';
+  } else if (!isOnline) {
+    icon = <CloudOff size={16} />;
+    label = pending > 0 ? `${t('sync.offline')} · ${waiting}` : t('sync.offline');
+    tone = 'text-amber-600';
+  } else if (pending > 0) {
+    icon = <CloudUpload size={16} />;
+    label = waiting;
+    tone = 'text-amber-600';
+  }
+
+  return (
+    <button
+      onClick={onRetry}
+      disabled={isSyncing || pending === 0}
+      className={`flex items-center space-x-1.5 text-xs font-bold uppercase tracking-wider ${tone} disabled:cursor-default`}
+      title={pending > 0 ? t('sync.retry') : undefined}
+      aria-live="polite"
+    >
+      {icon}
+      <span className="hidden sm:inline">{label}</span>
+    </button>
+  );
+}
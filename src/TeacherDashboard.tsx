@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CheckCircle2, ChevronRight, Flag, KeyRound, Plus, RotateCcw, Users, XCircle } from 'lucide-react';
+import { describeAccommodations } from './accommodations.ts';
+import { createClass, fetchClassOverview } from './api.ts';
+import { describeIntegrityFlags } from './integrity.ts';
+import { ClassOverview } from './types.ts';
+
+interface TeacherDashboardProps {
+  onBack: () => void;
+}
+
+export default function TeacherDashboard({ onBack }: TeacherDashboardProps) {
+  const [classCode, setClassCode] = useState('');
+  const [teacherKey, setTeacherKey] = useState('');
+  const [newTeacherKey, setNewTeacherKey] = useState<string | null>(null);
+  const [newClassName, setNewClassName] = useState('');
+  const [overview, setOverview] = useState<ClassOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadOverview = async (code: string, key: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setOverview(await fetchClassOverview(code, key));
+    } catch (e) {
+      setOverview(null);
+      setError('Kunde inte hämta klassen. Kontrollera klasskoden, lärarnyckeln och att servern är igång.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateClass = async () => {
+    const name = newClassName.trim();
+    if (!name) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const created = await createClass(name);
+      setNewClassName('');
+      setClassCode(created.code);
+      setTeacherKey(created.teacherKey);
+      setNewTeacherKey(created.teacherKey);
+      setOverview({ class: created, students: [] });
+    } catch (e) {
+      setError('Kunde inte skapa klassen. Är servern igång?');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-4xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900">Lärarvy</h2>
+        <p className="text-slate-500 mt-2">Se elevernas senaste test och vilka tabeller de behöver träna på.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setNewTeacherKey(null);
+            if (classCode.trim() && teacherKey.trim()) loadOverview(classCode, teacherKey);
+          }}
+          className="bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-3"
+        >
+          <label className="block text-sm font-bold text-slate-700">Öppna klass</label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={classCode}
+              onChange={(e) => setClassCode(e.target.value.toUpperCase())}
+              placeholder="Klasskod"
+              className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-mono tracking-widest uppercase"
+            />
+            <input
+              type="password"
+              value={teacherKey}
+              onChange={(e) => setTeacherKey(e.target.value)}
+              placeholder="Lärarnyckel"
+              className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none font-mono"
+            />
+            <button
+              type="submit"
+              disabled={!classCode.trim() || !teacherKey.trim() || loading}
+              className="px-4 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight size={20} />
+            </button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreateClass();
+          }}
+          className="bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-3"
+        >
+          <label className="block text-sm font-bold text-slate-700">Skapa ny klass</label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newClassName}
+              onChange={(e) => setNewClassName(e.target.value)}
+              placeholder="T.ex. 4B"
+              className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-emerald-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newClassName.trim() || loading}
+              className="px-4 py-2 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus size={20} />
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {newTeacherKey && (
+        <div className="w-full bg-amber-50 border border-amber-100 text-amber-800 rounded-2xl p-4 space-y-1">
+          <p className="flex items-center space-x-2 font-bold">
+            <KeyRound size={18} />
+            <span>Lärarnyckel: <span className="font-mono select-all">{newTeacherKey}</span></span>
+          </p>
+          <p className="text-sm">
+            Spara nyckeln. Den visas bara nu och behövs för att öppna klassen igen. Eleverna behöver bara klasskoden.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="w-full bg-red-50 border border-red-100 text-red-700 rounded-2xl p-4 font-medium">{error}</div>
+      )}
+
+      {overview && (
+        <div className="w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center space-x-2">
+              <Users size={20} className="text-indigo-500" />
+              <span>{overview.class.name}</span>
+            </h3>
+            <div className="flex items-center space-x-3">
+              <span className="font-mono font-bold tracking-widest text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full">
+                {overview.class.code}
+              </span>
+              <button
+                onClick={() => loadOverview(overview.class.code, teacherKey)}
+                className="p-2 text-slate-400 hover:text-indigo-500 transition-colors"
+                title="Uppdatera"
+              >
+                <RotateCcw size={18} />
+              </button>
+            </div>
+          </div>
+
+          {overview.students.length === 0 ? (
+            <p className="text-slate-500">
+              Inga resultat ännu. Be eleverna skriva in klasskoden <span className="font-mono font-bold">{overview.class.code}</span> i sin profil.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">
+                    <th className="py-2 pr-4">Elev</th>
+                    <th className="py-2 pr-4">Senaste test</th>
+                    <th className="py-2 pr-4">Resultat</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2">Behöver träna</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overview.students.map(student => (
+                    <tr key={student.studentId} className="border-t border-slate-100">
+                      <td className="py-3 pr-4 font-bold text-slate-700">{student.name}</td>
+                      {student.latestTest ? (
+                        <>
+                          <td className="py-3 pr-4 text-slate-500">
+                            {student.latestTest.date}
+                            {student.latestTest.testCode && (
+                              <span className="block text-xs font-mono text-slate-400">{student.latestTest.testCode}</span>
+                            )}
+                          </td>
+                          <td className="py-3 pr-4 text-slate-700">
+                            {student.latestTest.score}/{student.latestTest.total} · {student.latestTest.points}p
+                            {student.latestTest.accommodations && (
+                              <span className="block text-xs font-bold text-amber-600">
+                                Anpassat · {describeAccommodations(student.latestTest.accommodations)}
+                              </span>
+                            )}
+                            {student.latestTest.integrityFlags && (
+                              <span className="flex items-center space-x-1 text-xs font-bold text-red-600">
+                                <Flag size={12} />
+                                <span>Granska · {describeIntegrityFlags(student.latestTest.integrityFlags)}</span>
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 pr-4">
+                            {student.latestTest.isPassed ? (
+                              <span className="inline-flex items-center space-x-1 text-emerald-600 font-black">
+                                <CheckCircle2 size={16} />
+                                <span>GODKÄND</span>
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center space-x-1 text-slate-400 font-bold">
+                                <XCircle size={16} />
+                                <span>Ej godkänd</span>
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3">
+                            <div className="flex flex-wrap gap-1">
+                              {student.latestTest.weakTables.map(t => (
+                                <span key={t} className="px-2 py-0.5 bg-orange-50 text-orange-600 font-bold rounded-lg border border-orange-100">
+                                  {t}
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={4} className="py-3 text-slate-400">
+                          Inget test ännu ({student.sessionCount} övningar)
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        Tillbaka till menyn
+      </button>
+    </div>
+  );
+}
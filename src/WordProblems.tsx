@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { BookOpen, CheckCircle2, RefreshCw, XCircle } from 'lucide-react';
+import { AiClient, AiSource, WORD_PROBLEM_COUNT, WordProblem, getWordProblems } from './ai.ts';
+import { useI18n } from './i18n.ts';
+import { generateQuestionSet } from './questions.ts';
+
+interface WordProblemsProps {
+  client: AiClient | null;
+  tables: number[];
+  factors: number[];
+  onBack: () => void;
+}
+
+export default function WordProblems({ client, tables, factors, onBack }: WordProblemsProps) {
+  const { t } = useI18n();
+  const [round, setRound] = useState(0);
+  const [problems, setProblems] = useState<WordProblem[] | null>(null);
+  const [source, setSource] = useState<AiSource>('local');
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [checked, setChecked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const facts = generateQuestionSet({ tables, factors, count: WORD_PROBLEM_COUNT, kinds: ['multiply'] });
+    setProblems(null);
+    setAnswers(facts.map(() => ''));
+    setChecked(false);
+    getWordProblems(client, facts).then(result => {
+      if (cancelled) return;
+      setProblems(result.problems);
+      setSource(result.source);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [round]);
+
+  const correctCount = problems?.filter((p, i) => Number(answers[i]) === p.a * p.b).length ?? 0;
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <BookOpen className="text-indigo-500" size={32} />
+          <span>{t('setup.wordProblems')}</span>
+        </h2>
+        <p className="text-slate-500 mt-2">{t('wordProblems.description')}</p>
+      </div>
+
+      {!problems ? (
+        <p className="text-slate-400 animate-pulse" aria-live="polite">{t('wordProblems.loading')}</p>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setChecked(true);
+          }}
+          className="w-full space-y-4"
+        >
+          {problems.map((p, i) => {
+            const isCorrect = Number(answers[i]) === p.a * p.b;
+            return (
+              <div key={i} className="bg-white rounded-2xl border border-slate-100 p-5 shadow-sm space-y-3">
+                <p className="text-lg text-slate-800">
+                  <span className="font-black text-slate-400 mr-2">{i + 1}.</span>
+                  {p.text}
+                </p>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    value={answers[i] ?? ''}
+                    disabled={checked}
+                    onChange={(e) => setAnswers(prev => prev.map((a, j) => j === i ? e.target.value : a))}
+                    aria-label={t('wordProblems.answerLabel', { number: i + 1 })}
+                    className="w-32 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none text-xl font-bold"
+                  />
+                  {checked && (
+                    isCorrect ? (
+                      <span className="flex items-center space-x-1 text-emerald-600 font-bold">
+                        <CheckCircle2 size={20} />
+                        <span>{t('wordProblems.correct')}</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 text-red-500 font-bold">
+                        <XCircle size={20} />
+                        <span>{p.a} × {p.b} = {p.a * p.b}</span>
+                      </span>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {source === 'ai' && (
+            <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold text-center">{t('wordProblems.byAi')}</p>
+          )}
+
+          <div className="flex justify-center">
+            {checked ? (
+              <div className="flex flex-col items-center space-y-4">
+                <p className="text-xl font-bold text-slate-800" aria-live="polite">
+                  {t('wordProblems.score', { correct: correctCount, total: problems.length })}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setRound(r => r + 1)}
+                  className="px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 transition-colors flex items-center space-x-2"
+                >
+                  <RefreshCw size={18} />
+                  <span>{t('wordProblems.newProblems')}</span>
+                </button>
+              </div>
+            ) : (
+              <button
+                type="submit"
+                className="px-8 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors"
+              >
+                {t('wordProblems.check')}
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+      >
+        {t('common.back')}
+      </button>
+    </div>
+  );
+}
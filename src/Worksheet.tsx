@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { FileText, Printer, RefreshCw } from 'lucide-react';
+import { formatEquation } from './questions.ts';
+import { randomSeed } from './random.ts';
+import {
+  MAX_WORKSHEET_PROBLEMS,
+  MIN_WORKSHEET_PROBLEMS,
+  WORKSHEET_COLUMN_OPTIONS,
+  WorksheetConfig,
+  decodeWorksheetCode,
+  encodeWorksheetCode,
+  generateWorksheet,
+  worksheetTokens
+} from './worksheet.ts';
+
+interface WorksheetProps {
+  /** Built from the setup screen; its weak facts are the ones the toggle adds. */
+  initialConfig: WorksheetConfig;
+  onBack: () => void;
+}
+
+const clampCount = (n: number) =>
+  Math.min(MAX_WORKSHEET_PROBLEMS, Math.max(MIN_WORKSHEET_PROBLEMS, Math.round(n) || MIN_WORKSHEET_PROBLEMS));
+
+export default function Worksheet({ initialConfig, onBack }: WorksheetProps) {
+  const [config, setConfig] = useState<WorksheetConfig>(initialConfig);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState(false);
+
+  const problems = useMemo(() => generateWorksheet(config), [config]);
+  const code = encodeWorksheetCode(config);
+  const gridStyle = { gridTemplateColumns: `repeat(${config.columns}, minmax(0, 1fr))` };
+
+  const updateConfig = (changes: Partial<WorksheetConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const loadCode = () => {
+    const decoded = decodeWorksheetCode(codeInput);
+    setCodeError(!decoded);
+    if (decoded) {
+      setConfig(decoded);
+      setCodeInput('');
+    }
+  };
+
+  const pageHeader = (title: string) => (
+    <div className="flex items-end justify-between border-b-2 border-slate-800 pb-3 mb-6">
+      <div>
+        <h3 className="text-2xl font-black tracking-tight">{title}</h3>
+        <p className="text-sm text-slate-500">
+          Tabell {config.tables.join(', ')} · faktorer {config.minFactor}–{config.maxFactor}
+        </p>
+      </div>
+      <p className="text-xs text-slate-400 font-mono">Kod: {code}</p>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center space-y-8 py-8 print:py-0 print:space-y-0 max-w-4xl mx-auto">
+      <div className="text-center print:hidden">
+        <h2 className="text-3xl font-bold text-slate-900 flex items-center justify-center space-x-3">
+          <FileText className="text-indigo-500" size={32} />
+          <span>Arbetsblad</span>
+        </h2>
+        <p className="text-slate-500 mt-2">Skriv ut uppgifter och facit. Koden på bladet skapar samma blad igen.</p>
+      </div>
+
+      {/* Controls */}
+      <div className="w-full bg-white rounded-3xl border border-slate-100 p-6 shadow-sm space-y-4 print:hidden">
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-sm font-semibold text-slate-600">
+            Antal uppgifter
+            <input
+              type="number"
+              min={MIN_WORKSHEET_PROBLEMS}
+              max={MAX_WORKSHEET_PROBLEMS}
+              value={config.count}
+              onChange={(e) => updateConfig({ count: clampCount(Number(e.target.value)) })}
+              className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none text-slate-800"
+            />
+          </label>
+          <label className="block text-sm font-semibold text-slate-600">
+            Kolumner
+            <select
+              value={config.columns}
+              onChange={(e) => updateConfig({ columns: Number(e.target.value) })}
+              className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-slate-100 bg-white focus:border-indigo-500 focus:outline-none text-slate-800"
+            >
+              {WORKSHEET_COLUMN_OPTIONS.map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {initialConfig.weakFacts.length > 0 && (
+          <label className="flex items-center space-x-2 text-sm font-semibold text-slate-600">
+            <input
+              type="checkbox"
+              checked={config.weakFacts.length > 0}
+              onChange={(e) => updateConfig({ weakFacts: e.target.checked ? initialConfig.weakFacts : [] })}
+              className="w-4 h-4 accent-indigo-500"
+            />
+            <span>Ta med svåra uppgifter från historiken ({initialConfig.weakFacts.length} st)</span>
+          </label>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadCode();
+          }}
+          className="flex flex-wrap gap-2"
+        >
+          <input
+            type="text"
+            value={codeInput}
+            onChange={(e) => {
+              setCodeInput(e.target.value);
+              setCodeError(false);
+            }}
+            placeholder="Kod från ett utskrivet blad"
+            className="flex-1 min-w-48 px-4 py-2 rounded-xl border-2 border-slate-100 focus:border-indigo-500 focus:outline-none text-slate-800 font-mono text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!codeInput.trim()}
+            className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            Skapa från kod
+          </button>
+        </form>
+        {codeError && <p className="text-sm font-medium text-red-600">Koden känns inte igen.</p>}
+
+        <div className="flex flex-wrap gap-3 pt-2">
+          <button
+            onClick={() => window.print()}
+            className="px-6 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors flex items-center space-x-2"
+          >
+            <Printer size={18} />
+            <span>Skriv ut</span>
+          </button>
+          <button
+            onClick={() => updateConfig({ seed: randomSeed() })}
+            className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors flex items-center space-x-2"
+          >
+            <RefreshCw size={18} />
+            <span>Nytt blad</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Problems */}
+      <section className="worksheet-page w-full bg-white rounded-3xl border border-slate-100 p-8 shadow-sm print:rounded-none print:border-0 print:shadow-none print:p-0">
+        {pageHeader('Multiplikation')}
+        <div className="flex space-x-8 mb-8 text-sm font-semibold text-slate-600">
+          <span className="flex-1 border-b border-slate-300 pb-1">Namn:</span>
+          <span className="w-48 border-b border-slate-300 pb-1">Datum:</span>
+        </div>
+        <ol className="grid gap-x-6 gap-y-5 text-lg" style={gridStyle}>
+          {problems.map((q, i) => (
+            <li key={i} className="flex items-baseline space-x-2 break-inside-avoid">
+              <span className="text-xs text-slate-400 w-6 text-right">{i + 1}.</span>
+              <span className="font-semibold tabular-nums whitespace-nowrap">{worksheetTokens(q).join(' ')}</span>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {/* Answer key */}
+      <section className="worksheet-page w-full bg-white rounded-3xl border border-slate-100 p-8 shadow-sm print:rounded-none print:border-0 print:shadow-none print:p-0">
+        {pageHeader('Facit')}
+        <ol className="grid gap-x-6 gap-y-2 text-sm" style={gridStyle}>
+          {problems.map((q, i) => (
+            <li key={i} className="flex items-baseline space-x-2">
+              <span className="text-xs text-slate-400 w-6 text-right">{i + 1}.</span>
+              <span className="tabular-nums whitespace-nowrap">
+                {formatEquation(q)} <span className="font-black">({q.answer})</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      <button
+        onClick={onBack}
+        className="px-6 py-3 bg-slate-100 text-slate-600 rounded-xl font-semibold hover:bg-slate-200 transition-colors print:hidden"
+      >
+        Tillbaka
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Translator } from './i18n.ts';
+import { questionKind } from './questions.ts';
+import { AccessibilitySettings, Question } from './types.ts';
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  motion: 'system',
+  highContrast: false,
+  palette: 'standard',
+  readAloud: false
+};
+
+// --- Reduced motion ---
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const usePrefersReducedMotion = () => {
+  const [prefersReduced, setPrefersReduced] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setPrefersReduced(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return prefersReduced;
+};
+
+/** 'system' follows the operating system setting; the other two override it. */
+export const shouldReduceMotion = (settings: AccessibilitySettings, prefersReduced: boolean) =>
+  settings.motion === 'reduce' || (settings.motion === 'system' && prefersReduced);
+
+// --- Speech ---
+
+export const isSpeechAvailable = () => 'speechSynthesis' in window;
+
+/** Reads `text` aloud, cutting off anything still being spoken. */
+export const speak = (text: string, lang: string, volume = 1) => {
+  if (!isSpeechAvailable()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  utterance.volume = volume;
+  window.speechSynthesis.speak(utterance);
+};
+
+/** The question in words, since screen readers and speech engines read "×" and "?" unreliably. */
+export const spokenQuestion = ({ t }: Translator, q: Question) =>
+  t(`speech.${questionKind(q)}`, { a: q.a, b: q.b, product: q.a * q.b });
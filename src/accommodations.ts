@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Accommodations, TestPreset } from './types.ts';
+
+export const DEFAULT_ACCOMMODATIONS: Accommodations = {
+  timeMultiplier: 1,
+  untimed: false,
+  largeTargets: false
+};
+
+export const TIME_MULTIPLIER_OPTIONS = [1, 1.5, 2, 3];
+
+export const hasAccommodations = (a: Accommodations) =>
+  a.timeMultiplier !== 1 || a.untimed || a.largeTargets;
+
+/**
+ * The preset as it applies to one student. Extra time stretches the scoring curve with it,
+ * so the same share of the time earns the same points. Without a clock every correct answer
+ * is worth full points and the points limit is moved to match the correct-answers limit.
+ */
+export const applyAccommodations = (preset: TestPreset, a: Accommodations): TestPreset => {
+  if (a.untimed) {
+    return { ...preset, scoringCurve: 'flat', passPoints: preset.passScore * preset.maxPoints };
+  }
+  return { ...preset, timePerQuestion: preset.timePerQuestion * a.timeMultiplier };
+};
+
+/** Short Swedish summary for teachers, e.g. "1,5 × tid · stora knappar". */
+export const describeAccommodations = (a: Accommodations) => [
+  a.untimed ? 'utan tidsgräns' : a.timeMultiplier !== 1 ? `${String(a.timeMultiplier).replace('.', ',')} × tid` : null,
+  a.largeTargets ? 'stora knappar' : null
+].filter(Boolean).join(' · ');
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_FACTOR_LIMIT } from './presets.ts';
+import { factKey } from './spacedRepetition.ts';
+import { entryTimestamp } from './stats.ts';
+import { FactState, HistoryEntry, PlayType } from './types.ts';
+
+export type AchievementKind =
+  | 'first-session'
+  | 'first-pass'
+  | 'perfect-test'
+  | 'lightning'
+  | 'streak-3'
+  | 'streak-7'
+  | 'pass-table'
+  | 'master-table';
+
+/** `id` is what is stored on the profile, e.g. "pass-table-7". */
+export interface Achievement {
+  id: string;
+  kind: AchievementKind;
+  table?: number;
+}
+
+/** Everything a rule may look at once a session is saved. */
+export interface AchievementContext {
+  entry: HistoryEntry; // the session just finished
+  history: HistoryEntry[]; // newest first, `entry` included
+  facts: Record<string, FactState>; // the repetition schedule after the session
+  now: number;
+}
+
+// All answers correct and faster than this, in a round long enough to mean something.
+export const LIGHTNING_SECONDS = 2;
+export const LIGHTNING_MIN_QUESTIONS = 10;
+
+// A table is mastered when every fact up to 10 has climbed to this box, which
+// takes three sessions of fast, correct answers (see spacedRepetition.ts).
+const MASTERED_BOX = 4;
+const MASTERY_FACTORS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+const STREAK_GOALS = [3, 7] as const;
+
+const single = (kind: AchievementKind): Achievement => ({ id: kind, kind });
+
+const forTable = (kind: AchievementKind, table: number): Achievement => ({ id: `${kind}-${table}`, kind, table });
+
+// --- Streaks ---
+
+// Calendar days in local time, so a session at 23:50 and one at 00:10 are two days.
+const dayNumber = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / (24 * 60 * 60 * 1000));
+};
+
+/** Days in a row with at least one session, up to today. A streak stays alive until a whole day is missed. */
+export const practiceStreak = (history: HistoryEntry[], now: number) => {
+  const days = new Set(history.map(entry => dayNumber(entryTimestamp(entry))));
+  let day = dayNumber(now);
+  if (!days.has(day)) day--;
+  let streak = 0;
+  while (days.has(day - streak)) streak++;
+  return streak;
+};
+
+// --- Rules ---
+
+const testedTables = (entry: HistoryEntry) => [...new Set((entry.results ?? []).map(r => r.question.table))];
+
+const isPerfectTest = (entry: HistoryEntry) =>
+  entry.type === PlayType.TEST && entry.total > 0 && entry.score === entry.total;
+
+const isLightning = (entry: HistoryEntry) => {
+  const results = entry.results ?? [];
+  return results.length >= LIGHTNING_MIN_QUESTIONS && results.every(r => r.isCorrect && r.timeTaken < LIGHTNING_SECONDS);
+};
+
+export const masteredTables = (facts: Record<string, FactState>) =>
+  Array.from({ length: MAX_FACTOR_LIMIT }, (_, i) => i + 1)
+    .filter(table => MASTERY_FACTORS.every(b => (facts[factKey(table, b)]?.box ?? 0) >= MASTERED_BOX));
+
+// Each rule lists what the session would earn; anything already unlocked is dropped afterwards.
+const RULES: ((ctx: AchievementContext) => Achievement[])[] = [
+  () => [single('first-session')],
+  ({ entry }) => entry.type === PlayType.TEST && entry.isPassed ? [single('first-pass')] : [],
+  ({ entry }) => isPerfectTest(entry) ? [single('perfect-test')] : [],
+  ({ entry }) => isLightning(entry) ? [single('lightning')] : [],
+  ({ history, now }) => {
+    const streak = practiceStreak(history, now);
+    return STREAK_GOALS.filter(goal => streak >= goal).map(goal => single(`streak-${goal}`));
+  },
+  ({ entry }) => entry.type === PlayType.TEST && entry.isPassed ? testedTables(entry).map(t => forTable('pass-table', t)) : [],
+  ({ facts }) => masteredTables(facts).map(t => forTable('master-table', t))
+];
+
+/** The achievements this session unlocks, given the ids already on the profile. */
+export const evaluateAchievements = (ctx: AchievementContext, unlocked: Record<string, number>): Achievement[] => {
+  const earned = RULES.flatMap(rule => rule(ctx)).filter(a => !(a.id in unlocked));
+  return earned.filter((a, i) => earned.findIndex(b => b.id === a.id) === i);
+};
+
+/** Every badge in the cabinet, with one per table for the tables the student works with. */
+export const allAchievements = (maxTable: number): Achievement[] => {
+  const tables = Array.from({ length: maxTable }, (_, i) => i + 1);
+  return [
+    single('first-session'),
+    single('first-pass'),
+    single('perfect-test'),
+    single('lightning'),
+    ...STREAK_GOALS.map(goal => single(`streak-${goal}`)),
+    ...tables.map(t => forTable('pass-table', t)),
+    ...tables.map(t => forTable('master-table', t))
+  ];
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { REINFORCE_AFTER, REINFORCE_MAX_ATTEMPTS, queueAdaptive } from './adaptive.ts';
+import { makeQuestion } from './questions.ts';
+import { createRng } from './random.ts';
+import { AdaptivePool, Question, Result } from './types.ts';
+
+const POOL: AdaptivePool = { tables: [2, 3, 7], kinds: ['multiply'] };
+const FACTORS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const SEVEN_EIGHT = makeQuestion(7, 8);
+
+const answer = (question: Question, isCorrect: boolean): Result => ({
+  question,
+  userAnswer: isCorrect ? question.answer : null,
+  isCorrect,
+  timeTaken: 2,
+  points: 0
+});
+
+const queue = (results: Result[], count = 20) =>
+  queueAdaptive(results.map(r => r.question), results, POOL, FACTORS, count, createRng(5));
+
+const next = (results: Result[]) => queue(results)[results.length];
+
+describe('queueAdaptive', () => {
+  it('adds one question once the current one is answered', () => {
+    const first = queue([]);
+    expect(first).toHaveLength(1);
+    expect(POOL.tables).toContain(first[0].a);
+    expect(queueAdaptive(first, [], POOL, FACTORS, 20, createRng(5))).toBe(first);
+    expect(queue([answer(first[0], true)])).toHaveLength(2);
+  });
+
+  it('stops at the question count', () => {
+    const results = [answer(makeQuestion(2, 2), true), answer(makeQuestion(3, 3), true)];
+    expect(queue(results, 2)).toHaveLength(2);
+  });
+
+  it('brings a missed fact back after a few other questions', () => {
+    const others = [makeQuestion(2, 4), makeQuestion(3, 5), makeQuestion(2, 9)];
+    const results = [answer(SEVEN_EIGHT, false), ...others.slice(0, REINFORCE_AFTER - 1).map(q => answer(q, true))];
+    expect(next(results)).toEqual(SEVEN_EIGHT);
+    expect(next(results.slice(0, -1))).not.toEqual(SEVEN_EIGHT);
+  });
+
+  it('lets a missed fact go after the last attempt', () => {
+    const round = [answer(SEVEN_EIGHT, false), answer(makeQuestion(2, 4), true), answer(makeQuestion(3, 5), true)];
+    const results = Array.from({ length: REINFORCE_MAX_ATTEMPTS }, () => round).flat();
+    expect(next(results.slice(0, -REINFORCE_AFTER))).toEqual(SEVEN_EIGHT);
+    expect(next(results)).not.toEqual(SEVEN_EIGHT);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { makeQuestion, pickKind } from './questions.ts';
+import { Rng, pickWith, shuffleWith } from './random.ts';
+import { factKey } from './spacedRepetition.ts';
+import { AdaptivePool, Question, Result } from './types.ts';
+
+// "Anpassad övning": each question is picked when the one before has been answered. A few
+// quick, right answers in a row move the level up towards harder facts and larger tables;
+// a miss or a slow answer moves it down, and the missed fact comes back a little later.
+// The level is worked out again from the answers, so a restored session carries on as before.
+
+export const START_LEVEL = 0.3;
+export const LEVEL_STEP = 0.15;
+export const FAST_STREAK = 2; // quick right answers in a row before the level goes up
+export const FAST_SECONDS = 3;
+export const SLOW_SECONDS = 6;
+export const REINFORCE_AFTER = 3; // questions between a miss and the same fact again
+export const REINFORCE_MAX_ATTEMPTS = 3; // a fact that still will not stick is let go
+
+// The next fact is drawn from the few closest to the level, skipping the ones just asked
+const CANDIDATES = 3;
+const RECENT_FACTS = 4;
+
+// How hard a factor is to recall: ×1, ×10, ×2 and ×5 come first, ×7 and ×8 last.
+// Factors above 12 are harder the larger they are.
+const FACTOR_EASE: Record<number, number> = { 1: 0, 10: 1, 2: 1, 11: 2, 5: 2, 3: 3, 4: 4, 9: 5, 6: 6, 12: 6, 7: 7, 8: 7 };
+const MAX_EASE = 10;
+
+const factorEase = (n: number) => FACTOR_EASE[n] ?? Math.min(MAX_EASE, n / 2);
+
+/** 0 for 1 × 1 up to 1 for the hardest facts of the largest tables. */
+export const factDifficulty = (a: number, b: number) => (factorEase(a) + factorEase(b)) / (2 * MAX_EASE);
+
+export interface LevelBounds {
+  min: number;
+  max: number;
+}
+
+const poolFacts = (pool: AdaptivePool, factors: number[]) => pool.tables.flatMap(a => factors.map(b => ({ a, b })));
+
+/** The level stays within the facts on offer, so a miss at the top is felt straight away. */
+export const levelBounds = (pool: AdaptivePool, factors: number[]): LevelBounds => {
+  const difficulties = poolFacts(pool, factors).map(f => factDifficulty(f.a, f.b));
+  return difficulties.length > 0 ? { min: Math.min(...difficulties), max: Math.max(...difficulties) } : { min: 0, max: 1 };
+};
+
+/** The level each question was picked at, plus the level the next one would be picked at. */
+export const difficultyCurve = (results: Result[], { min, max }: LevelBounds): number[] => {
+  const clampLevel = (level: number) => Math.min(max, Math.max(min, level));
+  const levels = [clampLevel(START_LEVEL)];
+  let level = levels[0];
+  let streak = 0;
+  results.forEach(r => {
+    if (!r.isCorrect) {
+      level -= LEVEL_STEP;
+      streak = 0;
+    } else if (r.hintsUsed || r.timeTaken > SLOW_SECONDS) {
+      level -= LEVEL_STEP / 2;
+      streak = 0;
+    } else if (r.timeTaken <= FAST_SECONDS) {
+      streak++;
+      if (streak >= FAST_STREAK) {
+        level += LEVEL_STEP;
+        streak = 0;
+      }
+    } else {
+      streak = 0; // right, but not quick enough to count towards going up
+    }
+    level = clampLevel(level);
+    levels.push(level);
+  });
+  return levels;
+};
+
+/** The fact missed REINFORCE_AFTER questions ago, unless it has been asked since or often enough. */
+const factToReinforce = (results: Result[]): Question | null => {
+  const missed = results[results.length - REINFORCE_AFTER];
+  if (!missed || missed.isCorrect) return null;
+  const key = factKey(missed.question.a, missed.question.b);
+  const since = results.slice(results.length - REINFORCE_AFTER + 1);
+  if (since.some(r => factKey(r.question.a, r.question.b) === key)) return null;
+  const attempts = results.filter(r => factKey(r.question.a, r.question.b) === key).length;
+  return attempts < REINFORCE_MAX_ATTEMPTS ? missed.question : null;
+};
+
+export const nextAdaptiveQuestion = (results: Result[], pool: AdaptivePool, factors: number[], rng: Rng): Question => {
+  const reinforce = factToReinforce(results);
+  if (reinforce) return reinforce;
+
+  const levels = difficultyCurve(results, levelBounds(pool, factors));
+  const level = levels[levels.length - 1];
+  const recent = new Set(results.slice(-RECENT_FACTS).map(r => factKey(r.question.a, r.question.b)));
+  const facts = poolFacts(pool, factors);
+  const fresh = facts.filter(f => !recent.has(factKey(f.a, f.b)));
+  // Shuffled first, so facts just as close to the level take turns
+  const closest = shuffleWith(rng, fresh.length > 0 ? fresh : facts)
+    .map(f => ({ ...f, distance: Math.abs(factDifficulty(f.a, f.b) - level) }))
+    .sort((x, y) => x.distance - y.distance)
+    .slice(0, CANDIDATES);
+  const { a, b } = pickWith(rng, closest);
+  return makeQuestion(a, b, pickKind(pool.kinds, rng));
+};
+
+/** Adds the next question once the current one is answered, until `count` have been asked. */
+export const queueAdaptive = (
+  questions: Question[],
+  results: Result[],
+  pool: AdaptivePool,
+  factors: number[],
+  count: number,
+  rng: Rng
+) =>
+  questions.length > results.length || results.length >= count
+    ? questions
+    : [...questions, nextAdaptiveQuestion(results, pool, factors, rng)];
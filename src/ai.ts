@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { factKey } from './spacedRepetition.ts';
+import { strategyTip } from './strategies.ts';
+import { formatEquation } from './questions.ts';
+import { Question } from './types.ts';
+
+// --- Client ---
+
+/** The one thing the app needs from a language model. Swap in a stub to run without network. */
+export interface AiClient {
+  generateText(prompt: string, options?: { json?: boolean }): Promise<string>;
+}
+
+export class AiError extends Error {}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// .env.example ships with this placeholder
+const PLACEHOLDER_KEY = 'MY_GEMINI_API_KEY';
+
+export const createGeminiClient = (apiKey: string): AiClient => {
+  let ai: Promise<import('@google/genai').GoogleGenAI> | null = null;
+  return {
+    async generateText(prompt, options) {
+      // Loaded on first use so the SDK stays out of the main bundle
+      ai ??= import('@google/genai').then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey }));
+      const response = await (await ai).models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: options?.json ? { responseMimeType: 'application/json' } : undefined
+      });
+      if (!response.text) throw new AiError('Empty response from Gemini');
+      return response.text;
+    }
+  };
+};
+
+/** Answers every prompt with `reply`, for development and tests without a key. */
+export const createStubClient = (reply: (prompt: string) => string): AiClient => ({
+  generateText: async prompt => reply(prompt)
+});
+
+/** Gemini when a key is configured, otherwise null and callers use their offline fallback. */
+export const createDefaultAiClient = (): AiClient | null => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey && apiKey !== PLACEHOLDER_KEY ? createGeminiClient(apiKey) : null;
+};
+
+export type AiSource = 'ai' | 'local';
+
+// Several wrong answers to the same fact only need one explanation.
+const uniqueFacts = (questions: Question[], limit: number) => {
+  const seen = new Set<string>();
+  return questions.filter(q => {
+    const key = factKey(q.a, q.b);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, limit);
+};
+
+// --- Feedback on mistakes ---
+
+const MAX_FEEDBACK_FACTS = 5;
+
+const feedbackPrompt = (facts: Question[]) => `Du är en snäll och uppmuntrande mattelärare för barn i årskurs 2–6.
+Eleven svarade fel på de här multiplikationsuppgifterna:
+${facts.map(q => `- ${formatEquation(q)}`).join('\n')}
+
+Skriv en kort förklaring på enkel svenska, högst två meningar per uppgift.
+Ge ett konkret räknetips för varje uppgift, till exempel "9 × 7: räkna 10 × 7 − 7 = 63".
+Avsluta med en peppande mening. Skriv vanlig text utan markdown.`;
+
+/** Local strategy tips, one line per fact. Used without a key and when the model fails. */
+export const localFeedback = (mistakes: Question[]) =>
+  uniqueFacts(mistakes, MAX_FEEDBACK_FACTS).map(strategyTip).join('\n');
+
+export const getMistakeFeedback = async (
+  client: AiClient | null,
+  mistakes: Question[]
+): Promise<{ text: string; source: AiSource }> => {
+  if (client) {
+    try {
+      const text = await client.generateText(feedbackPrompt(uniqueFacts(mistakes, MAX_FEEDBACK_FACTS)));
+      return { text: text.trim(), source: 'ai' };
+    } catch (e) {
+      console.warn('AI feedback failed, using local tips', e);
+    }
+  }
+  return { text: localFeedback(mistakes), source: 'local' };
+};
+
+// --- Word problems ---
+
+export const WORD_PROBLEM_COUNT = 5;
+
+export interface WordProblem {
+  a: number;
+  b: number;
+  text: string;
+}
+
+const wordProblemPrompt = (facts: Question[]) => `Skriv en textuppgift på enkel svenska för barn i årskurs 2–6 för varje multiplikation:
+${facts.map(q => `- ${q.a} × ${q.b}`).join('\n')}
+
+Varje uppgift ska vara en eller två meningar om vardagliga saker och sluta med en fråga.
+Skriv inte ut svaret. Svara med en JSON-lista i samma ordning: [{"a": 3, "b": 4, "text": "..."}]`;
+
+/** Throws an AiError unless the model wrote one problem for each requested fact, in order. */
+export const parseWordProblems = (json: string, facts: Question[]): WordProblem[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new AiError('Word problems are not valid JSON');
+  }
+  const valid = Array.isArray(data) && data.length === facts.length && data.every((p: any, i: number) =>
+    p?.a === facts[i].a && p?.b === facts[i].b && typeof p?.text === 'string' && p.text.trim() !== ''
+  );
+  if (!valid) throw new AiError('Word problems do not match the requested facts');
+  return data.map((p: WordProblem) => ({ a: p.a, b: p.b, text: p.text.trim() }));
+};
+
+const TEMPLATES: ((a: number, b: number) => string)[] = [
+  (a, b) => `Ella har ${a} påsar med ${b} äpplen i varje. Hur många äpplen har hon?`,
+  (a, b) => `I klassrummet står ${a} bänkrader med ${b} stolar i varje rad. Hur många stolar är det?`,
+  (a, b) => `Omar läser ${b} sidor varje dag i ${a} dagar. Hur många sidor läser han?`,
+  (a, b) => `En kartong rymmer ${b} ägg. Hur många ägg ryms i ${a} kartonger?`,
+  (a, b) => `Varje lag har ${b} spelare. Hur många spelare är det i ${a} lag?`
+];
+
+export const localWordProblems = (facts: Question[]): WordProblem[] =>
+  facts.map((q, i) => ({ a: q.a, b: q.b, text: TEMPLATES[i % TEMPLATES.length](q.a, q.b) }));
+
+export const getWordProblems = async (
+  client: AiClient | null,
+  facts: Question[]
+): Promise<{ problems: WordProblem[]; source: AiSource }> => {
+  if (client) {
+    try {
+      const json = await client.generateText(wordProblemPrompt(facts), { json: true });
+      return { problems: parseWordProblems(json, facts), source: 'ai' };
+    } catch (e) {
+      console.warn('AI word problems failed, using templates', e);
+    }
+  }
+  return { problems: localWordProblems(facts), source: 'local' };
+};
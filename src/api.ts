@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { COMPETITION_PATH } from './competition.ts';
+import { ClassOverview, NewClass, SessionUpload } from './types.ts';
+
+// Empty means the same origin, where the dev server proxies /api to the class server.
+const API_BASE_URL = (process.env.RESULTS_API_URL ?? '').replace(/\/+$/, '');
+
+/** The server answered with an error status. Network failures reject with a TypeError instead. */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(API_BASE_URL + path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(body?.error ?? `Request failed with status ${res.status}`, res.status);
+  }
+  return res.json() as Promise<T>;
+};
+
+export const createClass = (name: string) =>
+  request<NewClass>('/api/classes', { method: 'POST', body: JSON.stringify({ name }) });
+
+export const fetchClassOverview = (code: string, teacherKey: string) =>
+  request<ClassOverview>(`/api/classes/${encodeURIComponent(code.trim().toUpperCase())}/overview`, {
+    headers: { 'X-Teacher-Key': teacherKey.trim() }
+  });
+
+export const submitSession = (upload: SessionUpload) =>
+  request<{ ok: boolean }>('/api/sessions', { method: 'POST', body: JSON.stringify(upload) });
+
+/** The class competition socket lives next to the REST API, on ws:// or wss:// to match it. */
+export const competitionSocketUrl = () =>
+  (API_BASE_URL || window.location.origin).replace(/^http/, 'ws') + COMPETITION_PATH;
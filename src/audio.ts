@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { speak } from './accessibility.ts';
+import { AudioSettings, Sound, SoundTheme } from './types.ts';
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  volume: 1,
+  muted: false,
+  theme: 'classic',
+  spokenFeedback: false
+};
+
+// --- Themes ---
+
+/** One oscillator. Pitch glides from `from` to `to`, and the note fades out over `duration`. */
+interface Tone {
+  wave: OscillatorType;
+  from: number; // Hz
+  to?: number; // Hz
+  glide?: number; // seconds to reach `to`, the whole note by default
+  at?: number; // seconds after the sound starts
+  duration: number; // seconds
+  gain: number;
+  ramp?: 'exponential' | 'linear';
+}
+
+const arpeggio = (wave: OscillatorType, notes: number[], spacing: number, duration: number, gain: number): Tone[] =>
+  notes.map((from, i) => ({ wave, from, at: i * spacing, duration, gain }));
+
+export const SOUND_THEMES: Record<SoundTheme, Record<Sound, Tone[]>> = {
+  // The tones the app has always had
+  classic: {
+    correct: [{ wave: 'sine', from: 523.25, to: 1046.5, glide: 0.1, duration: 0.2, gain: 0.1 }],
+    wrong: [{ wave: 'sawtooth', from: 220, to: 110, glide: 0.2, duration: 0.3, gain: 0.1, ramp: 'linear' }],
+    complete: arpeggio('triangle', [523.25, 659.25, 783.99, 1046.5], 0.1, 0.3, 0.1),
+    click: [{ wave: 'sine', from: 880, duration: 0.05, gain: 0.05 }]
+  },
+  // Quieter and rounder, for children who find the buzzer upsetting
+  soft: {
+    correct: arpeggio('triangle', [659.25, 783.99], 0.08, 0.25, 0.06),
+    wrong: [{ wave: 'sine', from: 330, to: 262, duration: 0.35, gain: 0.06, ramp: 'linear' }],
+    complete: arpeggio('sine', [523.25, 659.25, 783.99], 0.15, 0.5, 0.06),
+    click: [{ wave: 'sine', from: 660, duration: 0.04, gain: 0.03 }]
+  },
+  arcade: {
+    correct: arpeggio('square', [987.77, 1318.51], 0.06, 0.12, 0.04),
+    wrong: [{ wave: 'square', from: 196, to: 98, duration: 0.35, gain: 0.05, ramp: 'linear' }],
+    complete: arpeggio('square', [523.25, 659.25, 783.99, 1046.5, 1318.51], 0.07, 0.12, 0.04),
+    click: [{ wave: 'square', from: 1200, duration: 0.03, gain: 0.02 }]
+  },
+  bells: {
+    correct: [
+      { wave: 'sine', from: 1046.5, duration: 0.6, gain: 0.08 },
+      { wave: 'sine', from: 2093, duration: 0.3, gain: 0.03 }
+    ],
+    wrong: [{ wave: 'triangle', from: 392, to: 349.23, duration: 0.5, gain: 0.08 }],
+    complete: arpeggio('sine', [783.99, 987.77, 1174.66, 1567.98], 0.15, 0.8, 0.07),
+    click: [{ wave: 'sine', from: 1567.98, duration: 0.08, gain: 0.03 }]
+  }
+};
+
+export const SOUND_THEME_OPTIONS = Object.keys(SOUND_THEMES) as SoundTheme[];
+
+// --- Playback ---
+
+const playTone = (context: AudioContext, output: AudioNode, tone: Tone) => {
+  const start = context.currentTime + (tone.at ?? 0);
+  const end = start + tone.duration;
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.connect(gain);
+  gain.connect(output);
+
+  oscillator.type = tone.wave;
+  oscillator.frequency.setValueAtTime(tone.from, start);
+  gain.gain.setValueAtTime(tone.gain, start);
+  if (tone.ramp === 'linear') {
+    if (tone.to) oscillator.frequency.linearRampToValueAtTime(tone.to, start + (tone.glide ?? tone.duration));
+    gain.gain.linearRampToValueAtTime(tone.gain / 10, end);
+  } else {
+    if (tone.to) oscillator.frequency.exponentialRampToValueAtTime(tone.to, start + (tone.glide ?? tone.duration));
+    gain.gain.exponentialRampToValueAtTime(tone.gain / 10, end);
+  }
+  oscillator.start(start);
+  oscillator.stop(end);
+};
+
+/**
+ * All sound goes through one AudioContext; browsers allow only a handful, so making one per
+ * sound eventually leaves the app silent. It is created on the first sound, since browsers
+ * only let audio start after the page has been touched, and resumed whenever it was suspended.
+ */
+export const createAudioManager = () => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let settings = DEFAULT_AUDIO;
+
+  const applyVolume = () => {
+    if (context && master) master.gain.setValueAtTime(settings.muted ? 0 : settings.volume, context.currentTime);
+  };
+
+  const output = () => {
+    if (!context) {
+      context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      master = context.createGain();
+      master.connect(context.destination);
+      applyVolume();
+    }
+    if (context.state === 'suspended') {
+      context.resume().catch(e => console.warn('Audio could not be resumed', e));
+    }
+    return { context, master: master! };
+  };
+
+  const configure = (next: AudioSettings) => {
+    settings = next;
+    applyVolume();
+  };
+
+  /** `theme` is for trying a theme out before choosing it. */
+  const play = (sound: Sound, theme: SoundTheme = settings.theme) => {
+    if (settings.muted || settings.volume === 0) return;
+    try {
+      const { context: ctx, master: out } = output();
+      SOUND_THEMES[theme][sound].forEach(tone => playTone(ctx, out, tone));
+    } catch (e) {
+      console.warn('Audio not supported or blocked', e);
+    }
+  };
+
+  /** Spoken feedback after an answer, when the student has turned it on. Mute silences it too. */
+  const sayFeedback = (text: string, lang: string) => {
+    if (settings.muted || !settings.spokenFeedback) return;
+    speak(text, lang, settings.volume);
+  };
+
+  return { configure, play, sayFeedback };
+};
+
+export type AudioManager = ReturnType<typeof createAudioManager>;
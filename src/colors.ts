@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TablePalette } from './types.ts';
+
+export const DEFAULT_COLORS: Record<number, string> = {
+  1: '#64748b', // slate
+  2: '#3b82f6', // blue
+  3: '#6366f1', // indigo
+  4: '#8b5cf6', // violet
+  5: '#a855f7', // purple
+  6: '#d946ef', // fuchsia
+  7: '#ec4899', // pink
+  8: '#f43f5e', // rose
+  9: '#f97316', // orange
+  10: '#f59e0b', // amber
+  11: '#eab308', // yellow
+  12: '#84cc16', // lime
+  13: '#22c55e', // green
+  14: '#10b981', // emerald
+  15: '#06b6d4', // cyan
+  16: '#0ea5e9', // sky
+  17: '#ef4444', // red
+  18: '#14b8a6', // teal
+  19: '#78716c', // stone
+  20: '#0284c7', // dark sky
+};
+
+export const COLOR_PALETTE = [
+  '#64748b', '#3b82f6', '#6366f1', '#8b5cf6', '#a855f7',
+  '#d946ef', '#ec4899', '#f43f5e', '#ef4444', '#f97316',
+  '#f59e0b', '#eab308', '#84cc16', '#22c55e', '#10b981', '#06b6d4',
+  '#0ea5e9', '#14b8a6', '#78716c', '#0284c7'
+];
+
+/**
+ * Fixed palettes from the accessibility settings. The colour-blind one is Okabe–Ito, which
+ * stays distinguishable for all common colour vision deficiencies (its yellow is left out,
+ * it vanishes against the white cards). The high-contrast one keeps white digits above 7:1.
+ */
+export const ACCESSIBLE_PALETTES: Record<Exclude<TablePalette, 'standard'>, string[]> = {
+  'colorblind': ['#0072b2', '#e69f00', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#000000'],
+  'high-contrast': ['#1e3a8a', '#7c2d12', '#14532d', '#581c87', '#831843', '#134e4a', '#0f172a', '#713f12']
+};
+
+/** The student's own colours, or every table coloured from an accessible palette. */
+export const resolveTableColors = (custom: Record<number, string>, palette: TablePalette) => {
+  if (palette === 'standard') return custom;
+  const colors = ACCESSIBLE_PALETTES[palette];
+  return Object.fromEntries(
+    Object.keys(DEFAULT_COLORS).map(key => [key, colors[(Number(key) - 1) % colors.length]])
+  ) as Record<number, string>;
+};
+
+/** Colour for any table, falling back to the palette beyond the defaults. */
+export const getTableColor = (colors: Record<number, string>, table: number) =>
+  colors[table] ?? DEFAULT_COLORS[table] ?? COLOR_PALETTE[(table - 1) % COLOR_PALETTE.length];
+
+export const lightenColor = (hex: string, amount: number) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+
+  const lr = Math.min(255, Math.floor(r + (255 - r) * amount));
+  const lg = Math.min(255, Math.floor(g + (255 - g) * amount));
+  const lb = Math.min(255, Math.floor(b + (255 - b) * amount));
+
+  return `rgb(${lr}, ${lg}, ${lb})`;
+};
@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SCORING_CURVE_LABELS, computePoints, factorRange, validatePreset } from './presets.ts';
+import { QUESTION_KINDS, generateQuestionSet, questionKind } from './questions.ts';
+import { Rng } from './random.ts';
+import { isValidFactor } from './testCode.ts';
+import { Question, QuestionKind, TestPreset } from './types.ts';
+
+// "Klasstävling": the teacher's screen hosts a room, students join with its code on their
+// own devices and everyone answers the same question at the same time. The server owns
+// the clock, so points follow the preset's speed curve whatever device a student is on.
+
+export const COMPETITION_PATH = '/api/competition';
+
+// Every screen counts down before a question, so a slow tablet still shows it in time.
+export const QUESTION_DELAY_MS = 3000;
+// Answers arriving just after the time is up are still taken, for the trip over the network.
+export const ANSWER_GRACE_MS = 500;
+
+export const COMPETITION_ROUNDS = [5, 10, 15, 20];
+export const MAX_PLAYERS = 40;
+export const MAX_NAME_LENGTH = 20;
+// The server waits this long at most for a round, whatever the preset says.
+export const MAX_SECONDS_PER_QUESTION = 600;
+
+export interface CompetitionSetup {
+  preset: TestPreset; // time per question, factors and the scoring curve
+  tables: number[];
+  kinds: QuestionKind[];
+  rounds: number;
+}
+
+export type CompetitionPhase = 'lobby' | 'question' | 'leaderboard' | 'finished';
+
+/** A question while it is being asked: enough to show it, but not its answer. */
+export interface AskedQuestion {
+  a: number;
+  b: number;
+  kind: QuestionKind;
+}
+
+export interface CompetitionPlayer {
+  id: string;
+  name: string;
+  connected: boolean;
+  points: number;
+  correct: number;
+}
+
+export interface RoundAnswer {
+  playerId: string;
+  answer: number;
+  timeTaken: number; // seconds after the question was shown
+  isCorrect: boolean;
+  points: number;
+}
+
+export interface CompetitionRoom {
+  code: string;
+  setup: CompetitionSetup;
+  questions: Question[];
+  players: CompetitionPlayer[];
+  phase: CompetitionPhase;
+  round: number; // index of the question being asked or last asked, -1 in the lobby
+  startsAt: number; // epoch ms when the current question is shown
+  answers: RoundAnswer[]; // for the current round
+}
+
+export interface Standing {
+  name: string;
+  points: number;
+  correct: number;
+  rank: number; // players on the same points share a rank
+}
+
+// --- Protocol ---
+
+export type CompetitionError = 'unknown-code' | 'name-taken' | 'room-full' | 'finished' | 'malformed';
+
+export type ClientMessage =
+  | { type: 'host'; setup: CompetitionSetup }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'next' } // host only: ask the next question
+  | { type: 'answer'; round: number; answer: number };
+
+export type ServerMessage =
+  | { type: 'hosted'; code: string; rounds: number }
+  | { type: 'joined'; code: string; name: string; rounds: number }
+  | { type: 'lobby'; players: string[] }
+  | {
+      type: 'question';
+      round: number;
+      rounds: number;
+      question: AskedQuestion; // the full question follows with the leaderboard
+      delay: number; // ms until the question is shown, negative for a student joining late
+      timePerQuestion: number;
+    }
+  | { type: 'progress'; answered: number; players: number } // host only
+  | {
+      type: 'leaderboard';
+      round: number;
+      rounds: number;
+      question: Question;
+      standings: Standing[];
+      you?: { answered: boolean; isCorrect: boolean; points: number }; // players only
+      final: boolean;
+    }
+  | { type: 'closed' } // the host left
+  | { type: 'error'; error: CompetitionError };
+
+export type QuestionMessage = Extract<ServerMessage, { type: 'question' }>;
+export type LeaderboardMessage = Extract<ServerMessage, { type: 'leaderboard' }>;
+
+const PRESET_NUMBERS = ['questionCount', 'timePerQuestion', 'maxPoints', 'passScore', 'passPoints'] as const;
+
+/** The same rules the preset editor holds a preset to, and nothing the server cannot use. */
+const isPreset = (preset: any): preset is TestPreset =>
+  typeof preset?.name === 'string' &&
+  PRESET_NUMBERS.every(key => Number.isFinite(preset[key])) &&
+  preset.timePerQuestion <= MAX_SECONDS_PER_QUESTION &&
+  isValidFactor(preset.minFactor) &&
+  isValidFactor(preset.maxFactor) &&
+  Object.hasOwn(SCORING_CURVE_LABELS, preset.scoringCurve) &&
+  validatePreset(preset) === null;
+
+const isSetup = (setup: any): setup is CompetitionSetup =>
+  isPreset(setup?.preset) &&
+  Array.isArray(setup.tables) &&
+  setup.tables.length > 0 &&
+  setup.tables.every((t: unknown) => isValidFactor(t as number, 1)) &&
+  new Set(setup.tables).size === setup.tables.length &&
+  Array.isArray(setup.kinds) &&
+  setup.kinds.length > 0 &&
+  setup.kinds.every((k: unknown) => QUESTION_KINDS.includes(k as QuestionKind)) &&
+  COMPETITION_ROUNDS.includes(setup.rounds);
+
+/** Anything a client sends is checked here first; null means the message is ignored. */
+export const parseClientMessage = (data: string): ClientMessage | null => {
+  let msg: any;
+  try {
+    msg = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  switch (msg?.type) {
+    case 'host':
+      return isSetup(msg.setup) ? { type: 'host', setup: msg.setup } : null;
+    case 'join':
+      return typeof msg.code === 'string' && typeof msg.name === 'string' ? { type: 'join', code: msg.code, name: msg.name } : null;
+    case 'next':
+      return { type: 'next' };
+    case 'answer':
+      return Number.isInteger(msg.round) && Number.isFinite(msg.answer)
+        ? { type: 'answer', round: msg.round, answer: msg.answer }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// --- Room ---
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+
+const sameName = (x: string, y: string) => x.toLocaleLowerCase() === y.toLocaleLowerCase();
+
+export const createRoom = (code: string, setup: CompetitionSetup, rng: Rng = Math.random): CompetitionRoom => ({
+  code,
+  setup,
+  questions: generateQuestionSet({
+    tables: setup.tables,
+    factors: factorRange(setup.preset),
+    count: setup.rounds,
+    kinds: setup.kinds,
+    rng
+  }),
+  players: [],
+  phase: 'lobby',
+  round: -1,
+  startsAt: 0,
+  answers: []
+});
+
+export const findPlayerByName = (room: CompetitionRoom, name: string) =>
+  room.players.find(p => sameName(p.name, normalizeName(name)));
+
+/**
+ * Why a student cannot join, or null. Joining again under the name of a player who lost
+ * the connection takes over that player, score and all.
+ */
+export const joinError = (room: CompetitionRoom, name: string): CompetitionError | null => {
+  if (!normalizeName(name)) return 'malformed';
+  if (room.phase === 'finished') return 'finished';
+  const existing = findPlayerByName(room, name);
+  if (existing) return existing.connected ? 'name-taken' : null;
+  return room.players.length >= MAX_PLAYERS ? 'room-full' : null;
+};
+
+/** Adds the player, or reconnects the one with the same name. Check `joinError` first. */
+export const joinRoom = (room: CompetitionRoom, id: string, name: string): CompetitionRoom => {
+  const existing = findPlayerByName(room, name);
+  if (existing) {
+    return { ...room, players: room.players.map(p => p === existing ? { ...p, id, connected: true } : p) };
+  }
+  return { ...room, players: [...room.players, { id, name: normalizeName(name), connected: true, points: 0, correct: 0 }] };
+};
+
+export const leaveRoom = (room: CompetitionRoom, id: string): CompetitionRoom => ({
+  ...room,
+  players: room.players.map(p => p.id === id ? { ...p, connected: false } : p)
+});
+
+export const connectedPlayers = (room: CompetitionRoom) => room.players.filter(p => p.connected);
+
+export const currentRoundQuestion = (room: CompetitionRoom): Question | undefined => room.questions[room.round];
+
+/** What is sent of the current question until the round is over, so the answer is not in the message. */
+export const askedQuestion = (room: CompetitionRoom): AskedQuestion => {
+  const question = currentRoundQuestion(room)!;
+  return { a: question.a, b: question.b, kind: questionKind(question) };
+};
+
+export const isLastRound = (room: CompetitionRoom) => room.round >= room.questions.length - 1;
+
+export const startRound = (room: CompetitionRoom, now: number): CompetitionRoom => ({
+  ...room,
+  phase: 'question',
+  round: room.round + 1,
+  startsAt: now + QUESTION_DELAY_MS,
+  answers: []
+});
+
+/** When answers stop being taken for the current question. */
+export const roundDeadline = (room: CompetitionRoom) =>
+  room.startsAt + room.setup.preset.timePerQuestion * 1000 + ANSWER_GRACE_MS;
+
+/**
+ * Scores an answer on the server's clock. Only the first answer per player counts, and
+ * anything for another round, before the question is shown or after the deadline is ignored.
+ */
+export const answerRound = (room: CompetitionRoom, playerId: string, round: number, answer: number, now: number): CompetitionRoom => {
+  const question = currentRoundQuestion(room);
+  if (
+    room.phase !== 'question' ||
+    !question ||
+    round !== room.round ||
+    now < room.startsAt ||
+    now > roundDeadline(room) ||
+    !room.players.some(p => p.id === playerId) ||
+    room.answers.some(a => a.playerId === playerId)
+  ) {
+    return room;
+  }
+  const timeTaken = Math.min((now - room.startsAt) / 1000, room.setup.preset.timePerQuestion);
+  const isCorrect = answer === question.answer;
+  const points = isCorrect ? computePoints(room.setup.preset, timeTaken) : 0;
+  return { ...room, answers: [...room.answers, { playerId, answer, timeTaken, isCorrect, points }] };
+};
+
+/** Everyone still connected has answered, or the time is up. */
+export const isRoundOver = (room: CompetitionRoom, now: number) =>
+  room.phase === 'question' &&
+  (now > roundDeadline(room) || connectedPlayers(room).every(p => room.answers.some(a => a.playerId === p.id)));
+
+/** Adds the round's points to the totals and moves on to the leaderboard, or the end. */
+export const closeRound = (room: CompetitionRoom): CompetitionRoom => {
+  if (room.phase !== 'question') return room;
+  return {
+    ...room,
+    phase: isLastRound(room) ? 'finished' : 'leaderboard',
+    players: room.players.map(p => {
+      const a = room.answers.find(answer => answer.playerId === p.id);
+      return a ? { ...p, points: p.points + a.points, correct: p.correct + (a.isCorrect ? 1 : 0) } : p;
+    })
+  };
+};
+
+/** Most points first, then most correct answers. Equal players share a rank, as in "1, 2, 2, 4". */
+export const standings = (room: CompetitionRoom): Standing[] => {
+  const sorted = [...room.players].sort((x, y) =>
+    y.points - x.points || y.correct - x.correct || x.name.localeCompare(y.name)
+  );
+  return sorted.map(p => {
+    const first = sorted.findIndex(q => q.points === p.points && q.correct === p.correct);
+    return { name: p.name, points: p.points, correct: p.correct, rank: first + 1 };
+  });
+};
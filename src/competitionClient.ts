@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { competitionSocketUrl } from './api.ts';
+import { ClientMessage, QuestionMessage, ServerMessage } from './competition.ts';
+import { makeQuestion } from './questions.ts';
+import { Question } from './types.ts';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+/**
+ * A question with the local time it appears, worked out when the message arrived. The message
+ * leaves out the answer; the question is rebuilt here so the cards can show it as usual.
+ */
+export type ShownQuestion = Omit<QuestionMessage, 'question'> & { question: Question; shownAt: number };
+
+export const showQuestion = (msg: QuestionMessage): ShownQuestion => ({
+  ...msg,
+  question: makeQuestion(msg.question.a, msg.question.b, msg.question.kind),
+  shownAt: Date.now() + msg.delay
+});
+
+/**
+ * One socket to the class competition. `connect` opens it with the first message, either
+ * hosting or joining a room; 'closed' means the connection was lost rather than ended by us.
+ */
+export const useCompetitionSocket = (onMessage: (msg: ServerMessage) => void) => {
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const socketRef = useRef<WebSocket | null>(null);
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  const disconnect = useCallback(() => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setStatus('idle');
+  }, []);
+
+  const connect = useCallback((hello: ClientMessage) => {
+    socketRef.current?.close();
+    const socket = new WebSocket(competitionSocketUrl());
+    socketRef.current = socket;
+    setStatus('connecting');
+    socket.onopen = () => {
+      setStatus('open');
+      socket.send(JSON.stringify(hello));
+    };
+    socket.onmessage = (e) => {
+      try {
+        onMessageRef.current(JSON.parse(e.data));
+      } catch (err) {
+        console.error('Failed to handle competition message', err);
+      }
+    };
+    socket.onclose = () => {
+      if (socketRef.current === socket) setStatus('closed');
+    };
+  }, []);
+
+  const send = useCallback((msg: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+  }, []);
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { status, connect, send, disconnect };
+};
+
+/** Whole seconds until the question is shown, then seconds left to answer, ticking while it is up. */
+export const useQuestionClock = (question: ShownQuestion | null) => {
+  const [now, setNow] = useState(Date.now);
+  const shownAt = question?.shownAt ?? 0;
+  const timePerQuestion = question?.timePerQuestion ?? 0;
+
+  useEffect(() => {
+    if (!question) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      if (tick > shownAt + timePerQuestion * 1000) clearInterval(timer);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [question, shownAt, timePerQuestion]);
+
+  return {
+    countdown: Math.max(0, Math.ceil((shownAt - now) / 1000)),
+    timeLeft: Math.max(0, Math.min(timePerQuestion, timePerQuestion - (now - shownAt) / 1000))
+  };
+};
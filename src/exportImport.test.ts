@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ImportError, historyToJson, parseHistoryImport } from './exportImport.ts';
+import { DEFAULT_PRESET } from './presets.ts';
+import { makeQuestion } from './questions.ts';
+import { HistoryEntry, PlayType } from './types.ts';
+
+const ENTRY: HistoryEntry = {
+  id: '1768204800000',
+  date: '2026-01-12 09:00',
+  type: PlayType.TEST,
+  score: 1,
+  total: 2,
+  points: 4,
+  isPassed: false,
+  timestamp: 1768204800000,
+  results: [
+    { question: makeQuestion(3, 7), userAnswer: 21, isCorrect: true, timeTaken: 2.1, points: 4, keystrokes: [{ at: 900, value: '21' }] },
+    { question: makeQuestion(7, 8, 'divide'), userAnswer: null, isCorrect: false, timeTaken: 6, points: 0 }
+  ],
+  preset: DEFAULT_PRESET,
+  pauses: [{ at: 1768204801000, duration: 4000, reason: 'interrupted' }],
+  testCode: '1x3k9-3.7-1.10-40-md-60.6.l.36.120.e.f',
+  accommodations: { timeMultiplier: 1.5, untimed: false, largeTargets: true },
+  integrityFlags: ['tab-switches']
+};
+
+const fileWith = (entry: object) => historyToJson('Alva', [entry as HistoryEntry]);
+
+const importReason = (text: string) => {
+  try {
+    parseHistoryImport(text);
+    return null;
+  } catch (e) {
+    return e instanceof ImportError ? e.reason : 'thrown';
+  }
+};
+
+describe('parseHistoryImport', () => {
+  it('reads back an export', () => {
+    expect(parseHistoryImport(fileWith(ENTRY)).entries).toEqual([ENTRY]);
+  });
+
+  it('takes entries saved before the optional fields were added', () => {
+    const { timestamp, results, preset, pauses, testCode, accommodations, integrityFlags, ...oldest } = ENTRY;
+    expect(importReason(fileWith(oldest))).toBeNull();
+  });
+
+  it('refuses files that are not a history export', () => {
+    expect(importReason('{')).toBe('invalid-json');
+    expect(importReason('{"format":"something-else"}')).toBe('wrong-format');
+    expect(importReason(fileWith(ENTRY).replace('"version": 1', '"version": 99'))).toBe('newer-version');
+  });
+
+  it.each([
+    ['an unknown type', { type: 'CHEAT' }],
+    ['a timestamp that is not a number', { timestamp: 'x' }],
+    ['a timestamp no date can hold', { timestamp: 1e20 }],
+    ['integrity flags that are not a list', { integrityFlags: 'x' }],
+    ['an unknown integrity flag', { integrityFlags: ['lucky'] }],
+    ['pauses that are not a list', { pauses: {} }],
+    ['a pause without a duration', { pauses: [{ at: 1, reason: 'manual' }] }],
+    ['accommodations without the time multiplier', { accommodations: { untimed: true, largeTargets: false } }],
+    ['a preset without a name', { preset: { ...DEFAULT_PRESET, name: undefined } }],
+    ['a test code that is not text', { testCode: 42 }],
+    ['a retry of no session', { retryOf: 7 }],
+    ['a result row that is empty', { results: [{}] }],
+    ['a result of an unknown kind', { results: [{ ...ENTRY.results![0], question: { ...ENTRY.results![0].question, kind: 'power' } }] }],
+    ['keystrokes that are not a list', { results: [{ ...ENTRY.results![0], keystrokes: 'x' }] }]
+  ])('refuses an entry with %s', (_, change) => {
+    expect(importReason(fileWith({ ...ENTRY, ...change }))).toBe('broken-entries');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describeAccommodations } from './accommodations.ts';
+import { INTEGRITY_FLAGS, clearedAttempts, describeIntegrityFlags } from './integrity.ts';
+import { QUESTION_KINDS, questionKind } from './questions.ts';
+import { entryTimestamp } from './stats.ts';
+import { HistoryEntry, PauseReason, PlayType, Result } from './types.ts';
+
+export const EXPORT_FORMAT = 'plonninge-history';
+export const EXPORT_VERSION = 1;
+
+export interface HistoryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: { name: string };
+  entries: HistoryEntry[];
+}
+
+export type ImportErrorReason = 'invalid-json' | 'wrong-format' | 'newer-version' | 'broken-entries';
+
+/** The message is Swedish for logs; screens translate `reason` instead. */
+export class ImportError extends Error {
+  constructor(readonly reason: ImportErrorReason, message: string) {
+    super(message);
+  }
+}
+
+// --- Export ---
+
+export const historyToJson = (profileName: string, history: HistoryEntry[]) => {
+  const payload: HistoryExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: { name: profileName },
+    entries: history
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'session_id', 'date', 'type', 'preset', 'test_code', 'session_score', 'session_total', 'session_points', 'passed', 'pauses',
+  'accommodations', 'integrity_flags', 'question_no', 'kind', 'a', 'b', 'table', 'answer', 'user_answer', 'correct', 'time_taken',
+  'points', 'hints', 'cleared_attempts'
+];
+
+const csvCell = (value: string | number | boolean | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per answered question; sessions saved without per-question data get a single summary row. */
+export const historyToCsv = (history: HistoryEntry[]) => {
+  const rows: (string | number | boolean | null | undefined)[][] = [];
+  history.forEach(entry => {
+    const session = [
+      entry.id, entry.date, entry.type, entry.preset?.name, entry.testCode, entry.score, entry.total, entry.points, entry.isPassed,
+      entry.pauses?.length ?? 0, entry.accommodations ? describeAccommodations(entry.accommodations) : '',
+      entry.integrityFlags ? describeIntegrityFlags(entry.integrityFlags) : ''
+    ];
+    if (!entry.results?.length) {
+      rows.push(session);
+      return;
+    }
+    entry.results.forEach((r, i) => {
+      rows.push([
+        ...session,
+        i + 1,
+        questionKind(r.question),
+        r.question.a,
+        r.question.b,
+        r.question.table,
+        r.question.answer,
+        r.userAnswer,
+        r.isCorrect,
+        r.timeTaken.toFixed(2),
+        r.points,
+        r.hintsUsed ?? 0,
+        clearedAttempts(r)
+      ]);
+    });
+  });
+  // The byte order mark makes spreadsheet programs read å, ä and ö correctly.
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFilename = (profileName: string, extension: string) => {
+  const safeName = profileName.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'elev';
+  return `plonninge-${safeName}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+// --- Import ---
+
+// Entries are shown, charted and sent to the class server exactly as stored, so every field a
+// screen reads is checked here, optional ones included. One bad entry would break the menu on
+// every load, since it is saved with the rest of the history.
+
+const PAUSE_REASONS: PauseReason[] = ['manual', 'hidden', 'interrupted'];
+const PRESET_NUMBERS = ['questionCount', 'timePerQuestion', 'minFactor', 'maxFactor', 'maxPoints', 'passScore', 'passPoints'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptional = (value: unknown, check: (value: any) => boolean) => value === undefined || check(value);
+
+const isListOf = (value: unknown, check: (item: any) => boolean) => Array.isArray(value) && value.every(check);
+
+/** Dates can only be formatted within about 270 000 years of 1970. */
+const isTimestamp = (value: unknown) => isNumber(value) && !Number.isNaN(new Date(value).getTime());
+
+const isKeystroke = (value: any) => isNumber(value?.at) && typeof value.value === 'string';
+
+const isPause = (value: any) => isNumber(value?.at) && isNumber(value.duration) && PAUSE_REASONS.includes(value.reason);
+
+const isAccommodations = (value: any) =>
+  isNumber(value?.timeMultiplier) && typeof value.untimed === 'boolean' && typeof value.largeTargets === 'boolean';
+
+const isPreset = (value: any) =>
+  typeof value?.id === 'string' && typeof value.name === 'string' && PRESET_NUMBERS.every(key => isNumber(value[key]));
+
+/** One answered question. Every screen that reads history relies on these fields. */
+export const isResult = (value: any): value is Result =>
+  isNumber(value?.question?.a) &&
+  isNumber(value?.question?.b) &&
+  isNumber(value?.question?.table) &&
+  isNumber(value?.question?.answer) &&
+  isOptional(value.question.kind, kind => QUESTION_KINDS.includes(kind)) &&
+  (value.userAnswer === null || isNumber(value.userAnswer)) &&
+  typeof value.isCorrect === 'boolean' &&
+  isNumber(value.timeTaken) &&
+  isNumber(value.points) &&
+  isOptional(value.hintsUsed, isNumber) &&
+  isOptional(value.keystrokes, keystrokes => isListOf(keystrokes, isKeystroke));
+
+export const isHistoryEntry = (value: any): value is HistoryEntry =>
+  typeof value?.id === 'string' &&
+  typeof value.date === 'string' &&
+  Object.values(PlayType).includes(value.type) &&
+  isNumber(value.score) &&
+  isNumber(value.total) &&
+  isNumber(value.points) &&
+  typeof value.isPassed === 'boolean' &&
+  isOptional(value.timestamp, isTimestamp) &&
+  isOptional(value.results, results => isListOf(results, isResult)) &&
+  isOptional(value.preset, isPreset) &&
+  isOptional(value.pauses, pauses => isListOf(pauses, isPause)) &&
+  isOptional(value.testCode, code => typeof code === 'string') &&
+  isOptional(value.accommodations, isAccommodations) &&
+  isOptional(value.retryOf, id => typeof id === 'string') &&
+  isOptional(value.integrityFlags, flags => isListOf(flags, flag => INTEGRITY_FLAGS.includes(flag)));
+
+/** Parses an exported JSON file. Throws an ImportError saying why the file was refused. */
+export const parseHistoryImport = (text: string): HistoryExport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('invalid-json', 'Filen är inte en giltig JSON-fil.');
+  }
+  if (data?.format !== EXPORT_FORMAT) {
+    throw new ImportError('wrong-format', 'Filen är inte en export från Plönninge multiplikationskoll.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new ImportError('newer-version', 'Filen kommer från en nyare version av appen. Uppdatera appen och försök igen.');
+  }
+  if (!Array.isArray(data.entries) || !data.entries.every(isHistoryEntry)) {
+    throw new ImportError('broken-entries', 'Filen innehåller trasiga resultat.');
+  }
+  return data as HistoryExport;
+};
+
+/** Adds imported sessions that are not already present, newest first. `added` holds just the new ones. */
+export const mergeHistory = (existing: HistoryEntry[], incoming: HistoryEntry[]) => {
+  const knownIds = new Set(existing.map(e => e.id));
+  const added: HistoryEntry[] = [];
+  incoming.forEach(entry => {
+    if (knownIds.has(entry.id)) return;
+    knownIds.add(entry.id);
+    added.push(entry);
+  });
+  const merged = [...existing, ...added].sort((x, y) => entryTimestamp(y) - entryTimestamp(x));
+  return { merged, added };
+};
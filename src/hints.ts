@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PlayType, Question } from './types.ts';
+
+// Hints build up one step at a time: first the fact as a picture, then as jumps along
+// a number line and last as two easier facts. Each step says more about the answer.
+export type HintStep = 'array' | 'number-line' | 'decomposition';
+
+/** Tests are about recall, so hints are only offered while practising. */
+export const canUseHints = (playType: PlayType) => playType !== PlayType.TEST;
+
+/**
+ * Splits b into two parts the child is more likely to know: halves when b is even
+ * (7 × 8 = 7 × 4 + 7 × 4), otherwise five and the rest. Null when there is nothing to split.
+ */
+export const splitFactor = (b: number): [number, number] | null => {
+  if (b < 2) return null;
+  if (b % 2 === 0) return [b / 2, b / 2];
+  return b > 5 ? [5, b - 5] : [b - 1, 1];
+};
+
+/** The steps that make sense for this fact; anything times 0 has nothing to draw. */
+export const hintSteps = (q: Question): HintStep[] => {
+  if (q.a === 0 || q.b === 0) return [];
+  return splitFactor(q.b) ? ['array', 'number-line', 'decomposition'] : ['array', 'number-line'];
+};
+
+/** Where the jumps of a land on the way to a × b: a, 2a, 3a ... */
+export const skipCounts = (a: number, b: number) => Array.from({ length: b }, (_, i) => a * (i + 1));
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { entryTimestamp } from './stats.ts';
+import { HistoryEntry, Profile } from './types.ts';
+
+// Every session a student has finished, kept in IndexedDB so there is no need for a cap.
+// localStorage allows only a few megabytes per site, shared by all students on the device.
+const DB_NAME = 'plonninge';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const BY_PROFILE = 'byProfile';
+
+type StoredEntry = HistoryEntry & { profileId: string };
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: ['profileId', 'id'] });
+      store.createIndex(BY_PROFILE, 'profileId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(e => {
+    opening = null;
+    throw e;
+  });
+  return opening;
+};
+
+/** Runs `work` in one transaction and resolves once it has been committed. */
+const transact = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE, mode);
+    const request = work(tx.objectStore(HISTORY_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const newestFirst = (entries: HistoryEntry[]) =>
+  [...entries].sort((x, y) => entryTimestamp(y) - entryTimestamp(x));
+
+const without = (entries: HistoryEntry[], removed: HistoryEntry[]) =>
+  entries.filter(e => !removed.some(r => r.id === e.id));
+
+export const loadHistory = async (profileId: string): Promise<HistoryEntry[]> => {
+  const stored = await transact<StoredEntry[]>('readonly', store => store.index(BY_PROFILE).getAll(profileId));
+  return newestFirst((stored ?? []).map(({ profileId: _, ...entry }) => entry));
+};
+
+export const putHistoryEntries = (profileId: string, entries: HistoryEntry[]) =>
+  transact('readwrite', store => {
+    entries.forEach(entry => store.put({ ...entry, profileId }));
+  });
+
+export const deleteHistory = (profileId: string) =>
+  transact('readwrite', store => store.delete(IDBKeyRange.bound([profileId], [profileId, []])));
+
+type LegacyUpdate = (profileId: string, update: (legacy: HistoryEntry[] | undefined) => HistoryEntry[] | undefined) => void;
+
+/**
+ * The active student's history. Older versions kept it on the profile in localStorage; that
+ * copy is moved here the first time the student is picked. Sessions that IndexedDB will not
+ * take are kept in the same copy instead, so they are moved over the next time.
+ * `updateLegacy` changes the copy on the profile.
+ */
+export const useProfileHistory = (profile: Profile | null, updateLegacy: LegacyUpdate) => {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const profileId = profile?.id ?? null;
+
+  useEffect(() => {
+    setHistory([]);
+    if (!profile) return;
+    let cancelled = false;
+    const legacy = profile.history;
+    const dropMoved = (current: HistoryEntry[] | undefined) => {
+      const rest = without(current ?? [], legacy ?? []);
+      return rest.length > 0 ? rest : undefined;
+    };
+    (legacy ? putHistoryEntries(profile.id, legacy).then(() => updateLegacy(profile.id, dropMoved)) : Promise.resolve())
+      .then(() => loadHistory(profile.id))
+      .then(entries => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(e => {
+        // Without IndexedDB, e.g. in some private windows, the old copy is still worth showing
+        console.error('Failed to load history', e);
+        if (!cancelled) setHistory(legacy ?? []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const addEntries = (entries: HistoryEntry[]) => {
+    if (!profileId || entries.length === 0) return;
+    setHistory(prev => newestFirst([...entries, ...without(prev, entries)]));
+    putHistoryEntries(profileId, entries).catch(e => {
+      console.error('Failed to save history, keeping it on the profile', e);
+      updateLegacy(profileId, legacy => newestFirst([...entries, ...without(legacy ?? [], entries)]));
+    });
+  };
+
+  const clearHistory = () => {
+    if (!profileId) return;
+    setHistory([]);
+    updateLegacy(profileId, () => undefined);
+    deleteHistory(profileId).catch(e => console.error('Failed to clear history', e));
+  };
+
+  return { history, addEntries, clearHistory };
+};
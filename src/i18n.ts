@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createContext, useContext } from 'react';
+import { ar } from './locales/ar.ts';
+import { en } from './locales/en.ts';
+import { so } from './locales/so.ts';
+import { Catalog, Message, MessageKey, sv } from './locales/sv.ts';
+import { Locale } from './types.ts';
+
+export type { MessageKey } from './locales/sv.ts';
+
+const LOCALE_KEY = 'plonninge_locale';
+
+interface LocaleInfo {
+  name: string; // in its own language, for the switcher
+  intl: string; // tag handed to Intl
+  dir: 'ltr' | 'rtl';
+}
+
+// Arabic keeps Latin digits so numbers match the numpad and the tables on the board.
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  sv: { name: 'Svenska', intl: 'sv-SE', dir: 'ltr' },
+  en: { name: 'English', intl: 'en-GB', dir: 'ltr' },
+  ar: { name: 'العربية', intl: 'ar-u-nu-latn', dir: 'rtl' },
+  so: { name: 'Soomaali', intl: 'so-SO', dir: 'ltr' }
+};
+
+const CATALOGS: Record<Locale, Catalog> = { sv, en, ar, so };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (timestamp: number) => string;
+  formatDate: (timestamp: number) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const { intl, dir } = LOCALES[locale];
+  const catalog = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(intl);
+  const numbers = new Intl.NumberFormat(intl);
+  const dates = new Intl.DateTimeFormat(intl, { dateStyle: 'short', timeStyle: 'short' });
+  const days = new Intl.DateTimeFormat(intl, { dateStyle: 'short' });
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const entry: Message = catalog[key] ?? sv[key];
+    let message: string;
+    if (typeof entry === 'string') {
+      message = entry;
+    } else {
+      const count = typeof params.count === 'number' ? params.count : 0;
+      message = entry[plurals.select(count)] ?? entry.other;
+    }
+    return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+
+  return {
+    locale,
+    dir,
+    t,
+    formatNumber: (value, options) => new Intl.NumberFormat(intl, options).format(value),
+    formatDateTime: (timestamp) => dates.format(timestamp),
+    formatDate: (timestamp) => days.format(timestamp)
+  };
+};
+
+export const I18nContext = createContext<Translator>(createTranslator('sv'));
+
+export const useI18n = () => useContext(I18nContext);
+
+// --- Device default ---
+
+/** Used before a profile is picked: the last choice on this device, else the browser language. */
+export const loadDeviceLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = navigator.language?.slice(0, 2);
+  return isLocale(browser) ? browser : 'sv';
+};
+
+export const saveDeviceLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GUESSING_CLEARS_PER_QUESTION, GUESSING_CLEARS_PER_TEST, IMPLAUSIBLE_SECONDS, clearedAttempts, integrityFlags } from './integrity.ts';
+import { makeQuestion } from './questions.ts';
+import { Keystroke, PauseRecord, PlayType, Result } from './types.ts';
+
+const answer = (timeTaken: number, isCorrect = true, keystrokes?: Keystroke[]): Result => ({
+  question: makeQuestion(6, 7),
+  userAnswer: isCorrect ? 42 : 41,
+  isCorrect,
+  timeTaken,
+  points: 0,
+  keystrokes
+});
+
+/** Typed a digit and wiped it `clears` times, then typed the answer. */
+const withClears = (clears: number) =>
+  answer(3, true, [
+    ...Array.from({ length: clears }, (_, i) => [{ at: i * 200, value: '4' }, { at: i * 200 + 100, value: '' }]).flat(),
+    { at: 5000, value: '42' }
+  ]);
+
+const flags = (results: Result[], pauses: PauseRecord[] = []) => integrityFlags(PlayType.TEST, results, pauses);
+
+describe('integrityFlags', () => {
+  it('never flags practice', () => {
+    const fast = answer(0.1);
+    expect(integrityFlags(PlayType.PRACTICE, [fast, fast, withClears(10)], [{ at: 0, duration: 1000, reason: 'hidden' }])).toEqual([]);
+  });
+
+  it('flags two right answers under the plausible time, not one', () => {
+    const fast = answer(IMPLAUSIBLE_SECONDS - 0.1);
+    expect(flags([fast, answer(3)])).toEqual([]);
+    expect(flags([fast, fast])).toEqual(['too-fast']);
+  });
+
+  it('lets quick wrong answers and answers at the limit pass', () => {
+    expect(flags([answer(0.1, false), answer(0.1, false)])).toEqual([]);
+    expect(flags([answer(IMPLAUSIBLE_SECONDS), answer(IMPLAUSIBLE_SECONDS)])).toEqual([]);
+  });
+
+  it('flags guessing on one question from the per-question limit', () => {
+    expect(flags([withClears(GUESSING_CLEARS_PER_QUESTION - 1)])).toEqual([]);
+    expect(flags([withClears(GUESSING_CLEARS_PER_QUESTION)])).toEqual(['guessing']);
+  });
+
+  it('flags guessing spread over the test from the per-test limit', () => {
+    const few = Array.from({ length: GUESSING_CLEARS_PER_TEST - 1 }, () => withClears(1));
+    expect(flags(few)).toEqual([]);
+    expect(flags([...few, withClears(1)])).toEqual(['guessing']);
+  });
+
+  it('flags hiding and reloading the page, not pausing', () => {
+    expect(flags([answer(3)], [{ at: 0, duration: 1000, reason: 'manual' }])).toEqual([]);
+    expect(flags([answer(3)], [{ at: 0, duration: 1000, reason: 'hidden' }])).toEqual(['tab-switches']);
+    expect(flags([answer(3)], [{ at: 0, duration: 1000, reason: 'interrupted' }])).toEqual(['tab-switches']);
+  });
+});
+
+describe('clearedAttempts', () => {
+  it('counts only digits being wiped', () => {
+    expect(clearedAttempts(answer(3, true, [{ at: 0, value: '' }, { at: 100, value: '4' }, { at: 200, value: '42' }]))).toBe(0);
+    expect(clearedAttempts(withClears(2))).toBe(2);
+    expect(clearedAttempts(answer(3))).toBe(0);
+  });
+});
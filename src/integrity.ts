@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IntegrityFlag, PauseRecord, PlayType, Result } from './types.ts';
+
+// Tests are answered with OK or Enter, so typing a number no longer reveals whether it is
+// right. What is left is worth a second look rather than a verdict: a flag asks the teacher
+// to check with the child, and never changes the score.
+
+// Reading a fact and typing the answer takes longer than this, however well it is known.
+export const IMPLAUSIBLE_SECONDS = 0.5;
+export const TOO_FAST_LIMIT = 2;
+
+// Wiping the field again and again on one question looks like trying numbers until one fits.
+export const GUESSING_CLEARS_PER_QUESTION = 3;
+export const GUESSING_CLEARS_PER_TEST = 6;
+
+export const INTEGRITY_FLAGS: IntegrityFlag[] = ['guessing', 'too-fast', 'tab-switches'];
+
+/** Times the field went from holding digits to empty, whether by C or by deleting. */
+export const clearedAttempts = (r: Result) =>
+  (r.keystrokes ?? []).filter((k, i, all) => k.value === '' && i > 0 && all[i - 1].value !== '').length;
+
+export const isImplausiblyFast = (r: Result) => r.isCorrect && r.timeTaken < IMPLAUSIBLE_SECONDS;
+
+/**
+ * The page was hidden during the test, e.g. to open another tab or app, or closed or reloaded
+ * and the test resumed later. Both stop the clock, whatever the preset's pause policy.
+ */
+export const tabSwitches = (pauses: PauseRecord[]) =>
+  pauses.filter(p => p.reason === 'hidden' || p.reason === 'interrupted').length;
+
+/** Flags for a finished test. Practice is never flagged, since it is meant to be tried out. */
+export const integrityFlags = (playType: PlayType, results: Result[], pauses: PauseRecord[]): IntegrityFlag[] => {
+  if (playType !== PlayType.TEST) return [];
+  const clears = results.map(clearedAttempts);
+  const checks: Record<IntegrityFlag, boolean> = {
+    'guessing':
+      clears.some(n => n >= GUESSING_CLEARS_PER_QUESTION) ||
+      clears.reduce((sum, n) => sum + n, 0) >= GUESSING_CLEARS_PER_TEST,
+    'too-fast': results.filter(isImplausiblyFast).length >= TOO_FAST_LIMIT,
+    'tab-switches': tabSwitches(pauses) > 0
+  };
+  return INTEGRITY_FLAGS.filter(flag => checks[flag]);
+};
+
+/** Short Swedish summary for teachers, e.g. "många raderade försök · lämnade testet". */
+export const describeIntegrityFlags = (flags: IntegrityFlag[]) => flags.map(flag => ({
+  'guessing': 'många raderade försök',
+  'too-fast': 'orimligt snabba svar',
+  'tab-switches': 'lämnade testet'
+})[flag]).join(' · ');
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LiveSession } from './types.ts';
+
+// One in-progress session per student, so a shared tablet can hold several.
+const LIVE_SESSIONS_KEY = 'plonninge_live_sessions';
+
+const readAll = (): Record<string, LiveSession> => {
+  const raw = localStorage.getItem(LIVE_SESSIONS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to parse live sessions', e);
+    return {};
+  }
+};
+
+const writeAll = (sessions: Record<string, LiveSession>) => {
+  localStorage.setItem(LIVE_SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+export const loadLiveSession = (profileId: string): LiveSession | null => readAll()[profileId] ?? null;
+
+export const saveLiveSession = (session: LiveSession) => {
+  writeAll({ ...readAll(), [session.profileId]: session });
+};
+
+export const clearLiveSession = (profileId: string) => {
+  const { [profileId]: _, ...rest } = readAll();
+  writeAll(rest);
+};
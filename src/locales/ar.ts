@@ -0,0 +1,410 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Catalog } from './sv.ts';
+
+// Arabic has six plural forms: zero, one, two, few (3–10), many (11–99) and other.
+export const ar: Catalog = {
+  // --- Shared ---
+  'app.title': 'جدول الضرب في بلونينغه',
+  'common.cancel': 'إلغاء',
+  'common.continue': 'متابعة',
+  'common.backToMenu': 'العودة إلى القائمة',
+  'common.back': 'رجوع',
+  'common.passed': 'ناجح',
+  'common.points': '{count} نقطة',
+  'common.questions': {
+    zero: '{count} سؤال',
+    one: 'سؤال واحد',
+    two: 'سؤالان',
+    few: '{count} أسئلة',
+    many: '{count} سؤالاً',
+    other: '{count} سؤال'
+  },
+  'common.accommodated': 'مُكيَّف',
+  'common.flagged': 'تحتاج إلى مراجعة',
+  'common.retryOf': 'بعد {type} بنتيجة {score}/{total}',
+  'integrity.guessing': 'محاولات كثيرة ممسوحة',
+  'integrity.too-fast': 'إجابات أسرع من المعقول',
+  'integrity.tab-switches': 'غادر الاختبار أثناء سيره',
+  'playType.PRACTICE': 'تمرين',
+  'playType.TEST': 'اختبار',
+  'playType.SMART': 'تمرين ذكي',
+  'playType.RETRY': 'تدريب على الأخطاء',
+  'playType.ADAPTIVE': 'تدريب متكيّف',
+  'playType.ALL': 'الكل',
+  'kind.multiply': 'ضرب (7 × 8 = ?)',
+  'kind.divide': 'قسمة (56 ÷ 7 = ?)',
+  'kind.missing-factor': 'العامل الناقص (7 × ? = 56)',
+
+  // --- Navigation ---
+  'nav.subtitle': 'جدول الضرب',
+  'nav.sessionInProgress': 'جلسة جارية',
+  'nav.switchStudent': 'تغيير التلميذ',
+  'nav.language': 'اللغة',
+  'nav.mute': 'إيقاف الصوت',
+  'nav.unmute': 'تشغيل الصوت',
+  'footer.copyright': '© 2026 مدرسة بلونينغه - الرياضيات ممتعة!',
+  'footer.audience': 'مصمم للصفوف 4–6',
+  'footer.version': 'الإصدار {version}',
+  'sync.allSent': 'تم إرسال كل شيء',
+  'sync.sending': 'جارٍ الإرسال...',
+  'sync.offline': 'غير متصل',
+  'sync.waiting': {
+    zero: 'لا توجد نتائج بالانتظار',
+    one: 'نتيجة واحدة بالانتظار',
+    two: 'نتيجتان بالانتظار',
+    few: '{count} نتائج بالانتظار',
+    many: '{count} نتيجة بالانتظار',
+    other: '{count} نتيجة بالانتظار'
+  },
+  'sync.retry': 'حاول الإرسال الآن',
+
+  // --- Menu ---
+  'menu.subtitle': 'اختر طريقة لتبدأ التدريب!',
+  'menu.whoIsPlaying': 'من يلعب؟',
+  'menu.removeStudent': 'حذف التلميذ',
+  'menu.confirmRemoveStudent': 'هل تريد حذف {name} وكل سجله؟',
+  'menu.newStudentPlaceholder': 'اسم التلميذ الجديد',
+  'menu.addStudent': 'إضافة',
+  'menu.classCode': 'رمز الصف لـ {name}:',
+  'menu.classCodePlaceholder': 'اختياري',
+  'menu.unfinishedTitle': 'لديك جلسة لم تنتهِ بعد',
+  'menu.unfinishedProgress': {
+    one: '{type} – تمت الإجابة عن {answered} من سؤال واحد',
+    two: '{type} – تمت الإجابة عن {answered} من سؤالين',
+    few: '{type} – تمت الإجابة عن {answered} من {count} أسئلة',
+    many: '{type} – تمت الإجابة عن {answered} من {count} سؤالاً',
+    other: '{type} – تمت الإجابة عن {answered} من {count} سؤال'
+  },
+  'menu.discardSession': 'إلغاء الجلسة',
+  'menu.confirmDiscardSession': 'هل تريد إلغاء الجلسة التي لم تنهها؟',
+  'menu.practice': 'تدرّب',
+  'menu.practiceDescription': 'اختر جداول معينة واحصل على تصحيح فوري.',
+  'menu.test': 'اختبار',
+  'menu.testDescription': {
+    one: 'سؤال واحد بوقت محدد. هل تستطيع النجاح؟',
+    two: 'سؤالان بوقت محدد. هل تستطيع النجاح؟',
+    few: '{count} أسئلة بوقت محدد. هل تستطيع النجاح؟',
+    many: '{count} سؤالاً بوقت محدد. هل تستطيع النجاح؟',
+    other: '{count} سؤال بوقت محدد. هل تستطيع النجاح؟'
+  },
+  'menu.smart': 'تمرين ذكي',
+  'menu.smartDescription': 'يركّز على ما تخطئ فيه عادةً.',
+  'menu.adaptive': 'تدريب متكيّف',
+  'menu.adaptiveDescription': 'يصبح أصعب عندما تُحسن وأسهل عندما يصعب الأمر.',
+  'menu.recentResults': 'آخر النتائج',
+  'menu.noResults': 'لا توجد نتائج بعد. إذا تدربت على جهاز آخر يمكنك استيراد نتائجك هنا.',
+  'menu.pauses': {
+    one: 'توقف واحد',
+    two: 'توقفان',
+    few: '{count} توقفات',
+    many: '{count} توقفاً',
+    other: '{count} توقف'
+  },
+  'menu.clearHistory': 'مسح السجل',
+  'menu.masteryMap': 'خريطة الجداول',
+  'menu.progress': 'تقدّمي',
+  'menu.teacherView': 'واجهة المعلم',
+  'menu.testSettings': 'إعدادات الاختبار',
+  'menu.accessibility': 'إمكانية الوصول',
+  'menu.accommodations': 'التسهيلات',
+
+  // --- History files ---
+  'transfer.import': 'استيراد',
+  'transfer.imported': {
+    one: 'تم استيراد جلسة واحدة.',
+    two: 'تم استيراد جلستين.',
+    few: 'تم استيراد {count} جلسات.',
+    many: 'تم استيراد {count} جلسة.',
+    other: 'تم استيراد {count} جلسة.'
+  },
+  'transfer.skipped': {
+    one: 'جلسة واحدة موجودة مسبقاً.',
+    two: 'جلستان موجودتان مسبقاً.',
+    few: '{count} جلسات موجودة مسبقاً.',
+    other: '{count} جلسة موجودة مسبقاً.'
+  },
+  'transfer.unreadable': 'تعذّرت قراءة الملف.',
+  'transfer.invalid-json': 'الملف ليس ملف JSON صالحاً.',
+  'transfer.wrong-format': 'الملف ليس تصديراً من تطبيق جدول الضرب في بلونينغه.',
+  'transfer.newer-version': 'الملف من إصدار أحدث من التطبيق. حدّث التطبيق وحاول مرة أخرى.',
+  'transfer.broken-entries': 'يحتوي الملف على نتائج تالفة.',
+
+  // --- Setup ---
+  'setup.titleTest': 'ما الجداول التي تريد أن تُختبر فيها؟',
+  'setup.titlePractice': 'ما الجداول التي تريد التدرب عليها؟',
+  'setup.chooseTables': 'اختر جدولاً أو أكثر بين 1 و{max}.',
+  'setup.dueFacts': {
+    one: 'مسألة واحدة جاهزة للمراجعة.',
+    two: 'مسألتان جاهزتان للمراجعة.',
+    few: '{count} مسائل جاهزة للمراجعة.',
+    many: '{count} مسألة جاهزة للمراجعة.',
+    other: '{count} مسألة جاهزة للمراجعة.'
+  },
+  'setup.tablesUpTo': 'الجداول حتى',
+  'setup.selectAll': 'اختيار الكل',
+  'setup.deselectAll': 'إلغاء اختيار الكل',
+  'setup.changeColor': 'تغيير اللون',
+  'setup.questionKinds': 'نوع المسائل',
+  'setup.preset': 'إعداد الاختبار',
+  'setup.factorRange': 'العوامل {min}–{max}',
+  'setup.secondsPerQuestion': '{seconds} ث لكل سؤال',
+  'setup.untimed': 'بدون حد زمني',
+  'setup.sharedTest': 'اختبار مشترك برمز اختبار',
+  'setup.testCodePlaceholder': 'رمز الاختبار من المعلم',
+  'setup.start': 'ابدأ',
+  'setup.testCodeInvalid': 'رمز الاختبار غير معروف.',
+  'setup.testCodeHelp': 'كل من يُدخل الرمز نفسه يحصل على الأسئلة نفسها بالترتيب نفسه، وبالوقت نفسه وحدود النجاح نفسها.',
+  'setup.createCode': 'إنشاء رمز',
+  'setup.worksheet': 'ورقة عمل',
+  'setup.wordProblems': 'مسائل كلامية',
+  'setup.startTest': 'ابدأ الاختبار',
+  'setup.startPractice': 'ابدأ التمرين',
+
+  // --- Playing ---
+  'playing.questionOf': 'السؤال {current} من {total}',
+  'playing.testMode': 'وضع الاختبار',
+  'playing.pause': 'إيقاف مؤقت',
+  'playing.paused': 'متوقف مؤقتاً',
+  'playing.pausedTest': 'الوقت متوقف. يُحفظ التوقف في السجل.',
+  'playing.pausedPractice': 'خذ استراحة وتابع عندما تكون مستعداً.',
+  'playing.correct': 'صحيح!',
+  'playing.wrong': 'خطأ!',
+  'playing.timeout': 'انتهى الوقت!',
+  'playing.answerIs': 'الجواب هو {answer}',
+  'playing.correctAnswer': 'الجواب الصحيح: {answer}',
+  'playing.seconds': '{seconds} ث',
+  'playing.answer': 'الجواب',
+  'playing.clear': 'مسح',
+  'playing.submitHint': 'اكتب إجابتك ثم اضغط OK أو Enter.',
+  'playing.hint': 'تلميح',
+  'playing.moreHelp': 'مساعدة إضافية',
+  'hint.title': 'تلميح {step} من {total}',
+  'hint.array.multiply': '{a} صفوف في كل صف {b} نقاط. كم نقطة في المجموع؟',
+  'hint.array.reverse': '{product} نقطة في {a} صفوف. كم نقطة في كل صف؟',
+  'hint.numberLine.multiply': 'اقفز {b} قفزات، كل قفزة {a}.',
+  'hint.numberLine.reverse': 'اقفز {a} في كل مرة حتى تصل إلى {product}. كم قفزة قفزت؟',
+  'hint.decomposition.multiply': 'قسّم {b} إلى {first} و{second} ثم اجمع الناتجين.',
+  'hint.decomposition.reverse': 'قسّم {product} إلى {first} و{second}. اقسم كلاً منهما على {a} ثم اجمع.',
+
+  // --- Results ---
+  'results.passed': 'لقد نجحت!',
+  'results.upload.sent': 'تم إرسال نتيجتك إلى معلمك! 🌟',
+  'results.upload.sending': 'جارٍ إرسال نتيجتك إلى معلمك...',
+  'results.upload.queued': 'حُفظت نتيجتك وستُرسل إلى معلمك عندما تعود الشبكة.',
+  'results.upload.failed': 'تعذّر إرسال نتيجتك. أرِ هذا لمعلمك! 🌟',
+  'results.upload.idle': 'أرِ هذا لمعلمك الآن! 🌟',
+  'results.wellFought': 'أحسنت المحاولة!',
+  'results.needsMorePractice': 'تحتاج إلى قليل من التدريب الإضافي لتصل إلى النهاية.',
+  'results.paused': {
+    one: 'توقف الاختبار مرة واحدة ({seconds} ث في المجموع).',
+    two: 'توقف الاختبار مرتين ({seconds} ث في المجموع).',
+    few: 'توقف الاختبار {count} مرات ({seconds} ث في المجموع).',
+    many: 'توقف الاختبار {count} مرة ({seconds} ث في المجموع).',
+    other: 'توقف الاختبار {count} مرة ({seconds} ث في المجموع).'
+  },
+  'results.testCode': 'رمز الاختبار',
+  'results.yourResult': 'نتيجتك',
+  'results.yourSpeed': 'سرعتك',
+  'results.passLimit': 'حد النجاح',
+  'results.correctCount': 'عدد الإجابات الصحيحة',
+  'results.speedPoints': 'نقاط السرعة',
+  'results.perKind': 'الإجابات الصحيحة حسب نوع المسألة',
+  'results.difficultyCurve': 'منحنى الصعوبة',
+  'results.difficultyDescription': 'يبيّن الخط المستوى الذي اختير عنده كل سؤال. الإجابات الصحيحة السريعة ترفعه، والأخطاء والإجابات البطيئة تخفضه.',
+  'results.levelChange': 'من المستوى {start} إلى {end}',
+  'results.level': 'المستوى',
+  'results.questionDifficulty': 'صعوبة السؤال',
+  'results.correctQuestion': 'إجابة صحيحة',
+  'results.wrongQuestion': 'إجابة خاطئة',
+  'results.needsPracticeTitle': 'الجداول التي تحتاج إلى التدرب عليها أكثر:',
+  'results.table': 'جدول {table}',
+  'results.wrongTitle': 'الأسئلة التي أخطأت فيها:',
+  'results.questionNumber': 'السؤال {number}',
+  'results.yourAnswer': 'جوابك: {answer}',
+  'results.noAnswer': 'لا شيء',
+  'results.retryMistakes': 'تدرّب على الأخطاء',
+  'results.retryProgress': {
+    one: 'أجبت إجابة صحيحة مرتين متتاليتين عن {mastered} من سؤال واحد.',
+    two: 'أجبت إجابة صحيحة مرتين متتاليتين عن {mastered} من سؤالين.',
+    few: 'أجبت إجابة صحيحة مرتين متتاليتين عن {mastered} من {count} أسئلة.',
+    many: 'أجبت إجابة صحيحة مرتين متتاليتين عن {mastered} من {count} سؤالاً.',
+    other: 'أجبت إجابة صحيحة مرتين متتاليتين عن {mastered} من {count} سؤال.'
+  },
+  'results.hintsTitle': 'أسئلة استعنت فيها بالتلميحات:',
+  'results.hintSteps': {
+    one: 'تلميح واحد',
+    two: 'تلميحان',
+    few: '{count} تلميحات',
+    many: '{count} تلميحاً',
+    other: '{count} تلميح'
+  },
+  'results.saveAsFile': 'احفظ كل النتائج في ملف',
+  'feedback.title': 'نصائح للمرة القادمة',
+  'feedback.loading': 'نفكر في نصائح...',
+  'feedback.byAi': 'كتبه الذكاء الاصطناعي',
+
+  // --- Accessibility ---
+  'a11y.title': 'إمكانية الوصول',
+  'a11y.subtitle': 'تُحفظ الإعدادات لـ {name}.',
+  'a11y.motion': 'الحركة والرسوم المتحركة',
+  'a11y.motion.system': 'كما في الجهاز',
+  'a11y.motion.reduce': 'حركة أقل',
+  'a11y.motion.full': 'كل الرسوم المتحركة',
+  'a11y.highContrast': 'تباين عالٍ',
+  'a11y.highContrastDescription': 'نص أغمق وحواف أوضح.',
+  'a11y.palette': 'ألوان الجداول',
+  'a11y.palette.standard': 'ألواني الخاصة',
+  'a11y.palette.colorblind': 'مناسبة لعمى الألوان',
+  'a11y.palette.high-contrast': 'تباين عالٍ',
+  'a11y.readAloud': 'قراءة الأسئلة بصوت عالٍ',
+  'a11y.readAloudDescription': 'يُقرأ كل سؤال عند ظهوره.',
+  'a11y.readAloudUnavailable': 'هذا المتصفح لا يستطيع قراءة النص بصوت عالٍ.',
+  'a11y.tryIt': 'جرّب',
+  'a11y.sound': 'الصوت',
+  'a11y.mute': 'إيقاف الصوت',
+  'a11y.muteDescription': 'بلا أي أصوات، مثلاً في صف هادئ.',
+  'a11y.volume': 'مستوى الصوت',
+  'a11y.soundTheme': 'نمط الأصوات',
+  'a11y.soundTheme.classic': 'كلاسيكي',
+  'a11y.soundTheme.soft': 'هادئ',
+  'a11y.soundTheme.arcade': 'ألعاب',
+  'a11y.soundTheme.bells': 'أجراس',
+  'a11y.spokenFeedback': 'قل إن كانت الإجابة صحيحة',
+  'a11y.spokenFeedbackDescription': 'بعد كل سؤال تسمع «صحيح!» أو الإجابة الصحيحة.',
+  'a11y.keyboard': 'باستخدام لوحة المفاتيح: Tab للتنقل بين الأزرار، وEnter للإجابة، وEsc للإيقاف المؤقت.',
+  'a11y.questionAnnouncement': 'السؤال {current} من {total}: {question}',
+  'speech.multiply': '{a} ضرب {b}',
+  'speech.divide': '{product} تقسيم {a}',
+  'speech.missing-factor': '{a} ضرب كم يساوي {product}',
+  'speech.correct': 'صحيح!',
+
+  // --- Achievements ---
+  'achievement.first-session': 'الجلسة الأولى',
+  'achievement.first-session.description': 'أكمل أول تمرين أو اختبار لك.',
+  'achievement.first-pass': 'ناجح!',
+  'achievement.first-pass.description': 'انجح في اختبار لأول مرة.',
+  'achievement.perfect-test': 'علامة كاملة',
+  'achievement.perfect-test.description': 'أجب عن كل أسئلة الاختبار إجابة صحيحة.',
+  'achievement.lightning': 'سريع كالبرق',
+  'achievement.lightning.description': 'أجب عن كل الأسئلة إجابة صحيحة في أقل من {seconds} ثوانٍ، في جولة من {count} أسئلة على الأقل.',
+  'achievement.streak-3': '3 أيام متتالية',
+  'achievement.streak-3.description': 'تدرّب ثلاثة أيام متتالية.',
+  'achievement.streak-7': '7 أيام متتالية',
+  'achievement.streak-7.description': 'تدرّب سبعة أيام متتالية.',
+  'achievement.pass-table': 'النجاح في جدول {table}',
+  'achievement.pass-table.description': 'انجح في اختبار يتضمن جدول {table}.',
+  'achievement.master-table': 'بطل جدول {table}',
+  'achievement.master-table.description': 'احفظ جدول {table} كاملاً بسرعة وثقة مرة بعد مرة.',
+  'menu.badges': 'الأوسمة',
+  'menu.badgesCount': '{unlocked} من {total}',
+  'menu.streak': {
+    zero: '{count} يوم متتالٍ',
+    one: 'يوم واحد',
+    two: 'يومان متتاليان',
+    few: '{count} أيام متتالية',
+    many: '{count} يوماً متتالياً',
+    other: '{count} يوم متتالٍ'
+  },
+  'menu.badgeLocked': 'لم يُفتح بعد',
+  'menu.badgeUnlocked': 'فُتح في {date}',
+  'results.newBadges': {
+    one: 'وسام جديد!',
+    two: 'وسامان جديدان!',
+    few: '{count} أوسمة جديدة!',
+    many: '{count} وساماً جديداً!',
+    other: '{count} وسام جديد!'
+  },
+
+  // --- Class competition ---
+  'menu.competition': 'مسابقة الصف',
+  'menu.competitionDescription': 'نافس زملاءك باستخدام الرمز الظاهر على شاشة المعلم.',
+  'menu.hostCompetition': 'ابدأ مسابقة الصف',
+  'competition.title': 'مسابقة الصف',
+  'competition.joinDescription': 'اكتب الرمز الظاهر على شاشة المعلم.',
+  'competition.code': 'الرمز',
+  'competition.name': 'اسمك',
+  'competition.join': 'انضم',
+  'competition.connecting': 'جارٍ الاتصال …',
+  'competition.serverDown': 'تعذّر الوصول إلى المسابقة. هل أنت متصل بشبكة المدرسة؟',
+  'competition.waiting': 'لقد انضممت يا {name}! انتظر حتى يبدأ المعلم.',
+  'competition.players': {
+    zero: 'لم ينضم أي طالب بعد',
+    one: 'انضم طالب واحد',
+    two: 'انضم طالبان',
+    few: 'انضم {count} طلاب',
+    many: 'انضم {count} طالباً',
+    other: 'انضم {count} طالب'
+  },
+  'competition.getReady': 'استعد!',
+  'competition.send': 'أرسل الإجابة',
+  'competition.answerSent': 'أُرسلت الإجابة. انتظر الآخرين …',
+  'competition.correct': 'صحيح! +{points} نقاط',
+  'competition.wrong': 'ليست صحيحة هذه المرة.',
+  'competition.noAnswer': 'لا إجابة هذه المرة.',
+  'competition.rightAnswer': 'الإجابة الصحيحة:',
+  'competition.leaderboard': 'لوحة المتصدرين',
+  'competition.yourPlace': 'أنت في المركز {rank} من {count}',
+  'competition.waitNext': 'سيبدأ المعلم السؤال التالي قريباً.',
+  'competition.finished': 'انتهت المسابقة!',
+  'competition.closed': 'أنهى المعلم المسابقة.',
+  'competition.lost': 'انقطع الاتصال بالمسابقة.',
+  'competition.reconnect': 'أعد الاتصال',
+  'competition.error.unknown-code': 'لا توجد مسابقة بهذا الرمز.',
+  'competition.error.name-taken': 'يوجد في المسابقة من يحمل هذا الاسم. أضف حرفاً.',
+  'competition.error.room-full': 'المسابقة ممتلئة.',
+  'competition.error.finished': 'انتهت هذه المسابقة بالفعل.',
+  'competition.error.malformed': 'اكتب اسمك.',
+
+  // --- Table map ---
+  'mastery.description': 'نسبة الإجابات الصحيحة والوقت الوسيط لكل عملية في كل جلساتك.',
+  'mastery.from': 'من',
+  'mastery.to': 'إلى',
+  'mastery.clearFilters': 'مسح عوامل التصفية',
+  'mastery.noAnswers': 'لا توجد إجابات محفوظة لهذا الاختيار بعد.',
+  'mastery.cell': '{fact}: {correct}/{attempts} صحيحة، الوقت الوسيط {seconds} ث',
+  'mastery.cellEmpty': '{fact}: لا توجد إجابات',
+  'mastery.legendWrong': '0 % صحيحة',
+  'mastery.legendRight': '100 % صحيحة',
+  'mastery.legendSlow': 'المربع الأفتح = إجابة بطيئة',
+  'mastery.trouble': 'عمليات صعبة',
+
+  // --- Word problems ---
+  'wordProblems.description': 'اقرأ المسألة واحسب الإجابة واكتبها في المربع.',
+  'wordProblems.loading': 'جارٍ كتابة المسائل...',
+  'wordProblems.answerLabel': 'إجابة المسألة {number}',
+  'wordProblems.correct': 'صحيح!',
+  'wordProblems.byAi': 'كتب الذكاء الاصطناعي هذه المسائل',
+  'wordProblems.check': 'صحّح',
+  'wordProblems.score': '{correct} من {total} صحيحة',
+  'wordProblems.newProblems': 'مسائل جديدة',
+
+  // --- Progress ---
+  'progress.title': 'تقدّمي',
+  'progress.description': 'كيف تطوّرت اختباراتك وجداولك مع الوقت.',
+  'progress.preset': 'الاختبار:',
+  'progress.testCount': {
+    zero: '{count} اختبار',
+    one: 'اختبار واحد',
+    two: 'اختباران',
+    few: '{count} اختبارات',
+    many: '{count} اختباراً',
+    other: '{count} اختبار'
+  },
+  'progress.passedCount': {
+    zero: 'نجاح {count}',
+    one: 'نجاح واحد',
+    two: 'نجاحان',
+    few: '{count} نجاحات',
+    many: '{count} نجاحاً',
+    other: '{count} نجاح'
+  },
+  'progress.passMark': 'النجاح: {mark}',
+  'progress.noTests': 'قم باختبار وسترى هنا كيف تتقدّم.',
+  'progress.perTable': 'الإجابات الصحيحة لكل جدول، أسبوعاً بعد أسبوع',
+  'progress.noAnswers': 'لا توجد إجابات محفوظة بعد.',
+  'progress.week': 'أسبوع {date}'
+};
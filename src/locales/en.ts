@@ -0,0 +1,311 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Catalog } from './sv.ts';
+
+export const en: Catalog = {
+  // --- Shared ---
+  'app.title': 'Plönninge times tables',
+  'common.cancel': 'Cancel',
+  'common.continue': 'Continue',
+  'common.backToMenu': 'Back to the menu',
+  'common.back': 'Back',
+  'common.passed': 'PASSED',
+  'common.points': '{count} pts',
+  'common.questions': { one: '{count} question', other: '{count} questions' },
+  'common.accommodated': 'Adapted',
+  'common.flagged': 'Needs a second look',
+  'common.retryOf': 'after {type} with {score}/{total} correct',
+  'integrity.guessing': 'Many cleared attempts',
+  'integrity.too-fast': 'Implausibly fast answers',
+  'integrity.tab-switches': 'Left the test while it was running',
+  'playType.PRACTICE': 'Practice',
+  'playType.TEST': 'Test',
+  'playType.SMART': 'Smart practice',
+  'playType.RETRY': 'Mistake practice',
+  'playType.ADAPTIVE': 'Adaptive practice',
+  'playType.ALL': 'All',
+  'kind.multiply': 'Multiplication (7 × 8 = ?)',
+  'kind.divide': 'Division (56 ÷ 7 = ?)',
+  'kind.missing-factor': 'Missing factor (7 × ? = 56)',
+
+  // --- Navigation ---
+  'nav.subtitle': 'Times tables',
+  'nav.sessionInProgress': 'Session in progress',
+  'nav.switchStudent': 'Switch student',
+  'nav.language': 'Language',
+  'nav.mute': 'Turn sound off',
+  'nav.unmute': 'Turn sound on',
+  'footer.copyright': '© 2026 Plönninge School - Maths is fun!',
+  'footer.audience': 'Made for years 4–6',
+  'footer.version': 'Version {version}',
+  'sync.allSent': 'All sent',
+  'sync.sending': 'Sending...',
+  'sync.offline': 'Offline',
+  'sync.waiting': { one: '{count} result waiting', other: '{count} results waiting' },
+  'sync.retry': 'Try sending now',
+
+  // --- Menu ---
+  'menu.subtitle': 'Pick a mode to start practising!',
+  'menu.whoIsPlaying': 'Who is playing?',
+  'menu.removeStudent': 'Remove student',
+  'menu.confirmRemoveStudent': 'Do you want to remove {name} and all their history?',
+  'menu.newStudentPlaceholder': 'New student’s name',
+  'menu.addStudent': 'Add',
+  'menu.classCode': 'Class code for {name}:',
+  'menu.classCodePlaceholder': 'Optional',
+  'menu.unfinishedTitle': 'You have an unfinished session',
+  'menu.unfinishedProgress': { one: '{type} – {answered} of {count} question answered', other: '{type} – {answered} of {count} questions answered' },
+  'menu.discardSession': 'Discard session',
+  'menu.confirmDiscardSession': 'Do you want to discard the session you have not finished?',
+  'menu.practice': 'Practise',
+  'menu.practiceDescription': 'Choose specific tables and get instant feedback.',
+  'menu.test': 'Test',
+  'menu.testDescription': { one: '{count} timed question. Can you pass?', other: '{count} timed questions. Can you pass?' },
+  'menu.smart': 'Smart practice',
+  'menu.smartDescription': 'Focuses on what you usually get wrong.',
+  'menu.adaptive': 'Adaptive practice',
+  'menu.adaptiveDescription': 'Gets harder when it goes well and easier when it is tough.',
+  'menu.recentResults': 'Recent results',
+  'menu.noResults': 'No results yet. If you practised on another device, you can import your results here.',
+  'menu.pauses': { one: '{count} pause', other: '{count} pauses' },
+  'menu.clearHistory': 'Clear history',
+  'menu.masteryMap': 'Table map',
+  'menu.progress': 'My progress',
+  'menu.teacherView': 'Teacher view',
+  'menu.testSettings': 'Test settings',
+  'menu.accessibility': 'Accessibility',
+  'menu.accommodations': 'Accommodations',
+
+  // --- History files ---
+  'transfer.import': 'Import',
+  'transfer.imported': { one: '{count} session imported.', other: '{count} sessions imported.' },
+  'transfer.skipped': { one: '{count} was already there.', other: '{count} were already there.' },
+  'transfer.unreadable': 'The file could not be read.',
+  'transfer.invalid-json': 'The file is not a valid JSON file.',
+  'transfer.wrong-format': 'The file is not an export from Plönninge times tables.',
+  'transfer.newer-version': 'The file comes from a newer version of the app. Update the app and try again.',
+  'transfer.broken-entries': 'The file contains broken results.',
+
+  // --- Setup ---
+  'setup.titleTest': 'Which tables do you want to test?',
+  'setup.titlePractice': 'Which tables do you want to practise?',
+  'setup.chooseTables': 'Choose one or more tables between 1 and {max}.',
+  'setup.dueFacts': { one: '{count} fact is ready for review.', other: '{count} facts are ready for review.' },
+  'setup.tablesUpTo': 'Tables up to',
+  'setup.selectAll': 'Select all',
+  'setup.deselectAll': 'Deselect all',
+  'setup.changeColor': 'Change colour',
+  'setup.questionKinds': 'Question types',
+  'setup.preset': 'Test setting',
+  'setup.factorRange': 'factors {min}–{max}',
+  'setup.secondsPerQuestion': '{seconds} s per question',
+  'setup.untimed': 'no time limit',
+  'setup.sharedTest': 'Shared test with a test code',
+  'setup.testCodePlaceholder': 'Test code from your teacher',
+  'setup.start': 'Start',
+  'setup.testCodeInvalid': 'The test code was not recognised.',
+  'setup.testCodeHelp': 'Everyone who enters the same code gets the same questions in the same order, with the same time and pass marks.',
+  'setup.createCode': 'Create code',
+  'setup.worksheet': 'Worksheet',
+  'setup.wordProblems': 'Word problems',
+  'setup.startTest': 'Start the test',
+  'setup.startPractice': 'Start practising',
+
+  // --- Playing ---
+  'playing.questionOf': 'Question {current} of {total}',
+  'playing.testMode': 'Test mode',
+  'playing.pause': 'Pause',
+  'playing.paused': 'Paused',
+  'playing.pausedTest': 'The clock has stopped. The pause is saved in your history.',
+  'playing.pausedPractice': 'Take a break and continue when you are ready.',
+  'playing.correct': 'CORRECT!',
+  'playing.wrong': 'WRONG!',
+  'playing.timeout': 'TIME’S UP!',
+  'playing.answerIs': 'The answer is {answer}',
+  'playing.correctAnswer': 'Correct answer: {answer}',
+  'playing.seconds': '{seconds} s',
+  'playing.answer': 'Answer',
+  'playing.clear': 'Clear',
+  'playing.submitHint': 'Type your answer and press OK or Enter.',
+  'playing.hint': 'Hint',
+  'playing.moreHelp': 'More help',
+  'hint.title': 'Hint {step} of {total}',
+  'hint.array.multiply': '{a} rows with {b} dots in each. How many dots are there?',
+  'hint.array.reverse': '{product} dots in {a} rows. How many are in each row?',
+  'hint.numberLine.multiply': 'Make {b} jumps of {a}.',
+  'hint.numberLine.reverse': 'Jump {a} at a time up to {product}. How many jumps was that?',
+  'hint.decomposition.multiply': 'Split {b} into {first} and {second}, then add the answers.',
+  'hint.decomposition.reverse': 'Split {product} into {first} and {second}. Divide both by {a} and add.',
+
+  // --- Results ---
+  'results.passed': 'YOU PASSED!',
+  'results.upload.sent': 'Your result has been sent to your teacher! 🌟',
+  'results.upload.sending': 'Sending your result to your teacher...',
+  'results.upload.queued': 'Your result is saved and will be sent to your teacher when the network is back.',
+  'results.upload.failed': 'Your result could not be sent. Show this to your teacher! 🌟',
+  'results.upload.idle': 'Show this to your teacher now! 🌟',
+  'results.wellFought': 'Good effort!',
+  'results.needsMorePractice': 'You need a little more practice to get all the way.',
+  'results.paused': {
+    one: 'The test was paused {count} time ({seconds} s in total).',
+    other: 'The test was paused {count} times ({seconds} s in total).'
+  },
+  'results.testCode': 'Test code',
+  'results.yourResult': 'Your result',
+  'results.yourSpeed': 'Your speed',
+  'results.passLimit': 'Pass mark',
+  'results.correctCount': 'Correct answers',
+  'results.speedPoints': 'Speed points',
+  'results.perKind': 'Correct per question type',
+  'results.difficultyCurve': 'Difficulty curve',
+  'results.difficultyDescription': 'The line shows the level each question was chosen at. Quick right answers raise it, mistakes and slow answers lower it.',
+  'results.levelChange': 'From level {start} to {end}',
+  'results.level': 'Level',
+  'results.questionDifficulty': 'Question difficulty',
+  'results.correctQuestion': 'Right answer',
+  'results.wrongQuestion': 'Wrong answer',
+  'results.needsPracticeTitle': 'Tables you need to practise more:',
+  'results.table': '{table} times table',
+  'results.wrongTitle': 'Questions you got wrong:',
+  'results.questionNumber': 'Question {number}',
+  'results.yourAnswer': 'Your answer: {answer}',
+  'results.noAnswer': 'None',
+  'results.retryMistakes': 'Practise the mistakes',
+  'results.retryProgress': { one: 'You got {mastered} of {count} fact right twice in a row.', other: 'You got {mastered} of {count} facts right twice in a row.' },
+  'results.hintsTitle': 'Questions where you used hints:',
+  'results.hintSteps': { one: '{count} hint', other: '{count} hints' },
+  'results.saveAsFile': 'Save all results as a file',
+  'feedback.title': 'Tips for next time',
+  'feedback.loading': 'Thinking of tips...',
+  'feedback.byAi': 'Written by AI',
+
+  // --- Accessibility ---
+  'a11y.title': 'Accessibility',
+  'a11y.subtitle': 'The settings are saved for {name}.',
+  'a11y.motion': 'Motion and animations',
+  'a11y.motion.system': 'Same as the device',
+  'a11y.motion.reduce': 'Less motion',
+  'a11y.motion.full': 'All animations',
+  'a11y.highContrast': 'High contrast',
+  'a11y.highContrastDescription': 'Darker text and clearer edges.',
+  'a11y.palette': 'Table colours',
+  'a11y.palette.standard': 'My own colours',
+  'a11y.palette.colorblind': 'Colour-blind friendly',
+  'a11y.palette.high-contrast': 'High contrast',
+  'a11y.readAloud': 'Read questions aloud',
+  'a11y.readAloudDescription': 'Each question is read out when it appears.',
+  'a11y.readAloudUnavailable': 'This browser cannot read text aloud.',
+  'a11y.tryIt': 'Try it',
+  'a11y.sound': 'Sound',
+  'a11y.mute': 'Turn sound off',
+  'a11y.muteDescription': 'No sounds at all, for example in a quiet classroom.',
+  'a11y.volume': 'Volume',
+  'a11y.soundTheme': 'Sound theme',
+  'a11y.soundTheme.classic': 'Classic',
+  'a11y.soundTheme.soft': 'Soft',
+  'a11y.soundTheme.arcade': 'Arcade',
+  'a11y.soundTheme.bells': 'Bells',
+  'a11y.spokenFeedback': 'Say whether the answer was right',
+  'a11y.spokenFeedbackDescription': 'After each question you hear “Right!” or the right answer.',
+  'a11y.keyboard': 'On a keyboard, Tab moves between buttons, Enter answers and Esc pauses.',
+  'a11y.questionAnnouncement': 'Question {current} of {total}: {question}',
+  'speech.multiply': '{a} times {b}',
+  'speech.divide': '{product} divided by {a}',
+  'speech.missing-factor': '{a} times what makes {product}',
+  'speech.correct': 'Right!',
+
+  // --- Achievements ---
+  'achievement.first-session': 'First session',
+  'achievement.first-session.description': 'Finish your first practice or test.',
+  'achievement.first-pass': 'Passed!',
+  'achievement.first-pass.description': 'Pass a test for the first time.',
+  'achievement.perfect-test': 'Perfect score',
+  'achievement.perfect-test.description': 'Answer every question in a test correctly.',
+  'achievement.lightning': 'Lightning fast',
+  'achievement.lightning.description': 'Answer every question right in under {seconds} seconds, in a round of at least {count} questions.',
+  'achievement.streak-3': '3 days in a row',
+  'achievement.streak-3.description': 'Practise three days in a row.',
+  'achievement.streak-7': '7 days in a row',
+  'achievement.streak-7.description': 'Practise seven days in a row.',
+  'achievement.pass-table': 'Passed the {table} times table',
+  'achievement.pass-table.description': 'Pass a test that includes the {table} times table.',
+  'achievement.master-table': '{table} times table master',
+  'achievement.master-table.description': 'Know the whole {table} times table quickly and surely, again and again.',
+  'menu.badges': 'Badges',
+  'menu.badgesCount': '{unlocked} of {total}',
+  'menu.streak': { one: '{count} day in a row', other: '{count} days in a row' },
+  'menu.badgeLocked': 'Not unlocked yet',
+  'menu.badgeUnlocked': 'Unlocked {date}',
+  'results.newBadges': { one: 'New badge!', other: '{count} new badges!' },
+
+  // --- Class competition ---
+  'menu.competition': 'Class competition',
+  'menu.competitionDescription': 'Compete with your class using the code on the teacher’s screen.',
+  'menu.hostCompetition': 'Host a class competition',
+  'competition.title': 'Class competition',
+  'competition.joinDescription': 'Type the code shown on your teacher’s screen.',
+  'competition.code': 'Code',
+  'competition.name': 'Your name',
+  'competition.join': 'Join',
+  'competition.connecting': 'Connecting …',
+  'competition.serverDown': 'Could not reach the competition. Are you on the school network?',
+  'competition.waiting': 'You’re in, {name}! Wait for your teacher to start.',
+  'competition.players': { one: '{count} student has joined', other: '{count} students have joined' },
+  'competition.getReady': 'Get ready!',
+  'competition.send': 'Send answer',
+  'competition.answerSent': 'Answer sent. Waiting for the others …',
+  'competition.correct': 'Correct! +{points} points',
+  'competition.wrong': 'Not quite this time.',
+  'competition.noAnswer': 'No answer this time.',
+  'competition.rightAnswer': 'The answer:',
+  'competition.leaderboard': 'Leaderboard',
+  'competition.yourPlace': 'You are in place {rank} of {count}',
+  'competition.waitNext': 'Your teacher will start the next question soon.',
+  'competition.finished': 'The competition is over!',
+  'competition.closed': 'Your teacher has ended the competition.',
+  'competition.lost': 'The connection to the competition was lost.',
+  'competition.reconnect': 'Reconnect',
+  'competition.error.unknown-code': 'There is no competition with that code.',
+  'competition.error.name-taken': 'Someone in the competition already has that name. Add a letter.',
+  'competition.error.room-full': 'The competition is full.',
+  'competition.error.finished': 'That competition has already ended.',
+  'competition.error.malformed': 'Type your name.',
+
+  // --- Table map ---
+  'mastery.description': 'Share of right answers and median time for every fact across all your sessions.',
+  'mastery.from': 'From',
+  'mastery.to': 'To',
+  'mastery.clearFilters': 'Clear filters',
+  'mastery.noAnswers': 'No answers saved for this selection yet.',
+  'mastery.cell': '{fact}: {correct}/{attempts} right, median time {seconds} s',
+  'mastery.cellEmpty': '{fact}: no answers',
+  'mastery.legendWrong': '0 % right',
+  'mastery.legendRight': '100 % right',
+  'mastery.legendSlow': 'Lighter square = slow answer',
+  'mastery.trouble': 'Tricky facts',
+
+  // --- Word problems ---
+  'wordProblems.description': 'Read the problem, work out the answer and type it in the box.',
+  'wordProblems.loading': 'Writing problems...',
+  'wordProblems.answerLabel': 'Answer to problem {number}',
+  'wordProblems.correct': 'Right!',
+  'wordProblems.byAi': 'These problems were written by AI',
+  'wordProblems.check': 'Check',
+  'wordProblems.score': '{correct} of {total} right',
+  'wordProblems.newProblems': 'New problems',
+
+  // --- Progress ---
+  'progress.title': 'My progress',
+  'progress.description': 'How your tests and tables have gone over time.',
+  'progress.preset': 'Test:',
+  'progress.testCount': { one: '{count} test', other: '{count} tests' },
+  'progress.passedCount': { one: '{count} passed', other: '{count} passed' },
+  'progress.passMark': 'Pass: {mark}',
+  'progress.noTests': 'Take a test and you will see how it goes here.',
+  'progress.perTable': 'Correct per table, week by week',
+  'progress.noAnswers': 'No answers saved yet.',
+  'progress.week': 'Week of {date}'
+};
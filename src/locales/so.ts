@@ -0,0 +1,311 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Catalog } from './sv.ts';
+
+export const so: Catalog = {
+  // --- Shared ---
+  'app.title': 'Jadwalka isku-dhufashada Plönninge',
+  'common.cancel': 'Jooji',
+  'common.continue': 'Sii wad',
+  'common.backToMenu': 'Ku noqo liiska',
+  'common.back': 'Dib u noqo',
+  'common.passed': 'WAA GUULEYSATAY',
+  'common.points': '{count} dhibcood',
+  'common.questions': { one: '{count} su’aal', other: '{count} su’aalood' },
+  'common.accommodated': 'La habeeyay',
+  'common.flagged': 'Waa in dib loo eegaa',
+  'common.retryOf': 'kadib {type} oo {score}/{total} sax ah',
+  'integrity.guessing': 'Isku dayo badan oo la tirtiray',
+  'integrity.too-fast': 'Jawaabo aad u degdeg badan',
+  'integrity.tab-switches': 'Ka baxay imtixaanka intuu socday',
+  'playType.PRACTICE': 'Layli',
+  'playType.TEST': 'Imtixaan',
+  'playType.SMART': 'Layli caqli leh',
+  'playType.RETRY': 'Ku celcelin khaladaadka',
+  'playType.ADAPTIVE': 'Layli la qabsanaya',
+  'playType.ALL': 'Dhammaan',
+  'kind.multiply': 'Isku-dhufasho (7 × 8 = ?)',
+  'kind.divide': 'Qaybin (56 ÷ 7 = ?)',
+  'kind.missing-factor': 'Lambar maqan (7 × ? = 56)',
+
+  // --- Navigation ---
+  'nav.subtitle': 'Isku-dhufasho',
+  'nav.sessionInProgress': 'Casharku wuu socdaa',
+  'nav.switchStudent': 'Beddel ardayga',
+  'nav.language': 'Luqadda',
+  'nav.mute': 'Dami codka',
+  'nav.unmute': 'Shid codka',
+  'footer.copyright': '© 2026 Dugsiga Plönninge - Xisaabtu waa xiiso!',
+  'footer.audience': 'Loogu talagalay fasallada 4–6',
+  'footer.version': 'Nooca {version}',
+  'sync.allSent': 'Dhammaan waa la diray',
+  'sync.sending': 'Waa la dirayaa...',
+  'sync.offline': 'Khadka kama jiro',
+  'sync.waiting': { one: '{count} natiijo ayaa sugaysa', other: '{count} natiijo ayaa sugaya' },
+  'sync.retry': 'Isku day inaad hadda dirto',
+
+  // --- Menu ---
+  'menu.subtitle': 'Dooro qaab si aad u bilowdo layliga!',
+  'menu.whoIsPlaying': 'Yaa ciyaaraya?',
+  'menu.removeStudent': 'Tirtir ardayga',
+  'menu.confirmRemoveStudent': 'Ma rabtaa inaad tirtirto {name} iyo dhammaan taariikhdiisa?',
+  'menu.newStudentPlaceholder': 'Magaca arday cusub',
+  'menu.addStudent': 'Ku dar',
+  'menu.classCode': 'Koodhka fasalka ee {name}:',
+  'menu.classCodePlaceholder': 'Ikhtiyaari',
+  'menu.unfinishedTitle': 'Waxaad leedahay cashar aan dhammaan',
+  'menu.unfinishedProgress': { one: '{type} – {answered} ka mid ah {count} su’aal ayaa la jawaabay', other: '{type} – {answered} ka mid ah {count} su’aalood ayaa la jawaabay' },
+  'menu.discardSession': 'Jooji casharka',
+  'menu.confirmDiscardSession': 'Ma rabtaa inaad joojiso casharka aadan dhammeyn?',
+  'menu.practice': 'Layli',
+  'menu.practiceDescription': 'Dooro jadwallo gaar ah oo hel jawaab celin degdeg ah.',
+  'menu.test': 'Imtixaan',
+  'menu.testDescription': { one: '{count} su’aal oo waqti leh. Ma guuleysan kartaa?', other: '{count} su’aalood oo waqti leh. Ma guuleysan kartaa?' },
+  'menu.smart': 'Layli caqli leh',
+  'menu.smartDescription': 'Wuxuu diiradda saaraa waxa aad inta badan ku khaldanto.',
+  'menu.adaptive': 'Layli la qabsanaya',
+  'menu.adaptiveDescription': 'Way adkaanaysaa marka ay si fiican kuu socoto, wayna fududaanaysaa marka ay adag tahay.',
+  'menu.recentResults': 'Natiijooyinkii ugu dambeeyay',
+  'menu.noResults': 'Weli natiijo ma jirto. Haddii aad qalab kale ku layliday, halkan ka soo geli natiijooyinkaaga.',
+  'menu.pauses': { one: '{count} hakad', other: '{count} hakad' },
+  'menu.clearHistory': 'Tirtir taariikhda',
+  'menu.masteryMap': 'Khariidadda jadwallada',
+  'menu.progress': 'Horumarkayga',
+  'menu.teacherView': 'Bogga macallinka',
+  'menu.testSettings': 'Dejinta imtixaanka',
+  'menu.accessibility': 'Helitaanka',
+  'menu.accommodations': 'Habaynta',
+
+  // --- History files ---
+  'transfer.import': 'Soo geli',
+  'transfer.imported': { one: '{count} cashar ayaa la soo geliyay.', other: '{count} cashar ayaa la soo geliyay.' },
+  'transfer.skipped': { one: '{count} hore ayuu u jiray.', other: '{count} hore ayay u jireen.' },
+  'transfer.unreadable': 'Faylka lama akhriyi karo.',
+  'transfer.invalid-json': 'Faylku maaha fayl JSON sax ah.',
+  'transfer.wrong-format': 'Faylku kama yimaadin Jadwalka isku-dhufashada Plönninge.',
+  'transfer.newer-version': 'Faylku wuxuu ka yimid nooc cusub oo barnaamijka ah. Cusboonaysii barnaamijka oo isku day mar kale.',
+  'transfer.broken-entries': 'Faylku wuxuu leeyahay natiijooyin jaban.',
+
+  // --- Setup ---
+  'setup.titleTest': 'Jadwallee ayaad rabtaa in lagu imtixaamo?',
+  'setup.titlePractice': 'Jadwallee ayaad rabtaa inaad ku layli?',
+  'setup.chooseTables': 'Dooro hal jadwal ama dhowr u dhexeeya 1 iyo {max}.',
+  'setup.dueFacts': { one: '{count} su’aal ayaa diyaar u ah dib u eegis.', other: '{count} su’aalood ayaa diyaar u ah dib u eegis.' },
+  'setup.tablesUpTo': 'Jadwallada ilaa',
+  'setup.selectAll': 'Dooro dhammaan',
+  'setup.deselectAll': 'Ka saar dhammaan',
+  'setup.changeColor': 'Beddel midabka',
+  'setup.questionKinds': 'Nooca su’aalaha',
+  'setup.preset': 'Dejinta imtixaanka',
+  'setup.factorRange': 'lambarada {min}–{max}',
+  'setup.secondsPerQuestion': '{seconds} ilbiriqsi su’aal kasta',
+  'setup.untimed': 'waqti xaddidan ma leh',
+  'setup.sharedTest': 'Imtixaan wadaag ah oo leh koodh',
+  'setup.testCodePlaceholder': 'Koodhka imtixaanka ee macallinka',
+  'setup.start': 'Bilow',
+  'setup.testCodeInvalid': 'Koodhka imtixaanka lama garanayo.',
+  'setup.testCodeHelp': 'Qof kasta oo gala koodh isku mid ah wuxuu helayaa su’aalo isku mid ah oo isku si u kala horreeya, isla waqti iyo isla xadka lagu gudbo.',
+  'setup.createCode': 'Samee koodh',
+  'setup.worksheet': 'Warqad shaqo',
+  'setup.wordProblems': 'Su’aalo qoraal ah',
+  'setup.startTest': 'Bilow imtixaanka',
+  'setup.startPractice': 'Bilow layliga',
+
+  // --- Playing ---
+  'playing.questionOf': 'Su’aasha {current} ee {total}',
+  'playing.testMode': 'Qaabka imtixaanka',
+  'playing.pause': 'Hakad',
+  'playing.paused': 'Waa la hakiyay',
+  'playing.pausedTest': 'Waqtigu wuu istaagay. Hakadka waxaa lagu kaydiyaa taariikhda.',
+  'playing.pausedPractice': 'Naso oo sii wad markaad diyaar tahay.',
+  'playing.correct': 'SAX!',
+  'playing.wrong': 'KHALAD!',
+  'playing.timeout': 'WAQTIGII WAA DHAMMAADAY!',
+  'playing.answerIs': 'Jawaabtu waa {answer}',
+  'playing.correctAnswer': 'Jawaabta saxda ah: {answer}',
+  'playing.seconds': '{seconds} s',
+  'playing.answer': 'Jawaab',
+  'playing.clear': 'Tirtir',
+  'playing.submitHint': 'Qor jawaabtaada kadibna riix OK ama Enter.',
+  'playing.hint': 'Tilmaan',
+  'playing.moreHelp': 'Caawimaad dheeraad ah',
+  'hint.title': 'Tilmaan {step} ee {total}',
+  'hint.array.multiply': '{a} saf oo mid kastaa leeyahay {b} dhibcood. Immisa dhibcood ayaa jira?',
+  'hint.array.reverse': '{product} dhibcood oo ku jira {a} saf. Immisa ayaa ku jira saf kasta?',
+  'hint.numberLine.multiply': 'Samee {b} bood, mid kastaa waa {a}.',
+  'hint.numberLine.reverse': 'Ku bood {a} mar kasta ilaa {product}. Immisa bood ayay noqotay?',
+  'hint.decomposition.multiply': 'U kala qaybi {b} {first} iyo {second}, kadibna isku dar jawaabaha.',
+  'hint.decomposition.reverse': 'U kala qaybi {product} {first} iyo {second}. Labadaba u qaybi {a} oo isku dar.',
+
+  // --- Results ---
+  'results.passed': 'WAAD GUULEYSATAY!',
+  'results.upload.sent': 'Natiijadaada waxaa loo diray macallinkaaga! 🌟',
+  'results.upload.sending': 'Natiijadaada waxaa loo dirayaa macallinkaaga...',
+  'results.upload.queued': 'Natiijadaada waa la kaydiyay, waxaana loo diri doonaa macallinkaaga marka shabakaddu soo laabato.',
+  'results.upload.failed': 'Natiijadaada lama diri karin. Tus macallinkaaga! 🌟',
+  'results.upload.idle': 'Hadda tus macallinkaaga! 🌟',
+  'results.wellFought': 'Dadaal fiican!',
+  'results.needsMorePractice': 'Waxaad u baahan tahay layli yar oo dheeraad ah si aad u gaarto dhammaadka.',
+  'results.paused': {
+    one: 'Imtixaanka waxaa la hakiyay {count} mar ({seconds} s wadar ahaan).',
+    other: 'Imtixaanka waxaa la hakiyay {count} jeer ({seconds} s wadar ahaan).'
+  },
+  'results.testCode': 'Koodhka imtixaanka',
+  'results.yourResult': 'Natiijadaada',
+  'results.yourSpeed': 'Xawaarahaaga',
+  'results.passLimit': 'Xadka guusha',
+  'results.correctCount': 'Jawaabaha saxda ah',
+  'results.speedPoints': 'Dhibcaha xawaaraha',
+  'results.perKind': 'Jawaabaha saxda ah nooc kasta',
+  'results.difficultyCurve': 'Qalooca adkaanta',
+  'results.difficultyDescription': 'Xariiqdu waxay muujinaysaa heerka su’aal kasta lagu doortay. Jawaabaha saxda ah ee degdegga ah ayaa kor u qaada, khaladaadka iyo jawaabaha gaabiska ah ayaa hoos u dhiga.',
+  'results.levelChange': 'Laga bilaabo heerka {start} ilaa {end}',
+  'results.level': 'Heerka',
+  'results.questionDifficulty': 'Adkaanta su’aasha',
+  'results.correctQuestion': 'Jawaab sax ah',
+  'results.wrongQuestion': 'Jawaab khaldan',
+  'results.needsPracticeTitle': 'Jadwallada aad u baahan tahay inaad ku sii layli:',
+  'results.table': 'Jadwalka {table}',
+  'results.wrongTitle': 'Su’aalaha aad ku khaladay:',
+  'results.questionNumber': 'Su’aasha {number}',
+  'results.yourAnswer': 'Jawaabtaada: {answer}',
+  'results.noAnswer': 'Midna',
+  'results.retryMistakes': 'Ku celceli khaladaadka',
+  'results.retryProgress': { one: 'Waxaad laba jeer oo xiriir ah saxday {mastered} ka mid ah {count} su’aal.', other: 'Waxaad laba jeer oo xiriir ah saxday {mastered} ka mid ah {count} su’aalood.' },
+  'results.hintsTitle': 'Su’aalaha aad tilmaamaha ka caawimaad ka heshay:',
+  'results.hintSteps': { one: '{count} tilmaan', other: '{count} tilmaamood' },
+  'results.saveAsFile': 'Ku kaydi dhammaan natiijooyinka fayl',
+  'feedback.title': 'Talooyin mar kale',
+  'feedback.loading': 'Talooyin ayaa la raadinayaa...',
+  'feedback.byAi': 'Waxaa qoray AI',
+
+  // --- Accessibility ---
+  'a11y.title': 'Helitaanka',
+  'a11y.subtitle': 'Dejintan waxaa loo kaydiyaa {name}.',
+  'a11y.motion': 'Dhaqdhaqaaqa iyo animation-ka',
+  'a11y.motion.system': 'Sida qalabka',
+  'a11y.motion.reduce': 'Dhaqdhaqaaq yar',
+  'a11y.motion.full': 'Dhammaan animation-ka',
+  'a11y.highContrast': 'Kala-duwanaansho sare',
+  'a11y.highContrastDescription': 'Qoraal madow iyo geeso cad.',
+  'a11y.palette': 'Midabada jadwallada',
+  'a11y.palette.standard': 'Midabadayda',
+  'a11y.palette.colorblind': 'Ku habboon indho-midab la’aanta',
+  'a11y.palette.high-contrast': 'Kala-duwanaansho sare',
+  'a11y.readAloud': 'Kor u akhri su’aalaha',
+  'a11y.readAloudDescription': 'Su’aal kasta waa la akhriyaa marka ay soo baxdo.',
+  'a11y.readAloudUnavailable': 'Biraawsarkan ma akhriyi karo qoraalka.',
+  'a11y.tryIt': 'Isku day',
+  'a11y.sound': 'Codka',
+  'a11y.mute': 'Dami codka',
+  'a11y.muteDescription': 'Cod la’aan gebi ahaanba, tusaale ahaan fasal aamusan.',
+  'a11y.volume': 'Heerka codka',
+  'a11y.soundTheme': 'Nooca codadka',
+  'a11y.soundTheme.classic': 'Caadi',
+  'a11y.soundTheme.soft': 'Jilicsan',
+  'a11y.soundTheme.arcade': 'Ciyaar',
+  'a11y.soundTheme.bells': 'Gambaleelo',
+  'a11y.spokenFeedback': 'Sheeg haddii jawaabtu sax ahayd',
+  'a11y.spokenFeedbackDescription': 'Su’aal kasta kadib waxaad maqlaysaa “Sax!” ama jawaabta saxda ah.',
+  'a11y.keyboard': 'Kiiboodhka: Tab wuxuu u dhexeeyaa badhamada, Enter wuu jawaabaa, Esc-na wuu hakiyaa.',
+  'a11y.questionAnnouncement': 'Su’aasha {current} ee {total}: {question}',
+  'speech.multiply': '{a} jeer {b}',
+  'speech.divide': '{product} loo qaybiyay {a}',
+  'speech.missing-factor': '{a} jeer maxay noqotaa {product}',
+  'speech.correct': 'Sax!',
+
+  // --- Achievements ---
+  'achievement.first-session': 'Fadhiga koowaad',
+  'achievement.first-session.description': 'Dhammee layligaaga ama imtixaankaaga ugu horreeya.',
+  'achievement.first-pass': 'Waad gudubtay!',
+  'achievement.first-pass.description': 'Ku guulayso imtixaan markii ugu horreysay.',
+  'achievement.perfect-test': 'Dhibco buuxa',
+  'achievement.perfect-test.description': 'Si sax ah uga jawaab su’aal kasta oo imtixaan ah.',
+  'achievement.lightning': 'Degdeg sida hillaac',
+  'achievement.lightning.description': 'Si sax ah uga jawaab su’aal kasta wax ka yar {seconds} ilbiriqsi, wareeg leh ugu yaraan {count} su’aalood.',
+  'achievement.streak-3': '3 maalmood oo xiriir ah',
+  'achievement.streak-3.description': 'Ku tababar saddex maalmood oo xiriir ah.',
+  'achievement.streak-7': '7 maalmood oo xiriir ah',
+  'achievement.streak-7.description': 'Ku tababar toddoba maalmood oo xiriir ah.',
+  'achievement.pass-table': 'Ku gudbay jadwalka {table}',
+  'achievement.pass-table.description': 'Ku gudub imtixaan ay ku jirto jadwalka {table}.',
+  'achievement.master-table': 'Xeeldheeraha jadwalka {table}',
+  'achievement.master-table.description': 'Si degdeg ah oo hubaal ah u ogow jadwalka {table} oo dhan, marar badan.',
+  'menu.badges': 'Calaamadaha',
+  'menu.badgesCount': '{unlocked} ee {total}',
+  'menu.streak': { one: '{count} maalin oo xiriir ah', other: '{count} maalmood oo xiriir ah' },
+  'menu.badgeLocked': 'Weli lama furin',
+  'menu.badgeUnlocked': 'La furay {date}',
+  'results.newBadges': { one: 'Calaamad cusub!', other: '{count} calaamadood oo cusub!' },
+
+  // --- Class competition ---
+  'menu.competition': 'Tartanka fasalka',
+  'menu.competitionDescription': 'La tartan fasalka adigoo isticmaalaya koodhka shaashadda macallinka.',
+  'menu.hostCompetition': 'Bilow tartanka fasalka',
+  'competition.title': 'Tartanka fasalka',
+  'competition.joinDescription': 'Qor koodhka ka muuqda shaashadda macallinka.',
+  'competition.code': 'Koodh',
+  'competition.name': 'Magacaaga',
+  'competition.join': 'Ku biir',
+  'competition.connecting': 'Waa la xiriirayaa …',
+  'competition.serverDown': 'Tartanka lama gaari karo. Ma ku xiran tahay shabakadda dugsiga?',
+  'competition.waiting': 'Waad ku jirtaa, {name}! Sug inta macallinku bilaabayo.',
+  'competition.players': { one: '{count} arday ayaa ku jira', other: '{count} arday ayaa ku jira' },
+  'competition.getReady': 'Diyaar garow!',
+  'competition.send': 'Dir jawaabta',
+  'competition.answerSent': 'Jawaabta waa la diray. Sug kuwa kale …',
+  'competition.correct': 'Sax! +{points} dhibcood',
+  'competition.wrong': 'Markan ma saxna.',
+  'competition.noAnswer': 'Markan jawaab ma jirto.',
+  'competition.rightAnswer': 'Jawaabta saxda ah:',
+  'competition.leaderboard': 'Liiska hoggaamiyeyaasha',
+  'competition.yourPlace': 'Waxaad ku jirtaa kaalinta {rank} ee {count}',
+  'competition.waitNext': 'Macallinku dhowaan ayuu bilaabi doonaa su’aasha xigta.',
+  'competition.finished': 'Tartanku waa dhammaaday!',
+  'competition.closed': 'Macallinku wuu joojiyay tartanka.',
+  'competition.lost': 'Xiriirka tartanka waa go’ay.',
+  'competition.reconnect': 'Dib u xiriir',
+  'competition.error.unknown-code': 'Ma jiro tartan koodhkaas leh.',
+  'competition.error.name-taken': 'Qof tartanka ku jira ayaa magacaas leh. Ku dar xaraf.',
+  'competition.error.room-full': 'Tartanku waa buuxaa.',
+  'competition.error.finished': 'Tartankaas horey ayuu u dhammaaday.',
+  'competition.error.malformed': 'Qor magacaaga.',
+
+  // --- Table map ---
+  'mastery.description': 'Inta jawaabaha saxda ah iyo waqtiga dhexe ee su’aal kasta oo ku jirta dhammaan fadhiyadaada.',
+  'mastery.from': 'Laga bilaabo',
+  'mastery.to': 'Ilaa',
+  'mastery.clearFilters': 'Tirtir shaandhada',
+  'mastery.noAnswers': 'Weli jawaabo looma kaydin doorashadan.',
+  'mastery.cell': '{fact}: {correct}/{attempts} sax, waqtiga dhexe {seconds} s',
+  'mastery.cellEmpty': '{fact}: jawaab ma jirto',
+  'mastery.legendWrong': '0 % sax',
+  'mastery.legendRight': '100 % sax',
+  'mastery.legendSlow': 'Sanduuq khafiif ah = jawaab gaabis ah',
+  'mastery.trouble': 'Su’aalo adag',
+
+  // --- Word problems ---
+  'wordProblems.description': 'Akhri su’aasha, xisaabi jawaabta oo ku qor sanduuqa.',
+  'wordProblems.loading': 'Su’aalaha ayaa la qorayaa...',
+  'wordProblems.answerLabel': 'Jawaabta su’aasha {number}',
+  'wordProblems.correct': 'Sax!',
+  'wordProblems.byAi': 'Su’aalahan waxaa qoray AI',
+  'wordProblems.check': 'Sax',
+  'wordProblems.score': '{correct} ka mid ah {total} sax',
+  'wordProblems.newProblems': 'Su’aalo cusub',
+
+  // --- Progress ---
+  'progress.title': 'Horumarkayga',
+  'progress.description': 'Sida imtixaannadaada iyo jadwalladaadu u socdeen waqti ka dib.',
+  'progress.preset': 'Imtixaan:',
+  'progress.testCount': { one: '{count} imtixaan', other: '{count} imtixaan' },
+  'progress.passedCount': { one: '{count} lagu gudbay', other: '{count} lagu gudbay' },
+  'progress.passMark': 'Gudub: {mark}',
+  'progress.noTests': 'Gal imtixaan, halkan ayaad ka arki doontaa sida ay kuu socoto.',
+  'progress.perTable': 'Saxda jadwal kasta, toddobaad ka toddobaad',
+  'progress.noAnswers': 'Weli jawaabo lama kaydin.',
+  'progress.week': 'Toddobaadka {date}'
+};
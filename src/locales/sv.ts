@@ -0,0 +1,317 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Plural forms are picked with Intl.PluralRules; `other` is always required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+// Swedish is the source catalog: every other locale must have the same keys.
+export const sv = {
+  // --- Shared ---
+  'app.title': 'Plönninge multiplikationskoll',
+  'common.cancel': 'Avbryt',
+  'common.continue': 'Fortsätt',
+  'common.backToMenu': 'Tillbaka till menyn',
+  'common.back': 'Tillbaka',
+  'common.passed': 'GODKÄND',
+  'common.points': '{count}p',
+  'common.questions': { one: '{count} fråga', other: '{count} frågor' },
+  'common.accommodated': 'Anpassat',
+  'common.flagged': 'Att granska',
+  'common.retryOf': 'efter {type} med {score}/{total} rätt',
+  'integrity.guessing': 'Många raderade försök',
+  'integrity.too-fast': 'Orimligt snabba svar',
+  'integrity.tab-switches': 'Lämnade testet under tiden',
+  'playType.PRACTICE': 'Övning',
+  'playType.TEST': 'Test',
+  'playType.SMART': 'Smart övning',
+  'playType.RETRY': 'Öva på felen',
+  'playType.ADAPTIVE': 'Anpassad övning',
+  'playType.ALL': 'Alla',
+  'kind.multiply': 'Multiplikation (7 × 8 = ?)',
+  'kind.divide': 'Division (56 ÷ 7 = ?)',
+  'kind.missing-factor': 'Saknad faktor (7 × ? = 56)',
+
+  // --- Navigation ---
+  'nav.subtitle': 'Multiplikation',
+  'nav.sessionInProgress': 'Session pågår',
+  'nav.switchStudent': 'Byt elev',
+  'nav.language': 'Språk',
+  'nav.mute': 'Stäng av ljudet',
+  'nav.unmute': 'Slå på ljudet',
+  'footer.copyright': '© 2026 Plönningeskolan - Matematik är kul!',
+  'footer.audience': 'Utvecklad för mellanstadiet',
+  'footer.version': 'Version {version}',
+  'sync.allSent': 'Allt skickat',
+  'sync.sending': 'Skickar...',
+  'sync.offline': 'Offline',
+  'sync.waiting': '{count} resultat väntar',
+  'sync.retry': 'Försök skicka nu',
+
+  // --- Menu ---
+  'menu.subtitle': 'Välj ett läge för att börja träna!',
+  'menu.whoIsPlaying': 'Vem spelar?',
+  'menu.removeStudent': 'Ta bort elev',
+  'menu.confirmRemoveStudent': 'Vill du ta bort {name} och all historik?',
+  'menu.newStudentPlaceholder': 'Namn på ny elev',
+  'menu.addStudent': 'Lägg till',
+  'menu.classCode': 'Klasskod för {name}:',
+  'menu.classCodePlaceholder': 'Frivillig',
+  'menu.unfinishedTitle': 'Du har ett pass som inte är klart',
+  'menu.unfinishedProgress': { one: '{type} – {answered} av {count} fråga besvarad', other: '{type} – {answered} av {count} frågor besvarade' },
+  'menu.discardSession': 'Avbryt passet',
+  'menu.confirmDiscardSession': 'Vill du avbryta passet du inte har gjort klart?',
+  'menu.practice': 'Öva',
+  'menu.practiceDescription': 'Välj specifika tabeller och få direkt feedback.',
+  'menu.test': 'Test',
+  'menu.testDescription': { one: '{count} fråga på tid. Kan du bli godkänd?', other: '{count} frågor på tid. Kan du bli godkänd?' },
+  'menu.smart': 'Smart övning',
+  'menu.smartDescription': 'Tränar mest på det du brukar svara fel på.',
+  'menu.adaptive': 'Anpassad övning',
+  'menu.adaptiveDescription': 'Blir svårare när det går bra och lättare när det går trögt.',
+  'menu.recentResults': 'Senaste resultat',
+  'menu.noResults': 'Inga resultat ännu. Har du övat på en annan enhet kan du importera resultaten här.',
+  'menu.pauses': { one: '{count} paus', other: '{count} pauser' },
+  'menu.clearHistory': 'Rensa historik',
+  'menu.masteryMap': 'Tabellkarta',
+  'menu.progress': 'Min utveckling',
+  'menu.teacherView': 'Lärarvy',
+  'menu.testSettings': 'Testinställningar',
+  'menu.accessibility': 'Tillgänglighet',
+  'menu.accommodations': 'Anpassningar',
+
+  // --- History files ---
+  'transfer.import': 'Importera',
+  'transfer.imported': { one: '{count} pass importerat.', other: '{count} pass importerade.' },
+  'transfer.skipped': { one: '{count} fanns redan.', other: '{count} fanns redan.' },
+  'transfer.unreadable': 'Filen kunde inte läsas.',
+  'transfer.invalid-json': 'Filen är inte en giltig JSON-fil.',
+  'transfer.wrong-format': 'Filen är inte en export från Plönninge multiplikationskoll.',
+  'transfer.newer-version': 'Filen kommer från en nyare version av appen. Uppdatera appen och försök igen.',
+  'transfer.broken-entries': 'Filen innehåller trasiga resultat.',
+
+  // --- Setup ---
+  'setup.titleTest': 'Vilka tabeller vill du testa?',
+  'setup.titlePractice': 'Vilka tabeller vill du öva?',
+  'setup.chooseTables': 'Välj en eller flera tabeller mellan 1 och {max}.',
+  'setup.dueFacts': { one: '{count} uppgift är redo att repeteras.', other: '{count} uppgifter är redo att repeteras.' },
+  'setup.tablesUpTo': 'Tabeller upp till',
+  'setup.selectAll': 'Välj alla',
+  'setup.deselectAll': 'Avmarkera alla',
+  'setup.changeColor': 'Ändra färg',
+  'setup.questionKinds': 'Typ av uppgifter',
+  'setup.preset': 'Testinställning',
+  'setup.factorRange': 'faktorer {min}–{max}',
+  'setup.secondsPerQuestion': '{seconds} s per fråga',
+  'setup.untimed': 'utan tidsgräns',
+  'setup.sharedTest': 'Gemensamt test med testkod',
+  'setup.testCodePlaceholder': 'Testkod från läraren',
+  'setup.start': 'Starta',
+  'setup.testCodeInvalid': 'Testkoden känns inte igen.',
+  'setup.testCodeHelp': 'Alla som skriver in samma kod får samma frågor i samma ordning, med samma tid och samma gränser för godkänt.',
+  'setup.createCode': 'Skapa kod',
+  'setup.worksheet': 'Arbetsblad',
+  'setup.wordProblems': 'Textuppgifter',
+  'setup.startTest': 'Starta testet',
+  'setup.startPractice': 'Starta övningen',
+
+  // --- Playing ---
+  'playing.questionOf': 'Fråga {current} av {total}',
+  'playing.testMode': 'Testläge',
+  'playing.pause': 'Pausa',
+  'playing.paused': 'Pausad',
+  'playing.pausedTest': 'Tiden står still. Pausen sparas i historiken.',
+  'playing.pausedPractice': 'Ta en paus och fortsätt när du är redo.',
+  'playing.correct': 'RÄTT!',
+  'playing.wrong': 'FEL!',
+  'playing.timeout': 'TIDEN UTE!',
+  'playing.answerIs': 'Svaret är {answer}',
+  'playing.correctAnswer': 'Rätt svar: {answer}',
+  'playing.seconds': '{seconds} s',
+  'playing.answer': 'Svar',
+  'playing.clear': 'Sudda',
+  'playing.submitHint': 'Skriv ditt svar och tryck OK eller Enter.',
+  'playing.hint': 'Ledtråd',
+  'playing.moreHelp': 'Mer hjälp',
+  'hint.title': 'Ledtråd {step} av {total}',
+  'hint.array.multiply': '{a} rader med {b} prickar i varje. Hur många prickar är det?',
+  'hint.array.reverse': '{product} prickar i {a} rader. Hur många är det i varje rad?',
+  'hint.numberLine.multiply': 'Hoppa {b} hopp, {a} steg i taget.',
+  'hint.numberLine.reverse': 'Hoppa {a} steg i taget till {product}. Hur många hopp blev det?',
+  'hint.decomposition.multiply': 'Dela upp {b} i {first} och {second} och lägg ihop svaren.',
+  'hint.decomposition.reverse': 'Dela upp {product} i {first} och {second}. Dela båda med {a} och lägg ihop.',
+
+  // --- Results ---
+  'results.passed': 'DU ÄR GODKÄND!',
+  'results.upload.sent': 'Resultatet är skickat till din lärare! 🌟',
+  'results.upload.sending': 'Skickar resultatet till din lärare...',
+  'results.upload.queued': 'Resultatet sparas och skickas till din lärare när nätet fungerar igen.',
+  'results.upload.failed': 'Resultatet kunde inte skickas. Visa detta för din lärare! 🌟',
+  'results.upload.idle': 'Visa detta för din lärare nu! 🌟',
+  'results.wellFought': 'Bra kämpat!',
+  'results.needsMorePractice': 'Du behöver lite mer träning för att nå hela vägen.',
+  'results.paused': {
+    one: 'Testet pausades {count} gång (totalt {seconds} s).',
+    other: 'Testet pausades {count} gånger (totalt {seconds} s).'
+  },
+  'results.testCode': 'Testkod',
+  'results.yourResult': 'Ditt resultat',
+  'results.yourSpeed': 'Din snabbhet',
+  'results.passLimit': 'Godkänd gräns',
+  'results.correctCount': 'Antal rätt',
+  'results.speedPoints': 'Snabbhetspoäng',
+  'results.perKind': 'Rätt per uppgiftstyp',
+  'results.difficultyCurve': 'Svårighetskurva',
+  'results.difficultyDescription': 'Linjen visar nivån varje fråga valdes på. Snabba rätt svar lyfter den, fel och långsamma svar sänker den.',
+  'results.levelChange': 'Från nivå {start} till {end}',
+  'results.level': 'Nivå',
+  'results.questionDifficulty': 'Frågans svårighet',
+  'results.correctQuestion': 'Rätt svar',
+  'results.wrongQuestion': 'Fel svar',
+  'results.needsPracticeTitle': 'Tabeller du behöver träna mer på:',
+  'results.table': '{table}:ans tabell',
+  'results.wrongTitle': 'Frågor du svarade fel på:',
+  'results.questionNumber': 'Fråga {number}',
+  'results.yourAnswer': 'Ditt svar: {answer}',
+  'results.noAnswer': 'Inget',
+  'results.retryMistakes': 'Öva på felen',
+  'results.retryProgress': { one: 'Du svarade rätt två gånger i rad på {mastered} av {count} uppgift.', other: 'Du svarade rätt två gånger i rad på {mastered} av {count} uppgifter.' },
+  'results.hintsTitle': 'Frågor där du tog hjälp av ledtrådar:',
+  'results.hintSteps': { one: '{count} ledtråd', other: '{count} ledtrådar' },
+  'results.saveAsFile': 'Spara alla resultat som fil',
+  'feedback.title': 'Tips till nästa gång',
+  'feedback.loading': 'Tänker ut tips...',
+  'feedback.byAi': 'Skrivet av AI',
+
+  // --- Accessibility ---
+  'a11y.title': 'Tillgänglighet',
+  'a11y.subtitle': 'Inställningarna sparas för {name}.',
+  'a11y.motion': 'Rörelser och animationer',
+  'a11y.motion.system': 'Som på enheten',
+  'a11y.motion.reduce': 'Mindre rörelse',
+  'a11y.motion.full': 'Alla animationer',
+  'a11y.highContrast': 'Hög kontrast',
+  'a11y.highContrastDescription': 'Mörkare text och tydligare kanter.',
+  'a11y.palette': 'Färger på tabellerna',
+  'a11y.palette.standard': 'Mina egna färger',
+  'a11y.palette.colorblind': 'Färgblindvänliga',
+  'a11y.palette.high-contrast': 'Kontraststarka',
+  'a11y.readAloud': 'Läs upp frågorna',
+  'a11y.readAloudDescription': 'Varje fråga läses upp när den visas.',
+  'a11y.readAloudUnavailable': 'Den här webbläsaren kan inte läsa upp text.',
+  'a11y.tryIt': 'Prova',
+  'a11y.sound': 'Ljud',
+  'a11y.mute': 'Stäng av ljudet',
+  'a11y.muteDescription': 'Inga ljud alls, till exempel i ett tyst klassrum.',
+  'a11y.volume': 'Volym',
+  'a11y.soundTheme': 'Ljudtema',
+  'a11y.soundTheme.classic': 'Klassiskt',
+  'a11y.soundTheme.soft': 'Mjukt',
+  'a11y.soundTheme.arcade': 'Spelhall',
+  'a11y.soundTheme.bells': 'Klockor',
+  'a11y.spokenFeedback': 'Säg om svaret var rätt',
+  'a11y.spokenFeedbackDescription': 'Efter varje fråga hörs ”Rätt!” eller det rätta svaret.',
+  'a11y.keyboard': 'Med tangentbordet flyttar Tab mellan knapparna, Enter svarar och Esc pausar.',
+  'a11y.questionAnnouncement': 'Fråga {current} av {total}: {question}',
+  'speech.multiply': '{a} gånger {b}',
+  'speech.divide': '{product} delat med {a}',
+  'speech.missing-factor': '{a} gånger vad blir {product}',
+  'speech.correct': 'Rätt!',
+
+  // --- Achievements ---
+  'achievement.first-session': 'Första passet',
+  'achievement.first-session.description': 'Gör klart din första övning eller ditt första test.',
+  'achievement.first-pass': 'Godkänd!',
+  'achievement.first-pass.description': 'Bli godkänd på ett test för första gången.',
+  'achievement.perfect-test': 'Alla rätt',
+  'achievement.perfect-test.description': 'Svara rätt på varje fråga i ett test.',
+  'achievement.lightning': 'Blixtsnabb',
+  'achievement.lightning.description': 'Svara rätt på under {seconds} sekunder på alla frågor i en omgång med minst {count} frågor.',
+  'achievement.streak-3': '3 dagar i rad',
+  'achievement.streak-3.description': 'Öva tre dagar i rad.',
+  'achievement.streak-7': '7 dagar i rad',
+  'achievement.streak-7.description': 'Öva sju dagar i rad.',
+  'achievement.pass-table': 'Godkänd på {table}:an',
+  'achievement.pass-table.description': 'Bli godkänd på ett test med {table}:ans tabell.',
+  'achievement.master-table': '{table}:ans mästare',
+  'achievement.master-table.description': 'Kunna hela {table}:ans tabell snabbt och säkert, gång på gång.',
+  'menu.badges': 'Märken',
+  'menu.badgesCount': '{unlocked} av {total}',
+  'menu.streak': { one: '{count} dag i rad', other: '{count} dagar i rad' },
+  'menu.badgeLocked': 'Inte upplåst än',
+  'menu.badgeUnlocked': 'Upplåst {date}',
+  'results.newBadges': { one: 'Nytt märke!', other: '{count} nya märken!' },
+
+  // --- Class competition ---
+  'menu.competition': 'Klasstävling',
+  'menu.competitionDescription': 'Tävla mot klassen med koden på lärarens skärm.',
+  'menu.hostCompetition': 'Starta klasstävling',
+  'competition.title': 'Klasstävling',
+  'competition.joinDescription': 'Skriv koden som syns på lärarens skärm.',
+  'competition.code': 'Kod',
+  'competition.name': 'Ditt namn',
+  'competition.join': 'Gå med',
+  'competition.connecting': 'Ansluter …',
+  'competition.serverDown': 'Kunde inte nå tävlingen. Är du ansluten till skolans nätverk?',
+  'competition.waiting': 'Du är med, {name}! Vänta tills läraren startar.',
+  'competition.players': { one: '{count} elev är med', other: '{count} elever är med' },
+  'competition.getReady': 'Gör dig redo!',
+  'competition.send': 'Skicka svar',
+  'competition.answerSent': 'Svaret är skickat. Vänta på de andra …',
+  'competition.correct': 'Rätt! +{points} poäng',
+  'competition.wrong': 'Inte rätt den här gången.',
+  'competition.noAnswer': 'Inget svar den här gången.',
+  'competition.rightAnswer': 'Rätt svar:',
+  'competition.leaderboard': 'Topplista',
+  'competition.yourPlace': 'Du är på plats {rank} av {count}',
+  'competition.waitNext': 'Läraren startar nästa fråga snart.',
+  'competition.finished': 'Tävlingen är slut!',
+  'competition.closed': 'Läraren har avslutat tävlingen.',
+  'competition.lost': 'Anslutningen till tävlingen bröts.',
+  'competition.reconnect': 'Anslut igen',
+  'competition.error.unknown-code': 'Det finns ingen tävling med den koden.',
+  'competition.error.name-taken': 'Någon i tävlingen heter redan så. Lägg till en bokstav.',
+  'competition.error.room-full': 'Tävlingen är full.',
+  'competition.error.finished': 'Den tävlingen är redan slut.',
+  'competition.error.malformed': 'Skriv ditt namn.',
+
+  // --- Table map ---
+  'mastery.description': 'Andel rätt och mediantid för varje uppgift i alla dina pass.',
+  'mastery.from': 'Från',
+  'mastery.to': 'Till',
+  'mastery.clearFilters': 'Rensa filter',
+  'mastery.noAnswers': 'Inga svar sparade för det här urvalet ännu.',
+  'mastery.cell': '{fact}: {correct}/{attempts} rätt, mediantid {seconds} s',
+  'mastery.cellEmpty': '{fact}: inga svar',
+  'mastery.legendWrong': '0 % rätt',
+  'mastery.legendRight': '100 % rätt',
+  'mastery.legendSlow': 'Ljusare ruta = långsamt svar',
+  'mastery.trouble': 'Knepiga uppgifter',
+
+  // --- Word problems ---
+  'wordProblems.description': 'Läs uppgiften, räkna ut svaret och skriv det i rutan.',
+  'wordProblems.loading': 'Skriver uppgifter...',
+  'wordProblems.answerLabel': 'Svar på uppgift {number}',
+  'wordProblems.correct': 'Rätt!',
+  'wordProblems.byAi': 'Uppgifterna är skrivna av AI',
+  'wordProblems.check': 'Rätta',
+  'wordProblems.score': '{correct} av {total} rätt',
+  'wordProblems.newProblems': 'Nya uppgifter',
+
+  // --- Progress ---
+  'progress.title': 'Min utveckling',
+  'progress.description': 'Så har dina test och tabeller gått över tid.',
+  'progress.preset': 'Test:',
+  'progress.testCount': { one: '{count} test', other: '{count} test' },
+  'progress.passedCount': { one: '{count} godkänt', other: '{count} godkända' },
+  'progress.passMark': 'Godkänt: {mark}',
+  'progress.noTests': 'Gör ett test så ser du hur det går här.',
+  'progress.perTable': 'Rätt per tabell, vecka för vecka',
+  'progress.noAnswers': 'Inga svar sparade ännu.',
+  'progress.week': 'Veckan från {date}'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof sv;
+export type Catalog = Record<MessageKey, Message>;
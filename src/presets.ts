@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TestPreset } from './types.ts';
+
+const PRESETS_KEY = 'plonninge_test_presets';
+
+export const MAX_FACTOR_LIMIT = 20;
+export const MAX_QUESTION_COUNT = 200;
+
+export const DEFAULT_PRESET_ID = 'standard';
+
+// The original fixed rules: 40 questions, 6 seconds, pass on 36 correct or 120 points.
+export const DEFAULT_PRESET: TestPreset = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Standard',
+  questionCount: 40,
+  timePerQuestion: 6,
+  minFactor: 1,
+  maxFactor: 10,
+  maxPoints: 6,
+  scoringCurve: 'linear',
+  passScore: 36,
+  passPoints: 120,
+  passRule: 'either',
+  pausePolicy: 'forbid'
+};
+
+const BUILT_IN_PRESETS: TestPreset[] = [
+  DEFAULT_PRESET,
+  {
+    ...DEFAULT_PRESET,
+    id: 'year-2',
+    name: 'Åk 2 – kort test',
+    questionCount: 20,
+    timePerQuestion: 8,
+    passScore: 17,
+    passPoints: 60
+  },
+  {
+    ...DEFAULT_PRESET,
+    id: 'year-5',
+    name: 'Åk 5 – 4 sekunder',
+    timePerQuestion: 4,
+    scoringCurve: 'steep'
+  },
+  {
+    ...DEFAULT_PRESET,
+    id: 'up-to-12',
+    name: 'Tabeller till 12',
+    maxFactor: 12
+  }
+];
+
+export const SCORING_CURVE_LABELS: Record<TestPreset['scoringCurve'], string> = {
+  linear: 'Linjär',
+  steep: 'Brant (belönar snabba svar)',
+  gentle: 'Mjuk',
+  flat: 'Samma poäng för alla rätt'
+};
+
+export const createPreset = (base: TestPreset, name: string): TestPreset => ({
+  ...base,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name
+});
+
+export const loadPresets = (): TestPreset[] => {
+  const raw = localStorage.getItem(PRESETS_KEY);
+  if (raw) {
+    try {
+      const presets = JSON.parse(raw) as TestPreset[];
+      // Fill in rules added after the preset was saved
+      if (Array.isArray(presets) && presets.length > 0) return presets.map(p => ({ ...DEFAULT_PRESET, ...p }));
+    } catch (e) {
+      console.error('Failed to parse test presets', e);
+    }
+  }
+  return BUILT_IN_PRESETS;
+};
+
+export const savePresets = (presets: TestPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+export const findPreset = (presets: TestPreset[], id: string) =>
+  presets.find(p => p.id === id) ?? presets.find(p => p.id === DEFAULT_PRESET_ID) ?? DEFAULT_PRESET;
+
+export const factorRange = (preset: TestPreset) =>
+  Array.from({ length: preset.maxFactor - preset.minFactor + 1 }, (_, i) => preset.minFactor + i);
+
+/** Points for a correct answer, from `maxPoints` for an instant answer down to 1. */
+export const computePoints = (preset: TestPreset, timeTaken: number) => {
+  const remaining = Math.max(0, 1 - timeTaken / preset.timePerQuestion);
+  const share = {
+    linear: remaining,
+    steep: remaining * remaining,
+    gentle: Math.sqrt(remaining),
+    flat: 1
+  }[preset.scoringCurve];
+  return Math.max(1, Math.ceil(preset.maxPoints * share));
+};
+
+export const isPassingScore = (preset: TestPreset, correct: number, points: number) => {
+  const scoreOk = correct >= preset.passScore;
+  const pointsOk = points >= preset.passPoints;
+  return preset.passRule === 'both' ? scoreOk && pointsOk : scoreOk || pointsOk;
+};
+
+/** Returns a Swedish error message, or null when the preset is usable. */
+export const validatePreset = (preset: TestPreset): string | null => {
+  if (!preset.name.trim()) return 'Ge inställningen ett namn.';
+  if (preset.questionCount < 1) return 'Testet måste ha minst en fråga.';
+  if (preset.questionCount > MAX_QUESTION_COUNT) return `Testet kan ha högst ${MAX_QUESTION_COUNT} frågor.`;
+  if (preset.timePerQuestion <= 0) return 'Tiden per fråga måste vara större än noll.';
+  if (preset.minFactor < 0 || preset.maxFactor < preset.minFactor) return 'Faktorintervallet är ogiltigt.';
+  if (preset.maxFactor > MAX_FACTOR_LIMIT) return `Största faktor kan vara högst ${MAX_FACTOR_LIMIT}.`;
+  if (preset.maxPoints < 1) return 'Maxpoäng per fråga måste vara minst 1.';
+  if (preset.passScore > preset.questionCount) return 'Gränsen för antal rätt är högre än antalet frågor.';
+  if (preset.passPoints > preset.questionCount * preset.maxPoints) return 'Poänggränsen går inte att nå.';
+  return null;
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_ACCESSIBILITY } from './accessibility.ts';
+import { DEFAULT_ACCOMMODATIONS } from './accommodations.ts';
+import { DEFAULT_AUDIO } from './audio.ts';
+import { DEFAULT_COLORS } from './colors.ts';
+import { DEFAULT_PRESET_ID } from './presets.ts';
+import { HistoryEntry, Profile, ProfileSettings, ProfileStore } from './types.ts';
+
+const PROFILES_KEY = 'plonninge_profiles';
+
+// Pre-profile versions kept a single shared history and colour map.
+const LEGACY_HISTORY_KEY = 'plonninge_math_history';
+const LEGACY_COLORS_KEY = 'plonninge_table_colors';
+
+const DEFAULT_SETTINGS: ProfileSettings = {
+  lastSelectedTables: [],
+  classCode: '',
+  presetId: DEFAULT_PRESET_ID,
+  questionKinds: ['multiply'],
+  maxTable: 10,
+  locale: 'sv',
+  accessibility: DEFAULT_ACCESSIBILITY,
+  accommodations: DEFAULT_ACCOMMODATIONS,
+  audio: DEFAULT_AUDIO
+};
+
+export const createProfile = (name: string): Profile => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  createdAt: new Date().toISOString(),
+  tableColors: { ...DEFAULT_COLORS },
+  facts: {},
+  achievements: {},
+  settings: { ...DEFAULT_SETTINGS }
+});
+
+// Profiles saved by older versions may lack settings added since.
+const normalizeProfile = (profile: Profile): Profile => ({
+  ...profile,
+  tableColors: { ...DEFAULT_COLORS, ...profile.tableColors },
+  facts: profile.facts ?? {},
+  achievements: profile.achievements ?? {},
+  settings: {
+    ...DEFAULT_SETTINGS,
+    ...profile.settings,
+    accessibility: { ...DEFAULT_ACCESSIBILITY, ...profile.settings?.accessibility },
+    accommodations: { ...DEFAULT_ACCOMMODATIONS, ...profile.settings?.accommodations },
+    audio: { ...DEFAULT_AUDIO, ...profile.settings?.audio }
+  }
+});
+
+const readJson = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    console.error(`Failed to parse ${key}`, e);
+    return null;
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+};
+
+/**
+ * Moves data from the old shared keys into a default profile so nothing is
+ * lost the first time a device runs a version with profiles.
+ */
+const migrateLegacyData = (): ProfileStore => {
+  const history = readJson<HistoryEntry[]>(LEGACY_HISTORY_KEY);
+  const colors = readJson<Record<number, string>>(LEGACY_COLORS_KEY);
+
+  const profile = createProfile('Elev 1');
+  if (history) profile.history = history;
+  if (colors) profile.tableColors = { ...DEFAULT_COLORS, ...colors };
+
+  const store: ProfileStore = { activeProfileId: profile.id, profiles: [profile] };
+  saveProfileStore(store);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  localStorage.removeItem(LEGACY_COLORS_KEY);
+
+  return store;
+};
+
+export const loadProfileStore = (): ProfileStore => {
+  const store = readJson<ProfileStore>(PROFILES_KEY);
+  if (store && Array.isArray(store.profiles)) {
+    const activeExists = store.profiles.some(p => p.id === store.activeProfileId);
+    return {
+      profiles: store.profiles.map(normalizeProfile),
+      activeProfileId: activeExists ? store.activeProfileId : store.profiles[0]?.id ?? null
+    };
+  }
+  return migrateLegacyData();
+};
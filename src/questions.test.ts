@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { QUESTION_KINDS, generateQuestionSet } from './questions.ts';
+import { createRng } from './random.ts';
+import { Question } from './types.ts';
+
+const ONE_TO_TEN = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const countBy = (questions: Question[], key: (q: Question) => number) => {
+  const counts = new Map<number, number>();
+  questions.forEach(q => counts.set(key(q), (counts.get(key(q)) ?? 0) + 1));
+  return counts;
+};
+
+describe('generateQuestionSet', () => {
+  it('gives every table an equal share, the remainder at most one each', () => {
+    const questions = generateQuestionSet({ tables: [2, 3, 7], factors: ONE_TO_TEN, count: 20, kinds: ['multiply'], rng: createRng(1) });
+    expect(questions).toHaveLength(20);
+    const perTable = [...countBy(questions, q => q.a).values()];
+    expect(perTable).toHaveLength(3);
+    expect(perTable.every(n => n === 6 || n === 7)).toBe(true);
+  });
+
+  it('asks every factor of a table before asking any again', () => {
+    const once = generateQuestionSet({ tables: [4], factors: ONE_TO_TEN, count: 10, kinds: ['multiply'], rng: createRng(2) });
+    expect(once.map(q => q.b).sort((x, y) => x - y)).toEqual(ONE_TO_TEN);
+
+    const twice = generateQuestionSet({ tables: [4], factors: ONE_TO_TEN, count: 25, kinds: ['multiply'], rng: createRng(3) });
+    expect([...countBy(twice, q => q.b).values()].every(n => n === 2 || n === 3)).toBe(true);
+  });
+
+  it.each([1, 2, 3, 4, 5])('never asks the same fact twice in a row (seed %i)', seed => {
+    const questions = generateQuestionSet({ tables: [2, 3], factors: [1, 2, 3], count: 30, kinds: ['multiply'], rng: createRng(seed) });
+    questions.slice(1).forEach((q, i) => {
+      expect(q.a === questions[i].a && q.b === questions[i].b).toBe(false);
+    });
+  });
+
+  it('repeats a fact only when there is nothing to put between', () => {
+    const questions = generateQuestionSet({ tables: [5], factors: [3], count: 3, kinds: ['multiply'], rng: createRng(4) });
+    expect(questions.map(q => q.answer)).toEqual([15, 15, 15]);
+  });
+
+  it('builds the same list from the same seed', () => {
+    const options = { tables: [6, 8], factors: ONE_TO_TEN, count: 12, kinds: QUESTION_KINDS };
+    expect(generateQuestionSet({ ...options, rng: createRng(9) })).toEqual(generateQuestionSet({ ...options, rng: createRng(9) }));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Rng, pickWith, shuffleWith } from './random.ts';
+import { Question, QuestionKind } from './types.ts';
+
+export const QUESTION_KINDS: QuestionKind[] = ['multiply', 'divide', 'missing-factor'];
+
+/**
+ * Every kind is built from the same fact a × b, so stats still roll up to
+ * table `a` whatever is being asked for.
+ */
+export const makeQuestion = (a: number, b: number, kind: QuestionKind = 'multiply'): Question => ({
+  a,
+  b,
+  answer: kind === 'multiply' ? a * b : b,
+  table: a,
+  kind
+});
+
+export const pickKind = (kinds: QuestionKind[], rng: Rng = Math.random): QuestionKind =>
+  kinds.length === 0 ? 'multiply' : pickWith(rng, kinds);
+
+export interface QuestionSetOptions {
+  tables: number[];
+  factors: number[];
+  count: number;
+  kinds: QuestionKind[];
+  rng?: Rng;
+}
+
+type Fact = { a: number; b: number };
+
+const sameFact = (x: Fact, y: Fact) => x.a === y.a && x.b === y.b;
+
+// Splits up equal neighbours. Only a pool too small to interleave is left with repeats.
+const avoidRepeats = (facts: Fact[]) => {
+  const list = [...facts];
+  for (let i = 1; i < list.length; i++) {
+    if (!sameFact(list[i], list[i - 1])) continue;
+    const j = list.findIndex((f, k) => k > i && !sameFact(f, list[i - 1]));
+    if (j !== -1) {
+      [list[i], list[j]] = [list[j], list[i]];
+      continue;
+    }
+    // Nothing later fits, so move the fact back into an earlier gap and check again
+    const fact = list[i];
+    const gap = list.findIndex((f, k) => k < i - 1 && !sameFact(f, fact) && (k === 0 || !sameFact(list[k - 1], fact)));
+    if (gap === -1) break;
+    list.splice(i, 1);
+    list.splice(gap, 0, fact);
+    i = 0;
+  }
+  return list;
+};
+
+/**
+ * Every table gets an equal share of the questions, and each table walks through all
+ * its factors in random order before any fact is asked again. The same rng state
+ * always gives the same list, which is what makes test codes reproducible.
+ */
+export const generateQuestionSet = ({ tables, factors, count, kinds, rng = Math.random }: QuestionSetOptions) => {
+  // The remainder goes to randomly chosen tables
+  const withExtra = new Set(shuffleWith(rng, tables).slice(0, count % tables.length));
+  const facts: Fact[] = [];
+  tables.forEach(a => {
+    const quota = Math.floor(count / tables.length) + (withExtra.has(a) ? 1 : 0);
+    let deck: number[] = [];
+    for (let i = 0; i < quota; i++) {
+      if (deck.length === 0) deck = shuffleWith(rng, factors);
+      facts.push({ a, b: deck.pop()! });
+    }
+  });
+  return avoidRepeats(shuffleWith(rng, facts)).map(f => makeQuestion(f.a, f.b, pickKind(kinds, rng)));
+};
+
+// Results saved before question kinds existed were all multiplication.
+export const questionKind = (q: Question): QuestionKind => q.kind ?? 'multiply';
+
+/** The question as shown on the card, with '?' standing in for the unknown. */
+export const questionTokens = (q: Question): (number | string)[] => {
+  switch (questionKind(q)) {
+    case 'divide':
+      return [q.a * q.b, '÷', q.a, '='];
+    case 'missing-factor':
+      return [q.a, '×', '?', '=', q.a * q.b];
+    default:
+      return [q.a, '×', q.b, '='];
+  }
+};
+
+/** The complete, solved equation, e.g. "56 ÷ 7 = 8". */
+export const formatEquation = (q: Question) => {
+  switch (questionKind(q)) {
+    case 'divide':
+      return `${q.a * q.b} ÷ ${q.a} = ${q.b}`;
+    default:
+      return `${q.a} × ${q.b} = ${q.a * q.b}`;
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { makeQuestion } from './questions.ts';
+import { RETRY_MAX_ATTEMPTS, queueRetries, retryQuestions } from './retry.ts';
+import { Question, Result } from './types.ts';
+
+const SIX_SEVEN = makeQuestion(6, 7);
+const EIGHT_THREE = makeQuestion(8, 3);
+
+const answer = (question: Question, isCorrect: boolean): Result => ({
+  question,
+  userAnswer: isCorrect ? question.answer : null,
+  isCorrect,
+  timeTaken: 2,
+  points: 0
+});
+
+describe('retryQuestions', () => {
+  it('takes each missed fact once, in the order first missed', () => {
+    const results = [
+      answer(EIGHT_THREE, false),
+      answer(makeQuestion(2, 2), true),
+      answer(SIX_SEVEN, false),
+      answer(makeQuestion(8, 3, 'divide'), false)
+    ];
+    expect(retryQuestions(results)).toEqual([EIGHT_THREE, SIX_SEVEN]);
+  });
+});
+
+describe('queueRetries', () => {
+  it('puts a missed fact back at the end of the queue', () => {
+    expect(queueRetries([SIX_SEVEN, EIGHT_THREE], [answer(SIX_SEVEN, false)])).toEqual([SIX_SEVEN, EIGHT_THREE, SIX_SEVEN]);
+  });
+
+  it('keeps asking until a fact is right twice in a row', () => {
+    const queue = [SIX_SEVEN, SIX_SEVEN, SIX_SEVEN];
+    expect(queueRetries(queue, [answer(SIX_SEVEN, true), answer(SIX_SEVEN, false), answer(SIX_SEVEN, true)])).toHaveLength(4);
+    expect(queueRetries(queue, [answer(SIX_SEVEN, false), answer(SIX_SEVEN, true), answer(SIX_SEVEN, true)])).toEqual(queue);
+  });
+
+  it('does not queue a fact that is already waiting', () => {
+    const queue = [SIX_SEVEN, EIGHT_THREE, SIX_SEVEN];
+    expect(queueRetries(queue, [answer(SIX_SEVEN, false)])).toEqual(queue);
+  });
+
+  it('lets a fact go after the last attempt', () => {
+    const queue = Array.from({ length: RETRY_MAX_ATTEMPTS }, () => SIX_SEVEN);
+    expect(queueRetries(queue, queue.map(q => answer(q, false)))).toEqual(queue);
+  });
+});
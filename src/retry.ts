@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { factKey } from './spacedRepetition.ts';
+import { Question, Result } from './types.ts';
+
+// "Öva på felen": the missed facts of a session come back until each one has been
+// answered correctly twice in a row. A fact that still will not stick is let go after
+// a few rounds, so a tired child is never stuck in an endless loop.
+export const RETRY_STREAK = 2;
+export const RETRY_MAX_ATTEMPTS = 6;
+
+const sameFact = (x: Question, y: Question) => x.a === y.a && x.b === y.b;
+
+const answersTo = (results: Result[], q: Question) => results.filter(r => sameFact(r.question, q));
+
+/** Correct answers to the fact at the end of the list, without a miss in between. */
+export const currentStreak = (results: Result[], q: Question) => {
+  const answers = answersTo(results, q);
+  let streak = 0;
+  for (let i = answers.length - 1; i >= 0 && answers[i].isCorrect; i--) streak++;
+  return streak;
+};
+
+export const needsAnotherTry = (results: Result[], q: Question) =>
+  currentStreak(results, q) < RETRY_STREAK && answersTo(results, q).length < RETRY_MAX_ATTEMPTS;
+
+const uniqueFacts = (questions: Question[]) => {
+  const seen = new Set<string>();
+  return questions.filter(q => {
+    const key = factKey(q.a, q.b);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Missed and timed-out facts, each once, in the order they were first missed. */
+export const retryQuestions = (results: Result[]): Question[] =>
+  uniqueFacts(results.filter(r => !r.isCorrect).map(r => r.question));
+
+/**
+ * The queue with every fact that still needs another try waiting after the answers given
+ * so far. This also mends a queue that was saved before the last answer was put back.
+ */
+export const queueRetries = (questions: Question[], results: Result[]) => {
+  const pending = questions.slice(results.length);
+  const missing = uniqueFacts(results.map(r => r.question))
+    .filter(q => needsAnotherTry(results, q) && !pending.some(p => sameFact(p, q)));
+  return [...questions, ...missing];
+};
+
+/** How many of the facts in a retry round ended on two correct answers in a row. */
+export const retryProgress = (results: Result[]) => {
+  const facts = uniqueFacts(results.map(r => r.question));
+  return {
+    count: facts.length,
+    mastered: facts.filter(q => currentStreak(results, q) >= RETRY_STREAK).length
+  };
+};
@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ACCOMMODATIONS, applyAccommodations } from './accommodations.ts';
+import { integrityFlags } from './integrity.ts';
+import { DEFAULT_PRESET, computePoints, isPassingScore } from './presets.ts';
+import { createRng } from './random.ts';
+import { makeQuestion } from './questions.ts';
+import { SessionState, createSessionEngine, currentQuestion, getSessionStats, isTimed } from './sessionEngine.ts';
+import { decodeTestCode } from './testCode.ts';
+import { Accommodations, GameMode, PlayType, Result, TestPreset } from './types.ts';
+
+const START = Date.UTC(2026, 0, 12, 8, 0);
+
+/** An engine on a clock that only moves when told to. */
+const setup = () => {
+  let clock = START;
+  const engine = createSessionEngine({ now: () => clock, rng: createRng(42) });
+  const tick = (seconds: number) => {
+    clock += seconds * 1000;
+  };
+  return { engine, tick };
+};
+
+const startTest = (
+  engine: ReturnType<typeof createSessionEngine>,
+  preset: TestPreset = DEFAULT_PRESET,
+  accommodations: Accommodations = DEFAULT_ACCOMMODATIONS
+) =>
+  engine.start({
+    playType: PlayType.TEST,
+    tables: [3, 7],
+    preset,
+    kinds: ['multiply'],
+    facts: {},
+    accommodations
+  });
+
+const answerRight = (engine: ReturnType<typeof createSessionEngine>, state: SessionState) =>
+  engine.answer(state, currentQuestion(state)!.answer);
+
+describe('timing', () => {
+  it('counts a timeout as exactly the time per question', () => {
+    const { engine, tick } = setup();
+    let state = startTest(engine);
+    tick(DEFAULT_PRESET.timePerQuestion + 1.7);
+    expect(engine.hasTimedOut(state)).toBe(true);
+
+    state = engine.answer(state, null);
+    expect(state.feedback).toBe('timeout');
+    expect(state.results[0].timeTaken).toBe(DEFAULT_PRESET.timePerQuestion);
+    expect(state.results[0].points).toBe(0);
+  });
+
+  it('leaves paused time out of the answer time', () => {
+    const { engine, tick } = setup();
+    let state = startTest(engine);
+    tick(2);
+    state = engine.pause(state, 'manual');
+    tick(30);
+    expect(engine.timeLeft(state)).toBe(DEFAULT_PRESET.timePerQuestion - 2);
+    expect(engine.hasTimedOut(state)).toBe(false);
+
+    state = engine.resume(state);
+    tick(1);
+    state = answerRight(engine, state);
+    expect(state.results[0].timeTaken).toBe(3);
+    expect(state.pauses).toEqual([{ at: START + 2000, duration: 30000, reason: 'manual' }]);
+  });
+
+  it('starts the next question when a pause taken during feedback ends', () => {
+    const { engine, tick } = setup();
+    let state = startTest(engine);
+    tick(1);
+    state = answerRight(engine, state);
+    tick(1);
+    state = engine.pause(state, 'hidden');
+    tick(20);
+    state = engine.advance(state);
+    expect(state.index).toBe(1);
+    expect(engine.timeLeft(state)).toBe(DEFAULT_PRESET.timePerQuestion);
+
+    tick(5);
+    state = engine.resume(state);
+    tick(2);
+    state = answerRight(engine, state);
+    expect(state.results[1].timeTaken).toBe(2);
+  });
+});
+
+describe('shared test codes', () => {
+  const CODE = '1x3k9-3.7-1.10-40-md-60.6.l.36.120.e.f';
+
+  it('files the session under the code rather than the student\'s preset', () => {
+    const { engine } = setup();
+    const state = engine.start({
+      playType: PlayType.TEST,
+      tables: [2],
+      preset: DEFAULT_PRESET,
+      kinds: ['multiply'],
+      facts: {},
+      accommodations: DEFAULT_ACCOMMODATIONS,
+      shared: decodeTestCode(CODE)!
+    });
+    expect(state.testCode).toBe(CODE);
+    expect(state.preset).toMatchObject({ id: `code:${CODE}`, name: CODE, questionCount: 40 });
+    expect(state.questions).toHaveLength(40);
+    expect(startTest(engine).preset.id).toBe(DEFAULT_PRESET.id);
+  });
+});
+
+describe('getSessionStats', () => {
+  const RESULTS: Result[] = [
+    { question: makeQuestion(3, 4), userAnswer: 12, isCorrect: true, timeTaken: 1, points: 5 },
+    { question: makeQuestion(3, 8, 'divide'), userAnswer: 7, isCorrect: false, timeTaken: 4, points: 0 },
+    { question: makeQuestion(7, 6), userAnswer: 42, isCorrect: true, timeTaken: 3, points: 3, hintsUsed: 1 },
+    { question: makeQuestion(7, 7, 'missing-factor'), userAnswer: 7, isCorrect: true, timeTaken: 2, points: 4 }
+  ];
+
+  it('adds up the answers of a session', () => {
+    const stats = getSessionStats(RESULTS);
+    expect(stats.totalCorrect).toBe(3);
+    expect(stats.totalPoints).toBe(12);
+    expect(stats.wrongAnswers).toEqual([RESULTS[1]]);
+    expect(stats.hintedAnswers).toEqual([RESULTS[2]]);
+  });
+
+  it('splits the answers by table and by kind', () => {
+    const stats = getSessionStats(RESULTS);
+    expect(stats.needsPractice).toEqual([3]);
+    expect(stats.kindStats).toEqual({
+      'multiply': { correct: 2, total: 2 },
+      'divide': { correct: 0, total: 1 },
+      'missing-factor': { correct: 1, total: 1 }
+    });
+  });
+
+  it('is empty for a session without answers', () => {
+    expect(getSessionStats([])).toMatchObject({ totalCorrect: 0, totalPoints: 0, needsPractice: [], kindStats: {} });
+  });
+});
+
+describe('computePoints', () => {
+  const curves: TestPreset['scoringCurve'][] = ['linear', 'steep', 'gentle', 'flat'];
+
+  it.each(curves)('gives full points for an instant answer on the %s curve', scoringCurve => {
+    expect(computePoints({ ...DEFAULT_PRESET, scoringCurve }, 0)).toBe(DEFAULT_PRESET.maxPoints);
+  });
+
+  it.each(curves)('gives the least points at the time limit on the %s curve', scoringCurve => {
+    const expected = scoringCurve === 'flat' ? DEFAULT_PRESET.maxPoints : 1;
+    expect(computePoints({ ...DEFAULT_PRESET, scoringCurve }, DEFAULT_PRESET.timePerQuestion)).toBe(expected);
+  });
+});
+
+describe('isPassingScore', () => {
+  const { passScore, passPoints } = DEFAULT_PRESET;
+
+  it('passes on either limit when the rule is "either"', () => {
+    const preset: TestPreset = { ...DEFAULT_PRESET, passRule: 'either' };
+    expect(isPassingScore(preset, passScore, 0)).toBe(true);
+    expect(isPassingScore(preset, 0, passPoints)).toBe(true);
+    expect(isPassingScore(preset, passScore - 1, passPoints - 1)).toBe(false);
+  });
+
+  it('needs both limits when the rule is "both"', () => {
+    const preset: TestPreset = { ...DEFAULT_PRESET, passRule: 'both' };
+    expect(isPassingScore(preset, passScore, passPoints)).toBe(true);
+    expect(isPassingScore(preset, passScore - 1, passPoints)).toBe(false);
+    expect(isPassingScore(preset, passScore, passPoints - 1)).toBe(false);
+  });
+});
+
+describe('accommodations', () => {
+  it('scores an untimed test on correct answers alone', () => {
+    const untimed = { ...DEFAULT_ACCOMMODATIONS, untimed: true };
+    const preset = applyAccommodations(DEFAULT_PRESET, untimed);
+    expect(preset.scoringCurve).toBe('flat');
+    expect(preset.passPoints).toBe(DEFAULT_PRESET.passScore * DEFAULT_PRESET.maxPoints);
+
+    const { engine, tick } = setup();
+    let state = startTest(engine, DEFAULT_PRESET, untimed);
+    expect(isTimed(state)).toBe(false);
+    tick(DEFAULT_PRESET.timePerQuestion * 10);
+    expect(engine.hasTimedOut(state)).toBe(false);
+    state = answerRight(engine, state);
+    expect(state.results[0].points).toBe(DEFAULT_PRESET.maxPoints);
+  });
+
+  it('stretches the time and the scoring curve with a time multiplier', () => {
+    const extraTime = { ...DEFAULT_ACCOMMODATIONS, timeMultiplier: 1.5 };
+    const preset = applyAccommodations(DEFAULT_PRESET, extraTime);
+    expect(preset.timePerQuestion).toBe(DEFAULT_PRESET.timePerQuestion * 1.5);
+
+    const { engine, tick } = setup();
+    let state = startTest(engine, DEFAULT_PRESET, extraTime);
+    tick(DEFAULT_PRESET.timePerQuestion + 1);
+    expect(engine.hasTimedOut(state)).toBe(false);
+    state = answerRight(engine, state);
+    expect(state.results[0].points).toBe(computePoints(DEFAULT_PRESET, (DEFAULT_PRESET.timePerQuestion + 1) / 1.5));
+  });
+});
+
+describe('restore', () => {
+  it('picks up a session saved during feedback at the next question', () => {
+    const { engine, tick } = setup();
+    let state = startTest(engine);
+    tick(2);
+    state = answerRight(engine, state);
+    tick(0.5);
+    const saved = engine.toLiveSession(state, 'profile-1');
+    tick(60);
+
+    const restored = engine.restore(saved);
+    expect(restored.mode).toBe(GameMode.PLAYING);
+    expect(restored.index).toBe(1);
+    expect(restored.feedback).toBeNull();
+    expect(restored.results).toEqual(state.results);
+    expect(restored.questions).toEqual(state.questions);
+    expect(restored.pauses).toEqual([{ at: START + 2500, duration: 60000, reason: 'interrupted' }]);
+    expect(engine.timeLeft(restored)).toBe(DEFAULT_PRESET.timePerQuestion);
+  });
+
+  it('keeps the time already spent on the current question', () => {
+    const { engine, tick } = setup();
+    const state = startTest(engine);
+    tick(4);
+    const saved = engine.toLiveSession(state, 'profile-1');
+    tick(300);
+
+    const restored = engine.restore(saved);
+    expect(restored.index).toBe(0);
+    expect(engine.timeLeft(restored)).toBe(DEFAULT_PRESET.timePerQuestion - 4);
+    tick(DEFAULT_PRESET.timePerQuestion - 4);
+    expect(engine.hasTimedOut(restored)).toBe(true);
+  });
+
+  it('flags a test that was left and resumed', () => {
+    const { engine, tick } = setup();
+    const state = startTest(engine);
+    tick(60);
+    const restored = engine.restore(engine.toLiveSession(state, 'profile-1'));
+    expect(integrityFlags(PlayType.TEST, restored.results, restored.pauses)).toContain('tab-switches');
+  });
+});
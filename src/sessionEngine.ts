@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { applyAccommodations, hasAccommodations } from './accommodations.ts';
+import { queueAdaptive } from './adaptive.ts';
+import { canUseHints, hintSteps } from './hints.ts';
+import { computePoints, factorRange, isPassingScore } from './presets.ts';
+import { makeQuestion, pickKind } from './questions.ts';
+import { Rng } from './random.ts';
+import { queueRetries, retryQuestions } from './retry.ts';
+import { selectSmartFacts } from './spacedRepetition.ts';
+import { getKindStats, getWeakTables } from './stats.ts';
+import { TestCodeConfig, encodeTestCode, generateFromTestCode } from './testCode.ts';
+import {
+  Accommodations,
+  AdaptivePool,
+  FactState,
+  GameMode,
+  HistoryEntry,
+  Keystroke,
+  LiveSession,
+  PauseReason,
+  PauseRecord,
+  PlayType,
+  Question,
+  QuestionKind,
+  Result,
+  TestPreset
+} from './types.ts';
+
+// The session engine holds every rule of a running session: which questions are asked,
+// how an answer is scored, how time and pauses are counted and when a test is passed.
+// It knows nothing about React or timers; App.tsx drives it and renders its state.
+
+export type Feedback = 'correct' | 'wrong' | 'timeout';
+
+export interface SessionState {
+  mode: GameMode.PLAYING | GameMode.RESULTS;
+  playType: PlayType;
+  preset: TestPreset; // with the student's accommodations already applied
+  questions: Question[];
+  index: number;
+  results: Result[];
+  feedback: Feedback | null; // shown between an answer and the next question
+  hintsShown: number; // hint steps revealed for the current question
+  keystrokes: Keystroke[]; // how the current answer is being typed
+  questionStartedAt: number; // epoch ms, moved forward by pauses
+  pausedAt: { at: number; reason: PauseReason } | null;
+  pauses: PauseRecord[];
+  testCode: string | null;
+  accommodations: Accommodations | null;
+  retryOf: string | null; // history id of the session whose mistakes are practised
+  adaptive: AdaptivePool | null; // set for adaptive practice, which picks each question as it goes
+}
+
+export interface SessionSetup {
+  playType: PlayType;
+  tables: number[];
+  preset: TestPreset;
+  kinds: QuestionKind[];
+  facts: Record<string, FactState>; // the student's repetition schedule, for smart practice
+  accommodations: Accommodations;
+  shared?: TestCodeConfig; // a test code handed out by the teacher
+}
+
+export interface SessionEngineOptions {
+  now?: () => number; // epoch ms
+  rng?: Rng;
+}
+
+// --- Rules that need neither clock nor randomness ---
+
+export const isTimed = (state: SessionState) => state.playType === PlayType.TEST && !state.accommodations?.untimed;
+
+export const canPause = (state: SessionState) =>
+  state.playType !== PlayType.TEST || state.preset.pausePolicy === 'record';
+
+export const currentQuestion = (state: SessionState): Question | undefined => state.questions[state.index];
+
+/** Practice answers itself once the right number is typed; a test waits for OK or Enter. */
+export const autoSubmits = (state: SessionState) => state.playType !== PlayType.TEST;
+
+export const getSessionStats = (results: Result[]) => ({
+  totalCorrect: results.filter(r => r.isCorrect).length,
+  totalPoints: results.reduce((sum, r) => sum + r.points, 0),
+  needsPractice: getWeakTables(results),
+  wrongAnswers: results.filter(r => !r.isCorrect),
+  hintedAnswers: results.filter(r => r.hintsUsed),
+  kindStats: getKindStats(results)
+});
+
+/** Only tests can be passed; practice always ends without a verdict. */
+export const isSessionPassed = (state: SessionState) => {
+  const { totalCorrect, totalPoints } = getSessionStats(state.results);
+  return state.playType === PlayType.TEST && isPassingScore(state.preset, totalCorrect, totalPoints);
+};
+
+export const totalPauseSeconds = (state: SessionState) =>
+  Math.round(state.pauses.reduce((sum, p) => sum + p.duration, 0) / 1000);
+
+// --- The engine ---
+
+export const createSessionEngine = ({ now = Date.now, rng = Math.random }: SessionEngineOptions = {}) => {
+  const elapsedSeconds = (state: SessionState) =>
+    ((state.pausedAt?.at ?? now()) - state.questionStartedAt) / 1000;
+
+  /** Seconds left on the current question, standing still during a pause. */
+  const timeLeft = (state: SessionState) => Math.max(0, state.preset.timePerQuestion - elapsedSeconds(state));
+
+  const hasTimedOut = (state: SessionState) =>
+    state.mode === GameMode.PLAYING && isTimed(state) && !state.feedback && !state.pausedAt && timeLeft(state) <= 0;
+
+  // All modes use the question count and factor range of the preset
+  const buildTestCode = (tables: number[], preset: TestPreset, kinds: QuestionKind[]): TestCodeConfig => ({
+    seed: Math.floor(rng() * 0xffffffff),
+    tables: [...tables].sort((x, y) => x - y),
+    minFactor: preset.minFactor,
+    maxFactor: preset.maxFactor,
+    count: preset.questionCount,
+    kinds,
+    rules: {
+      timePerQuestion: preset.timePerQuestion,
+      maxPoints: preset.maxPoints,
+      scoringCurve: preset.scoringCurve,
+      passScore: preset.passScore,
+      passPoints: preset.passPoints,
+      passRule: preset.passRule,
+      pausePolicy: preset.pausePolicy
+    }
+  });
+
+  /**
+   * A shared test code decides the questions, the time and how the test is scored and passed,
+   * so the whole class sits the same test whichever preset each student has picked.
+   * The session is filed under the code rather than the student's preset, so progress charts
+   * never mix it with tests of another length. Accommodations still apply on top.
+   */
+  const start = ({ playType, tables, preset, kinds, facts, accommodations, shared }: SessionSetup): SessionState => {
+    const sharedCode = shared ? encodeTestCode(shared) : null;
+    const base = shared
+      ? {
+          ...preset,
+          id: `code:${sharedCode}`,
+          name: sharedCode,
+          questionCount: shared.count,
+          minFactor: shared.minFactor,
+          maxFactor: shared.maxFactor,
+          ...shared.rules
+        }
+      : preset;
+    if (playType === PlayType.ADAPTIVE) {
+      const adaptive = { tables, kinds };
+      const questions = queueAdaptive([], [], adaptive, factorRange(base), base.questionCount, rng);
+      return newSession(playType, base, questions, accommodations, null, null, adaptive);
+    }
+    // Smart practice follows the student's own repetition schedule, so it has no code
+    const code = playType === PlayType.SMART ? null : shared ?? buildTestCode(tables, base, kinds);
+    const questions = code
+      ? generateFromTestCode(code)
+      : selectSmartFacts(facts, tables, factorRange(base), base.questionCount, now(), rng)
+          .map(({ a, b }) => makeQuestion(a, b, pickKind(kinds, rng)));
+    return newSession(playType, base, questions, accommodations, code ? encodeTestCode(code) : null, null);
+  };
+
+  /** "Öva på felen": practice on the facts missed in a finished session, see retry.ts. */
+  const startRetry = (entry: HistoryEntry, preset: TestPreset, accommodations: Accommodations): SessionState =>
+    newSession(PlayType.RETRY, preset, retryQuestions(entry.results ?? []), accommodations, null, entry.id);
+
+  const newSession = (
+    playType: PlayType,
+    preset: TestPreset,
+    questions: Question[],
+    accommodations: Accommodations,
+    testCode: string | null,
+    retryOf: string | null,
+    adaptive: AdaptivePool | null = null
+  ): SessionState => ({
+    mode: GameMode.PLAYING,
+    playType,
+    preset: applyAccommodations(preset, accommodations),
+    questions,
+    index: 0,
+    results: [],
+    feedback: null,
+    hintsShown: 0,
+    keystrokes: [],
+    questionStartedAt: now(),
+    pausedAt: null,
+    pauses: [],
+    testCode,
+    accommodations: hasAccommodations(accommodations) ? accommodations : null,
+    retryOf,
+    adaptive
+  });
+
+  const nextQueue = ({ playType, questions, results, preset, adaptive }: Pick<
+    SessionState, 'playType' | 'questions' | 'results' | 'preset' | 'adaptive'
+  >) => {
+    if (playType === PlayType.RETRY) return queueRetries(questions, results);
+    if (adaptive) return queueAdaptive(questions, results, adaptive, factorRange(preset), preset.questionCount, rng);
+    return questions;
+  };
+
+  /**
+   * Picks up a session saved before a reload. The time away counts as a pause, and the clock
+   * of the current question carries on from where it was rather than starting again.
+   */
+  const restore = (saved: LiveSession): SessionState => {
+    const questions = nextQueue({ ...saved, adaptive: saved.adaptive ?? null });
+    return {
+      mode: saved.results.length >= questions.length ? GameMode.RESULTS : GameMode.PLAYING,
+      playType: saved.playType,
+      preset: saved.preset,
+      questions,
+      index: Math.min(saved.results.length, questions.length - 1),
+      results: saved.results,
+      feedback: null,
+      hintsShown: 0,
+      keystrokes: [],
+      questionStartedAt: now() - (saved.questionElapsed ?? 0),
+      pausedAt: null,
+      pauses: [...saved.pauses, { at: saved.savedAt, duration: now() - saved.savedAt, reason: 'interrupted' }],
+      testCode: saved.testCode ?? null,
+      accommodations: saved.accommodations ?? null,
+      retryOf: saved.retryOf ?? null,
+      adaptive: saved.adaptive ?? null
+    };
+  };
+
+  const toLiveSession = (state: SessionState, profileId: string): LiveSession => ({
+    profileId,
+    playType: state.playType,
+    questions: state.questions,
+    results: state.results,
+    preset: state.preset,
+    pauses: state.pauses,
+    testCode: state.testCode ?? undefined,
+    accommodations: state.accommodations ?? undefined,
+    retryOf: state.retryOf ?? undefined,
+    adaptive: state.adaptive ?? undefined,
+    savedAt: now(),
+    // Saved during feedback, the session resumes at the next question
+    questionElapsed: state.feedback ? 0 : Math.round(elapsedSeconds(state) * 1000)
+  });
+
+  /** `value` is null when the time ran out. Answers during feedback or a pause are ignored. */
+  const answer = (state: SessionState, value: number | null): SessionState => {
+    const question = currentQuestion(state);
+    if (state.mode !== GameMode.PLAYING || state.feedback || state.pausedAt || !question) return state;
+    const isCorrect = value === question.answer;
+    // A timeout counts as the full time, however late the tick that noticed it came
+    const timeTaken = value === null ? state.preset.timePerQuestion : elapsedSeconds(state);
+    const result: Result = {
+      question,
+      userAnswer: value,
+      isCorrect,
+      timeTaken,
+      points: isCorrect ? computePoints(state.preset, timeTaken) : 0,
+      ...(state.hintsShown > 0 && { hintsUsed: state.hintsShown }),
+      ...(state.keystrokes.length > 0 && { keystrokes: state.keystrokes })
+    };
+    return {
+      ...state,
+      results: [...state.results, result],
+      feedback: isCorrect ? 'correct' : value === null ? 'timeout' : 'wrong'
+    };
+  };
+
+  /** Leaves the feedback for the next question, or ends the session after the last one. */
+  const advance = (state: SessionState): SessionState => {
+    if (state.mode !== GameMode.PLAYING || !state.feedback) return state;
+    const questions = nextQueue(state);
+    if (state.index >= questions.length - 1) return { ...state, questions, mode: GameMode.RESULTS, feedback: null };
+    return {
+      ...state,
+      questions,
+      index: state.index + 1,
+      feedback: null,
+      hintsShown: 0,
+      keystrokes: [],
+      // Paused during the feedback: the clock of the next question starts when the pause ends
+      questionStartedAt: state.pausedAt?.at ?? now()
+    };
+  };
+
+  /** Notes what the answer field holds after each change, for the integrity checks. */
+  const recordInput = (state: SessionState, value: string): SessionState => {
+    if (state.mode !== GameMode.PLAYING || state.feedback || state.pausedAt) return state;
+    const keystroke: Keystroke = { at: Math.round(elapsedSeconds(state) * 1000), value };
+    return { ...state, keystrokes: [...state.keystrokes, keystroke] };
+  };
+
+  /** Reveals the next hint step, in practice only and while the question is still open. */
+  const showHint = (state: SessionState): SessionState => {
+    const question = currentQuestion(state);
+    if (!question || !canUseHints(state.playType) || state.feedback || state.pausedAt) return state;
+    return state.hintsShown < hintSteps(question).length ? { ...state, hintsShown: state.hintsShown + 1 } : state;
+  };
+
+  const pause = (state: SessionState, reason: PauseReason): SessionState =>
+    state.mode !== GameMode.PLAYING || state.pausedAt ? state : { ...state, pausedAt: { at: now(), reason } };
+
+  /** Time spent paused does not count towards the answer time. */
+  const resume = (state: SessionState): SessionState => {
+    if (!state.pausedAt) return state;
+    const duration = now() - state.pausedAt.at;
+    return {
+      ...state,
+      questionStartedAt: state.questionStartedAt + duration,
+      pausedAt: null,
+      pauses: [...state.pauses, { ...state.pausedAt, duration }]
+    };
+  };
+
+  return {
+    start,
+    startRetry,
+    restore,
+    toLiveSession,
+    recordInput,
+    answer,
+    advance,
+    showHint,
+    pause,
+    resume,
+    timeLeft,
+    hasTimedOut,
+    buildTestCode
+  };
+};
+
+export type SessionEngine = ReturnType<typeof createSessionEngine>;
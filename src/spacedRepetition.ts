@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Rng, shuffleWith } from './random.ts';
+import { FactState, Result } from './types.ts';
+
+// Leitner schedule: a fact moves up one box per fast correct answer and back
+// to box 1 on any miss. The interval is how long a fact rests in each box.
+const DAY = 24 * 60 * 60 * 1000;
+const BOX_INTERVALS = [0, 0, DAY, 3 * DAY, 7 * DAY, 16 * DAY];
+export const MAX_BOX = BOX_INTERVALS.length - 1;
+
+// Correct answers slower than this, or given after a hint, keep the fact in its current box.
+const FAST_ANSWER_SECONDS = 3;
+
+export const factKey = (a: number, b: number) => `${a}x${b}`;
+
+export const createFactState = (): FactState => ({
+  box: 1,
+  due: 0,
+  seen: 0,
+  correct: 0,
+  lastSeen: 0
+});
+
+// All answers to a fact within one session count as a single review, so
+// repeating a fact many times in one sitting cannot skip boxes.
+const applyReview = (state: FactState, answers: Result[], now: number): FactState => {
+  const allCorrect = answers.every(r => r.isCorrect);
+  const allFast = answers.every(r => r.timeTaken <= FAST_ANSWER_SECONDS && !r.hintsUsed);
+
+  let box = state.box;
+  if (!allCorrect) {
+    box = 1;
+  } else if (allFast) {
+    box = Math.min(MAX_BOX, box + 1);
+  }
+  return {
+    box,
+    due: now + BOX_INTERVALS[box],
+    seen: state.seen + answers.length,
+    correct: state.correct + answers.filter(r => r.isCorrect).length,
+    lastSeen: now
+  };
+};
+
+/** Folds a finished session into the per-fact memory state. */
+export const updateFactStates = (
+  states: Record<string, FactState>,
+  results: Result[],
+  now: number
+): Record<string, FactState> => {
+  const answersByFact: Record<string, Result[]> = {};
+  results.forEach(r => {
+    const key = factKey(r.question.a, r.question.b);
+    (answersByFact[key] ??= []).push(r);
+  });
+
+  const next = { ...states };
+  Object.entries(answersByFact).forEach(([key, answers]) => {
+    next[key] = applyReview(next[key] ?? createFactState(), answers, now);
+  });
+  return next;
+};
+
+const factsForTables = (tables: number[], factors: number[]) =>
+  tables.flatMap(a => factors.map(b => ({ a, b })));
+
+export const countDueFacts = (
+  states: Record<string, FactState>,
+  tables: number[],
+  factors: number[],
+  now: number
+) =>
+  factsForTables(tables, factors).filter(({ a, b }) => (states[factKey(a, b)]?.due ?? 0) <= now).length;
+
+/**
+ * Picks the facts for a session from the ones that are due, lowest box first.
+ * Facts that are not yet due only fill up the set when too few are due,
+ * and low-box facts are repeated more often than well-known ones.
+ */
+export const selectSmartFacts = (
+  states: Record<string, FactState>,
+  tables: number[],
+  factors: number[],
+  count: number,
+  now: number,
+  rng: Rng = Math.random
+): { a: number; b: number }[] => {
+  const ranked = factsForTables(tables, factors)
+    .map(fact => ({ ...fact, state: states[factKey(fact.a, fact.b)] ?? createFactState() }))
+    .sort((x, y) => {
+      const xDue = x.state.due <= now;
+      const yDue = y.state.due <= now;
+      if (xDue !== yDue) return xDue ? -1 : 1;
+      if (xDue) return x.state.box - y.state.box || x.state.due - y.state.due;
+      return x.state.due - y.state.due;
+    });
+
+  const dueFacts = ranked.filter(f => f.state.due <= now);
+  const pool = dueFacts.length >= Math.min(count, ranked.length) ? dueFacts : ranked.slice(0, Math.max(count, dueFacts.length));
+
+  // One slot per fact, plus extra slots for facts in the lowest boxes.
+  const weighted = pool.flatMap(f => Array(Math.max(1, MAX_BOX - f.state.box)).fill(f));
+
+  const picked: { a: number; b: number }[] = [];
+  while (picked.length < count && weighted.length > 0) {
+    for (const fact of shuffleWith(rng, weighted)) {
+      if (picked.length >= count) break;
+      const prev = picked[picked.length - 1];
+      if (prev && prev.a === fact.a && prev.b === fact.b && pool.length > 1) continue;
+      picked.push(fact);
+    }
+  }
+
+  return picked.map(({ a, b }) => ({ a, b }));
+};
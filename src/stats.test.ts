@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { makeQuestion } from './questions.ts';
+import { getWeakTables } from './stats.ts';
+import { Question, Result } from './types.ts';
+
+const answer = (question: Question, isCorrect: boolean): Result => ({
+  question,
+  userAnswer: isCorrect ? question.answer : null,
+  isCorrect,
+  timeTaken: 2,
+  points: isCorrect ? 5 : 0
+});
+
+/** `correct` of `total` answers right on one table. */
+const table = (a: number, correct: number, total: number) =>
+  Array.from({ length: total }, (_, i) => answer(makeQuestion(a, i + 1), i < correct));
+
+describe('getWeakTables', () => {
+  it('picks the tables under four right answers in five', () => {
+    expect(getWeakTables([...table(3, 4, 5), ...table(7, 3, 5), ...table(9, 0, 2)])).toEqual([7, 9]);
+  });
+
+  it('counts divisions and missing factors towards the table they come from', () => {
+    const results = [answer(makeQuestion(6, 4, 'divide'), false), answer(makeQuestion(6, 5, 'missing-factor'), true)];
+    expect(getWeakTables(results)).toEqual([6]);
+  });
+
+  it('finds nothing weak without answers', () => {
+    expect(getWeakTables([])).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { factKey } from './spacedRepetition.ts';
+import { questionKind } from './questions.ts';
+import { HistoryEntry, PlayType, QuestionKind, Result, TestPreset } from './types.ts';
+
+// A table counts as "needs practice" below this share of correct answers.
+export const WEAK_TABLE_THRESHOLD = 0.8;
+
+export type TableStats = Record<number, { correct: number; total: number }>;
+
+export const getTableStats = (results: Result[]): TableStats => {
+  const tableStats: TableStats = {};
+  results.forEach(r => {
+    const t = r.question.table;
+    if (!tableStats[t]) tableStats[t] = { correct: 0, total: 0 };
+    tableStats[t].total++;
+    if (r.isCorrect) tableStats[t].correct++;
+  });
+  return tableStats;
+};
+
+export const getWeakTables = (results: Result[]): number[] =>
+  Object.entries(getTableStats(results))
+    .filter(([_, s]) => s.correct / s.total < WEAK_TABLE_THRESHOLD)
+    .map(([t]) => Number(t));
+
+export const getKindStats = (results: Result[]) => {
+  const kindStats: Partial<Record<QuestionKind, { correct: number; total: number }>> = {};
+  results.forEach(r => {
+    const kind = questionKind(r.question);
+    const s = kindStats[kind] ??= { correct: 0, total: 0 };
+    s.total++;
+    if (r.isCorrect) s.correct++;
+  });
+  return kindStats;
+};
+
+// --- Fact mastery across sessions ---
+
+export interface FactMastery {
+  a: number;
+  b: number;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  medianTime: number;
+}
+
+export interface HistoryFilter {
+  from: number | null; // epoch ms, inclusive
+  to: number | null; // epoch ms, inclusive
+  type: PlayType | 'ALL';
+}
+
+// Entries saved before timestamps were stored use Date.now() as their id.
+export const entryTimestamp = (entry: HistoryEntry) => entry.timestamp ?? Number(entry.id);
+
+export const filterHistory = (history: HistoryEntry[], filter: HistoryFilter) =>
+  history.filter(entry => {
+    const time = entryTimestamp(entry);
+    if (filter.from !== null && time < filter.from) return false;
+    if (filter.to !== null && time > filter.to) return false;
+    return filter.type === 'ALL' || entry.type === filter.type;
+  });
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((x, y) => x - y);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Accuracy and median response time per a×b fact, keyed by `factKey`. */
+export const getFactMastery = (history: HistoryEntry[]): Record<string, FactMastery> => {
+  const answers: Record<string, Result[]> = {};
+  history.forEach(entry => {
+    entry.results?.forEach(r => {
+      (answers[factKey(r.question.a, r.question.b)] ??= []).push(r);
+    });
+  });
+
+  const mastery: Record<string, FactMastery> = {};
+  Object.entries(answers).forEach(([key, list]) => {
+    const correct = list.filter(r => r.isCorrect).length;
+    mastery[key] = {
+      a: list[0].question.a,
+      b: list[0].question.b,
+      attempts: list.length,
+      correct,
+      accuracy: correct / list.length,
+      // Timeouts say nothing about how fast the fact is recalled
+      medianTime: median(list.filter(r => r.userAnswer !== null).map(r => r.timeTaken))
+    };
+  });
+  return mastery;
+};
+
+// Facts answered correctly less often than this, or slower, are trouble spots.
+export const TROUBLE_ACCURACY = 0.8;
+export const TROUBLE_MEDIAN_SECONDS = 4;
+
+export const isTroubleSpot = (m: FactMastery) =>
+  m.accuracy < TROUBLE_ACCURACY || m.medianTime > TROUBLE_MEDIAN_SECONDS;
+
+/** Trouble spots, worst first. */
+export const getTroubleSpots = (mastery: Record<string, FactMastery>) =>
+  (Object.values(mastery) as FactMastery[])
+    .filter(isTroubleSpot)
+    .sort((x, y) => x.accuracy - y.accuracy || y.medianTime - x.medianTime);
+
+// --- Progress over time ---
+
+export interface TestPoint {
+  id: string;
+  time: number;
+  score: number;
+  points: number;
+  isPassed: boolean;
+}
+
+/** Presets the student has taken tests with, most recent first. Older entries without one are left out. */
+export const testedPresets = (history: HistoryEntry[]): TestPreset[] => {
+  const seen = new Map<string, TestPreset>();
+  history.forEach(entry => {
+    if (entry.type === PlayType.TEST && entry.preset && !seen.has(entry.preset.id)) seen.set(entry.preset.id, entry.preset);
+  });
+  return [...seen.values()];
+};
+
+/** Tests taken with one preset, oldest first, so scores can be compared against the same pass marks. */
+export const testProgress = (history: HistoryEntry[], presetId: string): TestPoint[] =>
+  history
+    .filter(entry => entry.type === PlayType.TEST && entry.preset?.id === presetId)
+    .map(entry => ({ id: entry.id, time: entryTimestamp(entry), score: entry.score, points: entry.points, isPassed: entry.isPassed }))
+    .sort((x, y) => x.time - y.time);
+
+/** Local midnight on the Monday starting the week. */
+export const weekStart = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return date.getTime();
+};
+
+export interface TableTrendPoint {
+  week: number; // weekStart, epoch ms
+  accuracy: Record<number, number | null>; // per table, 0–1; null when the table was not practised that week
+}
+
+/**
+ * Share of correct answers per table, week by week across practice and tests. Weeks without
+ * any answers are skipped rather than drawn as gaps.
+ */
+export const tableAccuracyTrend = (history: HistoryEntry[]): { tables: number[]; points: TableTrendPoint[] } => {
+  const weeks = new Map<number, Result[]>();
+  history.forEach(entry => {
+    if (!entry.results?.length) return;
+    const week = weekStart(entryTimestamp(entry));
+    weeks.set(week, [...(weeks.get(week) ?? []), ...entry.results]);
+  });
+  const tables = new Set<number>();
+  const points = [...weeks.entries()]
+    .sort(([x], [y]) => x - y)
+    .map(([week, results]) => {
+      const stats = getTableStats(results);
+      const accuracy: Record<number, number | null> = {};
+      Object.entries(stats).forEach(([table, s]) => {
+        tables.add(Number(table));
+        accuracy[Number(table)] = s.correct / s.total;
+      });
+      return { week, accuracy };
+    });
+  const sortedTables = [...tables].sort((x, y) => x - y);
+  points.forEach(p => sortedTables.forEach(table => {
+    p.accuracy[table] ??= null;
+  }));
+  return { tables: sortedTables, points };
+};
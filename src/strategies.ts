@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatEquation, questionKind } from './questions.ts';
+import { Question } from './types.ts';
+
+// Each strategy turns "factor × n" into steps a child already knows.
+const STRATEGIES: Record<number, (n: number) => string> = {
+  0: () => 'allt gånger 0 blir 0',
+  1: n => `gånger 1 ändrar inget, svaret är ${n}`,
+  10: n => `sätt en nolla efter ${n}: ${n * 10}`,
+  2: n => `dubbla ${n}: ${n} + ${n} = ${2 * n}`,
+  5: n => `räkna 10 × ${n} = ${10 * n} och ta hälften: ${5 * n}`,
+  9: n => `räkna 10 × ${n} − ${n} = ${10 * n} − ${n} = ${9 * n}`,
+  4: n => `dubbla två gånger: ${n} → ${2 * n} → ${4 * n}`,
+  3: n => `dubbla och lägg till en till: ${2 * n} + ${n} = ${3 * n}`,
+  6: n => `räkna 5 × ${n} + ${n} = ${5 * n} + ${n} = ${6 * n}`,
+  8: n => `dubbla tre gånger: ${n} → ${2 * n} → ${4 * n} → ${8 * n}`,
+  7: n => `räkna 5 × ${n} + 2 × ${n} = ${5 * n} + ${2 * n} = ${7 * n}`
+};
+
+// Friendlier strategies first, so 9 × 2 is explained as doubling rather than 10 × 2 − 2.
+const STRATEGY_ORDER = [0, 1, 10, 2, 5, 9, 4, 3, 6, 8, 7];
+
+/** One way to work out a × b, e.g. "räkna 10 × 7 − 7 = 70 − 7 = 63". */
+export const factStrategy = (a: number, b: number) => {
+  const factor = STRATEGY_ORDER.find(f => f === a || f === b);
+  if (factor !== undefined) return STRATEGIES[factor](factor === a ? b : a);
+  // Both factors above 10: split the larger one into ten and the rest
+  const [big, small] = a >= b ? [a, b] : [b, a];
+  return `dela upp ${big} i 10 + ${big - 10}: 10 × ${small} + ${big - 10} × ${small} = ${10 * small} + ${(big - 10) * small} = ${big * small}`;
+};
+
+/** "9 × 7 = 63: räkna ...", with division and missing factors turned back into multiplication. */
+export const strategyTip = (q: Question) => {
+  const lead = questionKind(q) === 'multiply' ? '' : `tänk ${q.a} × ? = ${q.a * q.b} och `;
+  return `${formatEquation(q)}: ${lead}${factStrategy(q.a, q.b)}.`;
+};
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ApiError, submitSession } from './api.ts';
+import { SessionUpload } from './types.ts';
+
+// Finished sessions wait here until the class server has confirmed them.
+const SYNC_QUEUE_KEY = 'plonninge_sync_queue';
+
+// navigator.onLine is optimistic on school networks, so keep retrying while anything is queued.
+const SYNC_RETRY_MS = 60 * 1000;
+
+export const uploadKey = (upload: SessionUpload) =>
+  `${upload.classCode.trim().toUpperCase()}/${upload.studentName.trim()}/${upload.entry.id}`;
+
+export const loadSyncQueue = (): SessionUpload[] => {
+  const raw = localStorage.getItem(SYNC_QUEUE_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to parse sync queue', e);
+    return [];
+  }
+};
+
+const saveSyncQueue = (queue: SessionUpload[]) => {
+  if (queue.length > 0) localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  else localStorage.removeItem(SYNC_QUEUE_KEY);
+};
+
+export const enqueueUpload = (upload: SessionUpload) => {
+  const key = uploadKey(upload);
+  saveSyncQueue([...loadSyncQueue().filter(u => uploadKey(u) !== key), upload]);
+};
+
+export interface FlushResult {
+  sent: string[];
+  /** Refused by the server, e.g. an unknown class code. Retrying would not help, so they are dropped. */
+  rejected: string[];
+}
+
+type Send = (upload: SessionUpload) => Promise<unknown>;
+
+let flushing: Promise<FlushResult> | null = null;
+let followUp: Promise<FlushResult> | null = null;
+
+const runFlush = async (send: Send) => {
+  const result: FlushResult = { sent: [], rejected: [] };
+  for (const upload of loadSyncQueue()) {
+    const key = uploadKey(upload);
+    try {
+      await send(upload);
+      result.sent.push(key);
+    } catch (e) {
+      if (!(e instanceof ApiError && e.status >= 400 && e.status < 500)) break;
+      console.warn('Class server rejected a queued session', e);
+      result.rejected.push(key);
+    }
+    // Re-read so sessions queued while this one was in flight are kept
+    saveSyncQueue(loadSyncQueue().filter(u => uploadKey(u) !== key));
+  }
+  return result;
+};
+
+/**
+ * Sends queued sessions oldest first and stops at the first network or server failure,
+ * leaving the rest for the next attempt. A run reads the queue when it starts, so a call made
+ * while one is in flight waits for it and then starts another; calls made meanwhile share that one.
+ */
+export const flushSyncQueue = (send: Send = submitSession): Promise<FlushResult> => {
+  if (!flushing) {
+    flushing = runFlush(send).finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  }
+  followUp ??= flushing.catch(() => undefined).then(() => {
+    followUp = null;
+    return flushSyncQueue(send);
+  });
+  return followUp;
+};
+
+/** Queue state for the nav, flushing on start, when the browser comes back online and on a timer. */
+export const useSyncQueue = () => {
+  const [pending, setPending] = useState(() => loadSyncQueue().length);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const flush = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      return await flushSyncQueue();
+    } finally {
+      setIsSyncing(false);
+      setPending(loadSyncQueue().length);
+    }
+  }, []);
+
+  const queueUpload = useCallback((upload: SessionUpload) => {
+    enqueueUpload(upload);
+    setPending(loadSyncQueue().length);
+    return flush();
+  }, [flush]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const retry = setInterval(() => {
+      if (loadSyncQueue().length > 0) flush();
+    }, SYNC_RETRY_MS);
+    if (loadSyncQueue().length > 0) flush();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(retry);
+    };
+  }, [flush]);
+
+  return { pending, isOnline, isSyncing, queueUpload, flush };
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TestCodeConfig, decodeQuestionCode, decodeTestCode, encodeQuestionCode, encodeTestCode, generateFromTestCode } from './testCode.ts';
+
+const CONFIG: TestCodeConfig = {
+  seed: 123456789,
+  tables: [3, 7],
+  minFactor: 1,
+  maxFactor: 10,
+  count: 40,
+  kinds: ['multiply', 'divide'],
+  rules: {
+    timePerQuestion: 6.5,
+    maxPoints: 6,
+    scoringCurve: 'gentle',
+    passScore: 36,
+    passPoints: 120,
+    passRule: 'both',
+    pausePolicy: 'record'
+  }
+};
+
+describe('test codes', () => {
+  it('decode to the config they were encoded from', () => {
+    const code = encodeTestCode(CONFIG);
+    expect(code).toBe('21i3v9-3.7-1.10-40-md-65.6.g.36.120.b.r');
+    expect(decodeTestCode(code)).toEqual(CONFIG);
+    expect(decodeTestCode(code.toUpperCase())).toEqual(CONFIG);
+  });
+
+  it('share their first five parts with the worksheet code', () => {
+    const { rules, ...questions } = CONFIG;
+    const code = encodeQuestionCode(questions);
+    expect(encodeTestCode(CONFIG).startsWith(`${code}-`)).toBe(true);
+    expect(decodeQuestionCode(code)).toEqual(questions);
+    expect(decodeTestCode(code)).toBeNull();
+  });
+
+  it.each([
+    ['a repeated table', '21i3v9-3.3-1.10-40-md-65.6.g.36.120.b.r'],
+    ['factors the wrong way round', '21i3v9-3.7-10.1-40-md-65.6.g.36.120.b.r'],
+    ['no questions', '21i3v9-3.7-1.10-0-md-65.6.g.36.120.b.r'],
+    ['more questions than allowed', '21i3v9-3.7-1.10-201-md-65.6.g.36.120.b.r'],
+    ['no question kinds', '21i3v9-3.7-1.10-40-x-65.6.g.36.120.b.r'],
+    ['no time per question', '21i3v9-3.7-1.10-40-md-0.6.g.36.120.b.r'],
+    ['an unknown scoring curve', '21i3v9-3.7-1.10-40-md-65.6.q.36.120.b.r'],
+    ['a pass score above the question count', '21i3v9-3.7-1.10-40-md-65.6.g.41.120.b.r'],
+    ['pass points above the most there are', '21i3v9-3.7-1.10-40-md-65.6.g.36.241.b.r'],
+    ['missing rules', '21i3v9-3.7-1.10-40-md-65.6.g.36.120']
+  ])('refuse %s', (_, code) => {
+    expect(decodeTestCode(code)).toBeNull();
+  });
+
+  it('give every device the same questions', () => {
+    const questions = generateFromTestCode(decodeTestCode(encodeTestCode(CONFIG))!);
+    expect(questions).toHaveLength(CONFIG.count);
+    expect(questions).toEqual(generateFromTestCode(CONFIG));
+  });
+});
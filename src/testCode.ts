@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_FACTOR_LIMIT, MAX_QUESTION_COUNT } from './presets.ts';
+import { QUESTION_KINDS, generateQuestionSet } from './questions.ts';
+import { createRng } from './random.ts';
+import { Question, QuestionKind, TestPreset } from './types.ts';
+
+/** Everything that decides which questions are asked, and in what order. */
+export interface QuestionCodeConfig {
+  seed: number;
+  tables: number[];
+  minFactor: number;
+  maxFactor: number;
+  count: number;
+  kinds: QuestionKind[];
+}
+
+/** The rest of the preset, so everyone given the same code is timed, scored and passed alike. */
+export type TestRules = Pick<
+  TestPreset,
+  'timePerQuestion' | 'maxPoints' | 'scoringCurve' | 'passScore' | 'passPoints' | 'passRule' | 'pausePolicy'
+>;
+
+export interface TestCodeConfig extends QuestionCodeConfig {
+  rules: TestRules;
+}
+
+// One letter per kind keeps the code short enough to write on the whiteboard.
+const KIND_CODES: Record<QuestionKind, string> = {
+  'multiply': 'm',
+  'divide': 'd',
+  'missing-factor': 'f'
+};
+
+const CURVE_CODES: Record<TestPreset['scoringCurve'], string> = { linear: 'l', steep: 's', gentle: 'g', flat: 'f' };
+const PASS_RULE_CODES: Record<TestPreset['passRule'], string> = { either: 'e', both: 'b' };
+const PAUSE_CODES: Record<TestPreset['pausePolicy'], string> = { forbid: 'f', record: 'r' };
+
+const decodeLetter = <T extends string>(codes: Record<T, string>, letter: string): T | undefined =>
+  (Object.keys(codes) as T[]).find(key => codes[key] === letter);
+
+/** e.g. "1x3k9-3.7-1.10-40-md", the part of a test code that a worksheet code starts with. */
+export const encodeQuestionCode = (config: QuestionCodeConfig) => [
+  config.seed.toString(36),
+  config.tables.join('.'),
+  `${config.minFactor}.${config.maxFactor}`,
+  config.count,
+  config.kinds.map(k => KIND_CODES[k]).join('')
+].join('-');
+
+/** e.g. "1x3k9-3.7-1.10-40-md-60.6.l.36.120.e.f". The time is in tenths of a second, so the dot stays a separator. */
+export const encodeTestCode = (config: TestCodeConfig) => [
+  encodeQuestionCode(config),
+  [
+    Math.round(config.rules.timePerQuestion * 10),
+    config.rules.maxPoints,
+    CURVE_CODES[config.rules.scoringCurve],
+    config.rules.passScore,
+    config.rules.passPoints,
+    PASS_RULE_CODES[config.rules.passRule],
+    PAUSE_CODES[config.rules.pausePolicy]
+  ].join('.')
+].join('-');
+
+export const isValidFactor = (n: number, min = 0) => Number.isInteger(n) && n >= min && n <= MAX_FACTOR_LIMIT;
+
+const isCount = (n: number, max: number) => Number.isInteger(n) && n >= 0 && n <= max;
+
+/** Returns null for anything that is not a valid code. Codes are not case sensitive. */
+export const decodeQuestionCode = (code: string): QuestionCodeConfig | null => {
+  const parts = code.trim().toLowerCase().split('-');
+  if (parts.length !== 5) return null;
+  const [seedPart, tablesPart, factorsPart, countPart, kindsPart] = parts;
+
+  const seed = parseInt(seedPart, 36);
+  const tables = tablesPart.split('.').map(Number);
+  const [minFactor, maxFactor] = factorsPart.split('.').map(Number);
+  const count = Number(countPart);
+  const kinds = QUESTION_KINDS.filter(k => kindsPart.includes(KIND_CODES[k]));
+
+  const valid =
+    /^[0-9a-z]+$/.test(seedPart) &&
+    tables.every(t => isValidFactor(t, 1)) &&
+    new Set(tables).size === tables.length &&
+    isValidFactor(minFactor) &&
+    isValidFactor(maxFactor) &&
+    minFactor <= maxFactor &&
+    Number.isInteger(count) &&
+    count >= 1 &&
+    count <= MAX_QUESTION_COUNT &&
+    kinds.length > 0;
+  return valid ? { seed, tables, minFactor, maxFactor, count, kinds } : null;
+};
+
+/** Returns null for anything that is not a valid code, including codes from before they carried the rules. */
+export const decodeTestCode = (code: string): TestCodeConfig | null => {
+  const parts = code.trim().toLowerCase().split('-');
+  if (parts.length !== 6) return null;
+  const questions = decodeQuestionCode(parts.slice(0, 5).join('-'));
+  const [tenths, maxPoints, curve, passScore, passPoints, passRule, pause] = parts[5].split('.');
+  const rules = {
+    timePerQuestion: Number(tenths) / 10,
+    maxPoints: Number(maxPoints),
+    scoringCurve: decodeLetter(CURVE_CODES, curve),
+    passScore: Number(passScore),
+    passPoints: Number(passPoints),
+    passRule: decodeLetter(PASS_RULE_CODES, passRule),
+    pausePolicy: decodeLetter(PAUSE_CODES, pause)
+  };
+
+  const valid =
+    questions !== null &&
+    /^[1-9][0-9]*$/.test(tenths) &&
+    Number.isInteger(rules.maxPoints) &&
+    rules.maxPoints >= 1 &&
+    rules.scoringCurve !== undefined &&
+    isCount(rules.passScore, questions.count) &&
+    isCount(rules.passPoints, questions.count * rules.maxPoints) &&
+    rules.passRule !== undefined &&
+    rules.pausePolicy !== undefined;
+  return valid ? { ...questions, rules: rules as TestRules } : null;
+};
+
+/** Every device builds the identical, ordered question list from the same config. */
+export const generateFromTestCode = (config: QuestionCodeConfig): Question[] =>
+  generateQuestionSet({
+    tables: config.tables,
+    factors: Array.from({ length: config.maxFactor - config.minFactor + 1 }, (_, i) => config.minFactor + i),
+    count: config.count,
+    kinds: config.kinds,
+    rng: createRng(config.seed)
+  });
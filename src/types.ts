@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Game ---
+
+export enum GameMode {
+  MENU = 'MENU',
+  PRACTICE_SETUP = 'PRACTICE_SETUP',
+  PLAYING = 'PLAYING',
+  RESULTS = 'RESULTS',
+  TEACHER = 'TEACHER',
+  MASTERY = 'MASTERY',
+  PROGRESS = 'PROGRESS',
+  PRESETS = 'PRESETS',
+  WORKSHEET = 'WORKSHEET',
+  WORD_PROBLEMS = 'WORD_PROBLEMS',
+  ACCESSIBILITY = 'ACCESSIBILITY',
+  ACCOMMODATIONS = 'ACCOMMODATIONS',
+  COMPETITION_HOST = 'COMPETITION_HOST', // the teacher's screen in a class competition
+  COMPETITION_JOIN = 'COMPETITION_JOIN'
+}
+
+export enum PlayType {
+  PRACTICE = 'PRACTICE',
+  TEST = 'TEST',
+  SMART = 'SMART',
+  RETRY = 'RETRY', // "Öva på felen" after a session, see retry.ts
+  ADAPTIVE = 'ADAPTIVE' // picks each question by how the session is going, see adaptive.ts
+}
+
+export type QuestionKind = 'multiply' | 'divide' | 'missing-factor';
+
+export interface Question {
+  a: number;
+  b: number;
+  answer: number; // the unknown the child types in
+  table: number;
+  kind?: QuestionKind; // missing on results saved before division was added
+}
+
+export interface Result {
+  question: Question;
+  userAnswer: number | null;
+  isCorrect: boolean;
+  timeTaken: number;
+  points: number;
+  hintsUsed?: number; // hint steps shown before answering, practice only
+  keystrokes?: Keystroke[]; // how the answer was typed, see integrity.ts
+}
+
+// --- Test rules ---
+
+export interface TestPreset {
+  id: string;
+  name: string;
+  questionCount: number;
+  timePerQuestion: number; // seconds
+  minFactor: number; // range for b in a × b
+  maxFactor: number;
+  maxPoints: number; // per question
+  scoringCurve: 'linear' | 'steep' | 'gentle' | 'flat';
+  passScore: number; // correct answers
+  passPoints: number; // speed points
+  passRule: 'either' | 'both';
+  pausePolicy: 'forbid' | 'record'; // whether tests may be paused by hand
+}
+
+// --- Accommodations ---
+
+/** Adjustments a teacher turns on for a student with documented needs, see accommodations.ts. */
+export interface Accommodations {
+  timeMultiplier: number; // applied to the preset's time per question
+  untimed: boolean; // tests without a clock, passed on correct answers alone
+  largeTargets: boolean; // bigger answer field and numpad
+}
+
+// --- Answer integrity ---
+
+/** One change to the answer field. */
+export interface Keystroke {
+  at: number; // ms after the question was shown, pauses excluded
+  value: string; // the field after the change
+}
+
+export type IntegrityFlag = 'guessing' | 'too-fast' | 'tab-switches';
+
+// --- Pausing ---
+
+export type PauseReason = 'manual' | 'hidden' | 'interrupted';
+
+export interface PauseRecord {
+  at: number; // epoch ms
+  duration: number; // ms
+  reason: PauseReason;
+}
+
+export interface HistoryEntry {
+  id: string;
+  date: string;
+  type: PlayType;
+  score: number;
+  total: number;
+  points: number;
+  isPassed: boolean;
+  timestamp?: number; // epoch ms; missing on entries saved before it was added
+  results?: Result[];
+  preset?: TestPreset;
+  pauses?: PauseRecord[];
+  testCode?: string; // rebuilds the exact question list, see testCode.ts
+  accommodations?: Accommodations; // set when the session was "anpassat"
+  retryOf?: string; // id of the session whose mistakes this round practised
+  integrityFlags?: IntegrityFlag[]; // set when a test had answer patterns worth a second look
+}
+
+/** A session in progress, saved after every answer so it survives a reload. */
+export interface LiveSession {
+  profileId: string;
+  playType: PlayType;
+  questions: Question[];
+  results: Result[];
+  preset: TestPreset;
+  pauses: PauseRecord[];
+  testCode?: string;
+  accommodations?: Accommodations;
+  retryOf?: string;
+  adaptive?: AdaptivePool;
+  savedAt: number; // epoch ms
+  questionElapsed?: number; // ms already spent on the current question, pauses excluded
+}
+
+/** What an adaptive session picks its questions from. The factors come from the preset. */
+export interface AdaptivePool {
+  tables: number[];
+  kinds: QuestionKind[];
+}
+
+// --- Spaced repetition ---
+
+export interface FactState {
+  box: number;
+  due: number; // epoch ms
+  seen: number;
+  correct: number;
+  lastSeen: number; // epoch ms
+}
+
+// --- Profiles ---
+
+export type Locale = 'sv' | 'en' | 'ar' | 'so';
+
+export type TablePalette = 'standard' | 'colorblind' | 'high-contrast';
+
+export interface AccessibilitySettings {
+  motion: 'system' | 'reduce' | 'full';
+  highContrast: boolean;
+  palette: TablePalette; // 'standard' uses the student's own table colours
+  readAloud: boolean;
+}
+
+export type Sound = 'correct' | 'wrong' | 'complete' | 'click';
+
+export type SoundTheme = 'classic' | 'soft' | 'arcade' | 'bells';
+
+export interface AudioSettings {
+  volume: number; // 0–1
+  muted: boolean;
+  theme: SoundTheme;
+  spokenFeedback: boolean; // "Rätt!" or the right answer read aloud after each question
+}
+
+export interface ProfileSettings {
+  lastSelectedTables: number[];
+  classCode: string;
+  presetId: string;
+  questionKinds: QuestionKind[];
+  maxTable: number; // largest table offered on the setup screen
+  locale: Locale;
+  accessibility: AccessibilitySettings;
+  accommodations: Accommodations;
+  audio: AudioSettings;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+  history?: HistoryEntry[]; // from before history moved to IndexedDB, or sessions it failed to save, see historyStore.ts
+  tableColors: Record<number, string>;
+  facts: Record<string, FactState>;
+  achievements: Record<string, number>; // achievement id -> unlocked at, epoch ms
+  settings: ProfileSettings;
+}
+
+export interface ProfileStore {
+  activeProfileId: string | null;
+  profiles: Profile[];
+}
+
+// --- Class server ---
+
+export interface ClassInfo {
+  id: number;
+  name: string;
+  code: string;
+  createdAt: string;
+}
+
+/** Returned once, when the class is created. The teacher key opens the class overview. */
+export interface NewClass extends ClassInfo {
+  teacherKey: string;
+}
+
+export interface SessionUpload {
+  classCode: string;
+  studentName: string;
+  entry: HistoryEntry;
+  results: Result[];
+}
+
+export interface StudentOverview {
+  studentId: number;
+  name: string;
+  sessionCount: number;
+  latestTest: {
+    sessionId: string;
+    date: string;
+    score: number;
+    total: number;
+    points: number;
+    isPassed: boolean;
+    testCode: string | null;
+    accommodations: Accommodations | null;
+    integrityFlags: IntegrityFlag[] | null;
+    weakTables: number[];
+  } | null;
+}
+
+export interface ClassOverview {
+  class: ClassInfo;
+  students: StudentOverview[];
+}
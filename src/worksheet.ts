@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { generateQuestionSet, makeQuestion, pickKind, questionTokens } from './questions.ts';
+import { createRng, shuffleWith } from './random.ts';
+import { QuestionCodeConfig, decodeQuestionCode, encodeQuestionCode, isValidFactor } from './testCode.ts';
+import { Question } from './types.ts';
+
+export const MIN_WORKSHEET_PROBLEMS = 10;
+export const MAX_WORKSHEET_PROBLEMS = 100;
+export const WORKSHEET_COLUMN_OPTIONS = [2, 3, 4, 5];
+export const DEFAULT_WORKSHEET_COLUMNS = 4;
+export const MAX_WORKSHEET_WEAK_FACTS = 12;
+
+// At most this share of the sheet is spent on weak facts, so the selected tables still dominate.
+const WEAK_FACT_SHARE = 0.25;
+
+export interface WorksheetConfig extends QuestionCodeConfig {
+  columns: number;
+  /** Facts from the student's history mixed in on top of the tables. */
+  weakFacts: { a: number; b: number }[];
+}
+
+// --- Worksheet codes ---
+
+/**
+ * A test code without its rules, followed by the layout and weak facts, e.g. "1x3k9-3.7-1.10-40-md-4-7x8.6x9".
+ * It is printed on both pages, so a lost answer key can be regenerated.
+ */
+export const encodeWorksheetCode = (config: WorksheetConfig) => [
+  encodeQuestionCode(config),
+  config.columns,
+  config.weakFacts.map(f => `${f.a}x${f.b}`).join('.')
+].join('-');
+
+/** Returns null for anything that is not a valid code. */
+export const decodeWorksheetCode = (code: string): WorksheetConfig | null => {
+  const parts = code.trim().toLowerCase().split('-');
+  if (parts.length !== 7) return null;
+  const base = decodeQuestionCode(parts.slice(0, 5).join('-'));
+  const columns = Number(parts[5]);
+  const weakFacts = parts[6]
+    ? parts[6].split('.').map(f => {
+        const [a, b] = f.split('x').map(Number);
+        return { a, b };
+      })
+    : [];
+
+  const valid =
+    base !== null &&
+    base.count >= MIN_WORKSHEET_PROBLEMS &&
+    base.count <= MAX_WORKSHEET_PROBLEMS &&
+    WORKSHEET_COLUMN_OPTIONS.includes(columns) &&
+    weakFacts.every(f => isValidFactor(f.a, 1) && isValidFactor(f.b));
+  return valid ? { ...base, columns, weakFacts } : null;
+};
+
+// --- Problems ---
+
+/** The same config always gives the same problems in the same order. */
+export const generateWorksheet = (config: WorksheetConfig): Question[] => {
+  const rng = createRng(config.seed);
+  const weak = shuffleWith(rng, config.weakFacts)
+    .slice(0, Math.floor(config.count * WEAK_FACT_SHARE))
+    .map(f => makeQuestion(f.a, f.b, pickKind(config.kinds, rng)));
+  const factors = Array.from({ length: config.maxFactor - config.minFactor + 1 }, (_, i) => config.minFactor + i);
+  const rest = generateQuestionSet({
+    tables: config.tables,
+    factors,
+    count: config.count - weak.length,
+    kinds: config.kinds,
+    rng
+  });
+  return shuffleWith(rng, [...weak, ...rest]);
+};
+
+const BLANK = '____';
+
+/** The problem as printed, with a line to write the answer on. */
+export const worksheetTokens = (q: Question): (number | string)[] => {
+  const tokens = questionTokens(q).map(t => t === '?' ? BLANK : t);
+  return tokens[tokens.length - 1] === '=' ? [...tokens, BLANK] : tokens;
+};
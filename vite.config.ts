@@ -2,13 +2,53 @@ import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
+import {VitePWA} from 'vite-plugin-pwa';
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [
+      react(),
+      tailwindcss(),
+      VitePWA({
+        registerType: 'autoUpdate',
+        includeAssets: ['icon.svg', 'apple-touch-icon.png'],
+        manifest: {
+          name: 'Plönninge multiplikationskoll',
+          short_name: 'Plönninge',
+          description: 'Öva och testa multiplikationstabellerna, även utan nätverk.',
+          lang: 'sv',
+          start_url: '/',
+          display: 'standalone',
+          background_color: '#f8fafc',
+          theme_color: '#10b981',
+          icons: [
+            {src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png'},
+            {src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png'},
+            {src: 'maskable-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable'},
+          ],
+        },
+        workbox: {
+          globPatterns: ['**/*.{js,css,html,svg,png}'],
+          // Results go through the sync queue; never answer API calls from the cache.
+          navigateFallbackDenylist: [/^\/api\//],
+          runtimeCaching: [
+            {
+              urlPattern: /^https:\/\/fonts\.(googleapis|gstatic)\.com\/.*/,
+              handler: 'CacheFirst',
+              options: {
+                cacheName: 'google-fonts',
+                expiration: {maxEntries: 20, maxAgeSeconds: 60 * 60 * 24 * 365},
+                cacheableResponse: {statuses: [0, 200]},
+              },
+            },
+          ],
+        },
+      }),
+    ],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.RESULTS_API_URL': JSON.stringify(env.RESULTS_API_URL),
     },
     resolve: {
       alias: {
@@ -19,6 +59,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      proxy: {
+        // ws: live class competitions run over a WebSocket under /api as well
+        '/api': {target: `http://localhost:${env.SERVER_PORT || 3001}`, ws: true},
+      },
     },
   };
 });